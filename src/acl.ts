@@ -0,0 +1,91 @@
+/**
+ * Types and functions for the access control lists of the folders and files of a file tree.
+ * An access control list is a list of entries that each grant or deny permissions to a user or to a group. The permissions of a user on a folder
+ * or file come from the entries of its own list and of the lists of all the folders containing it. An entry that denies a permission always wins
+ * over the entries that grant it, wherever they are in the file tree, and a permission that is never granted is denied.
+ */
+
+/**
+ * Permission on a folder or file. 'admin' also grants every other permission, and allows changing quotas and access control lists.
+ */
+type Permission = "read" | "write" | "delete" | "admin"
+
+/**
+ * Shape of each entry of an access control list.
+ */
+interface AccessControlEntry{
+    /** Whether the entry applies to a user or to a group */
+    type: "user" | "group",
+    /** Name of the user or group */
+    name: string,
+    /** Permissions granted or denied by the entry */
+    permissions: Permission[],
+    /** If true, the entry denies the permissions instead of granting them. Defaults to false. */
+    deny?: boolean
+}
+
+/**
+ * User on whose behalf the methods of a file tree are called, and the groups the user belongs to.
+ */
+interface Principal{
+    /** Name of the user */
+    user: string,
+    /** Names of the groups of the user. Is optional. */
+    groups?: string[]
+}
+
+const permissions: Permission[] = ["read", "write", "delete", "admin"]
+
+/**
+ * Checks that `acl` is a valid access control list. Returns the message of the error to raise if it is not, or undefined if it is.
+ * @param {unknown} acl Access control list to check
+ * @example
+ *
+ * validateAccessControlList([{type:"group", name:"editors", permissions:["read", "write"]}]) //undefined
+ * validateAccessControlList([{type:"team", name:"editors", permissions:["read"]}]) //"Invalid access control entry at index 0"
+ */
+const validateAccessControlList = (acl: unknown): string | undefined =>{
+    if(!Array.isArray(acl)){
+        return "Access control list must be an array of access control entries"
+    }
+    for(const [index, entry] of acl.entries()){
+        const isValid = typeof entry === "object" && entry !== null
+            && ["user", "group"].includes(entry.type)
+            && typeof entry.name === "string" && entry.name !== ""
+            && Array.isArray(entry.permissions) && entry.permissions.every((permission: unknown)=>permissions.includes(permission as Permission))
+            && (entry.deny === undefined || typeof entry.deny === "boolean")
+        if(!isValid){
+            return `Invalid access control entry at index ${index}`
+        }
+    }
+    return undefined
+}
+
+/**
+ * Returns true if the access control lists of a folder or file and of the folders containing it give `permission` to `principal`.
+ * @param {Array} acls Access control lists of the folder or file and of the folders containing it, in any order. Folders without a list are undefined.
+ * @param {Principal} principal User to check the permission of
+ * @param {Permission} permission Permission to check
+ * @example
+ *
+ * hasPermission([[{type:"group", name:"editors", permissions:["admin"]}], [{type:"user", name:"bob", permissions:["delete"], deny:true}]],
+ *     {user:"bob", groups:["editors"]}, "delete") //false
+ */
+const hasPermission = (acls: (AccessControlEntry[] | undefined)[], principal: Principal, permission: Permission): boolean =>{
+    let isGranted = false
+    for(const entry of acls.flatMap((acl)=>acl ?? [])){
+        const appliesToPrincipal = entry.type === "user" ? entry.name === principal.user : (principal.groups ?? []).includes(entry.name)
+        if(!appliesToPrincipal){
+            continue
+        }
+        if(entry.deny && entry.permissions.includes(permission)){
+            return false
+        }
+        if(!entry.deny && (entry.permissions.includes(permission) || entry.permissions.includes("admin"))){
+            isGranted = true
+        }
+    }
+    return isGranted
+}
+
+export {Permission, AccessControlEntry, Principal, validateAccessControlList, hasPermission}
@@ -0,0 +1,392 @@
+#!/usr/bin/env node
+import fs from "fs"
+import nodePath from "path"
+import {Readable, Writable, pipeline as pipelineCallback} from "stream"
+import {once} from "events"
+import {promisify} from "util"
+import MongoFileTree, {DirectoryEntry} from "./index"
+import {FileTreeErrorCode, FileTreeError, NotFoundError} from "./errors"
+import {resolvePath, parentPath, baseName} from "./path"
+
+const pipeline = promisify(pipelineCallback)
+
+const usage = `Usage: gridfs-file-tree [options] <command> [arguments]
+
+Commands:
+  ls [path]                        List a folder
+  tree [path]                      List a folder and all of its subfolders
+  mkdir [-p] <path>                Create a folder, and its missing parent folders with -p
+  put <local-file> [path]          Upload a local file, into a folder if path is a folder
+  get <path> [local-file]          Download a file
+  cat <path>                       Write a file to the standard output
+  mv <path> <folder>               Move a folder or file into a folder
+  rename <path> <new-name>         Rename a folder or file
+  rm [-r] [--permanent] <path>     Delete a file, or a folder with -r
+  meta get <path>                  Print the custom metadata of a folder or file
+  meta set <path> <key=value>...   Set custom metadata properties. Values are parsed as JSON if they can be.
+  meta unset <path> <key>...       Delete custom metadata properties
+  versions <path>                  List the versions of a file
+  zip <path> [local-file]          Download a folder as a zip file, to the standard output without local-file
+  migrate                          Create the indexes of the file tree and upgrade its collections to the latest schema
+  fsck [--repair]                  Check the file tree for inconsistencies, and repair them with --repair.
+                                   With --lost-and-found, missing folders are created in the lost+found folder.
+
+Options:
+  --url <url>                      MongoDB connection URL (env GRIDFS_TREE_URL, defaults to mongodb://localhost:27017)
+  --db <name>                      Name of the database (env GRIDFS_TREE_DB)
+  --bucket <name>                  Name of the GridFS bucket (env GRIDFS_TREE_BUCKET)
+  --folder-collection <name>       Name of the folder storage collection (env GRIDFS_TREE_FOLDER_COLLECTION)
+  --chunk-size <bytes>             Size of the GridFS chunks of uploaded files (defaults to 261120)
+  --content-type <type>            Media type of the uploaded file, detected from its data and name by default
+  --trash                          Move deleted folders and files to the trash
+  --deduplicate                    Only store identical data once
+  --json                           Print results and errors as JSON
+  -h, --help                       Print this help
+`
+
+/**
+ * Exit codes of the command-line tool, by code of the error raised by the file tree. Usage errors exit with 2 and other errors with 1.
+ */
+const exitCodes: Record<FileTreeErrorCode, number> = {NOT_FOUND:3, CONFLICT:4, INVALID_ARGUMENT:5, FORBIDDEN:6, LOCKED:7, QUOTA_EXCEEDED:8}
+
+/**
+ * Error raised for invalid arguments of the command-line tool itself
+ */
+class UsageError extends Error{}
+
+/**
+ * Arguments of the command line, split into options and positional arguments.
+ */
+interface ParsedArguments{
+    options: {[name: string]: string | true},
+    positionals: string[]
+}
+
+const optionsWithValue = ["url", "db", "bucket", "folder-collection", "chunk-size", "content-type"]
+const flagAliases: {[alias: string]: string} = {"r":"recursive", "p":"parents", "h":"help"}
+
+/**
+ * Splits the arguments of the command line into options and positional arguments. Everything after `--` is positional.
+ */
+const parseArguments = (args: string[]): ParsedArguments =>{
+    const parsed: ParsedArguments = {options:{}, positionals:[]}
+    for(let index = 0; index < args.length; index++){
+        const arg = args[index]
+        if(arg === "--"){
+            parsed.positionals.push(...args.slice(index+1))
+            break
+        }
+        if(arg.startsWith("--")){
+            const separatorIndex = arg.indexOf("=")
+            const name = separatorIndex === -1 ? arg.slice(2) : arg.slice(2, separatorIndex)
+            const value = separatorIndex === -1 ? undefined : arg.slice(separatorIndex+1)
+            if(optionsWithValue.includes(name)){
+                const optionValue = value ?? args[++index]
+                if(optionValue === undefined){
+                    throw new UsageError(`Missing value for option --${name}`)
+                }
+                parsed.options[name] = optionValue
+            }
+            else{
+                parsed.options[name] = true
+            }
+        }
+        else if(/^-[a-zA-Z]+$/.test(arg)){
+            for(const alias of arg.slice(1)){
+                parsed.options[flagAliases[alias] ?? alias] = true
+            }
+        }
+        else{
+            parsed.positionals.push(arg)
+        }
+    }
+    return parsed
+}
+
+/**
+ * @description Runs the command-line tool with the arguments following the name of the program, and resolves to its exit code:
+ * 0 on success, 2 for invalid arguments, 3 for folders and files that do not exist, 4 for names that already exist, 5 for invalid names and arguments,
+ * 6 for missing permissions, 7 for locked files, 8 for exceeded quotas, and 1 for other errors. The connection to MongoDB is closed before it resolves.
+ * @param {string[]} args Arguments of the command line
+ * @param {object} env Environment variables to read the connection options from. Defaults to `process.env`.
+ * @param {Writable} stdout Stream to write results to. Defaults to `process.stdout`.
+ * @param {Writable} stderr Stream to write errors to. Defaults to `process.stderr`.
+ * @since 1.1.0
+ * @version 0.1.0
+ * @example
+ *
+ * //Same as running `gridfs-file-tree --db GridFS-file-tree-management-sample --bucket sample-bucket --folder-collection sample-folder ls`
+ * let exitCode = await runCli(["--db", "GridFS-file-tree-management-sample", "--bucket", "sample-bucket", "--folder-collection", "sample-folder", "ls"])
+ */
+const runCli = async (args: string[], env: NodeJS.ProcessEnv = process.env, stdout: Writable = process.stdout, stderr: Writable = process.stderr): Promise<number> =>{
+    let parsed: ParsedArguments
+    try{
+        parsed = parseArguments(args)
+    }
+    catch(e){
+        stderr.write((e as Error).message+"\n"+usage)
+        return 2
+    }
+    const {options, positionals} = parsed
+    const isJson = options.json === true
+
+    if(options.help || positionals.length === 0){
+        (options.help ? stdout : stderr).write(usage)
+        return options.help ? 0 : 2
+    }
+
+    const url = (options.url as string | undefined) ?? env.GRIDFS_TREE_URL ?? "mongodb://localhost:27017"
+    const dbName = (options.db as string | undefined) ?? env.GRIDFS_TREE_DB
+    const bucketName = (options.bucket as string | undefined) ?? env.GRIDFS_TREE_BUCKET
+    const folderCollectionName = (options["folder-collection"] as string | undefined) ?? env.GRIDFS_TREE_FOLDER_COLLECTION
+
+    if(!dbName || !bucketName || !folderCollectionName){
+        stderr.write("Missing database, bucket, or folder collection name. Use the --db, --bucket, and --folder-collection options or the GRIDFS_TREE_DB, "
+            +"GRIDFS_TREE_BUCKET, and GRIDFS_TREE_FOLDER_COLLECTION environment variables.\n")
+        return 2
+    }
+
+    const fileTree = new MongoFileTree(url, dbName, bucketName, folderCollectionName, {useTrash:options.trash === true, deduplicate:options.deduplicate === true})
+
+    try{
+        await fileTree.connect()
+        const result = await runCommand(fileTree, positionals, options, stdout)
+        if(isJson && result !== undefined){
+            stdout.write(JSON.stringify(result, null, 2)+"\n")
+        }
+        return 0
+    }
+    catch(e){
+        const message = e instanceof Error ? e.message : String(e)
+        const exitCode = e instanceof UsageError ? 2 : e instanceof FileTreeError ? exitCodes[e.code] : 1
+        stderr.write(isJson ? JSON.stringify({error:message, exitCode})+"\n" : `Error: ${message}\n`)
+        if(e instanceof UsageError){
+            stderr.write(usage)
+        }
+        return exitCode
+    }
+    finally{
+        await fileTree.close()
+    }
+}
+
+/**
+ * Runs a command of the command-line tool. Resolves to the result to print with the --json option, after writing the text output of the command.
+ */
+const runCommand = async (fileTree: MongoFileTree, positionals: string[], options: ParsedArguments["options"], stdout: Writable): Promise<unknown> =>{
+    const [command, ...args] = positionals
+    const isJson = options.json === true
+    const chunkSize = options["chunk-size"] === undefined ? 261120 : Number(options["chunk-size"])
+    if(!Number.isInteger(chunkSize) || chunkSize <= 0){
+        throw new UsageError(`Option --chunk-size must be a positive integer: ${options["chunk-size"]}`)
+    }
+    const root = fileTree.folderCollectionName
+    const absolute = (path: string = root)=>resolvePath(path, root, root)
+    const requireArgs = (count: number, names: string)=>{
+        if(args.length < count){
+            throw new UsageError(`Missing arguments for command ${command}: ${names}`)
+        }
+    }
+
+    switch(command){
+        case "ls":{
+            const {entries} = await fileTree.listDirectory(absolute(args[0]))
+            if(!isJson){
+                stdout.write(entries.map((entry)=>[entry.kind === "folder" ? "d" : "-", entry.size ?? "-", entry.uploadDate?.toISOString() ?? "-", entry.name].join("\t")+"\n").join(""))
+            }
+            return entries
+        }
+        case "tree":{
+            const lines: string[] = []
+            const listTree = async (folderPath: string, depth: number): Promise<unknown[]> =>{
+                const nodes: unknown[] = []
+                for(const entry of (await fileTree.listDirectory(folderPath)).entries){
+                    lines.push("  ".repeat(depth)+entry.name+(entry.kind === "folder" ? "/" : ""))
+                    nodes.push(entry.kind === "folder" ? {...entry, entries:await listTree(entry.path, depth+1)} : entry)
+                }
+                return nodes
+            }
+            const nodes = await listTree(absolute(args[0]), 0)
+            if(!isJson){
+                stdout.write(lines.map((line)=>line+"\n").join(""))
+            }
+            return nodes
+        }
+        case "mkdir":{
+            requireArgs(1, "<path>")
+            const path = absolute(args[0])
+            if(options.parents && await findEntry(fileTree, path).then((entry)=>entry.kind === "folder", ()=>false)){
+                return {path}
+            }
+            const missingFolders = options.parents ? await missingAncestors(fileTree, path) : [parentPath(path)]
+            for(const folderPath of [...missingFolders.slice(1), path]){
+                await fileTree.createFolder(baseName(folderPath), {}, parentPath(folderPath))
+            }
+            return {path}
+        }
+        case "put":{
+            requireArgs(1, "<local-file> [path]")
+            let path = absolute(args[1] ?? nodePath.basename(args[0]))
+            if(await findEntry(fileTree, path).then((entry)=>entry.kind === "folder", ()=>false)){
+                path = path+"/"+nodePath.basename(args[0])
+            }
+            const id = await fileTree.uploadFile(fs.createReadStream(args[0]), {name:baseName(path), chunkSize, contentType:options["content-type"] as string | undefined, targetPath:parentPath(path)})
+            return {id, path}
+        }
+        case "get":{
+            requireArgs(1, "<path> [local-file]")
+            const localPath = args[1] ?? baseName(absolute(args[0]))
+            await pipeline(await fileTree.getFileReadStream(absolute(args[0])), fs.createWriteStream(localPath))
+            return {path:absolute(args[0]), localPath}
+        }
+        case "cat":{
+            requireArgs(1, "<path>")
+            await writeAll(await fileTree.getFileReadStream(absolute(args[0])), stdout)
+            return undefined
+        }
+        case "mv":{
+            requireArgs(2, "<path> <folder>")
+            const entry = await findEntry(fileTree, absolute(args[0]))
+            await (entry.kind === "folder" ? fileTree.moveFolder(entry.path, absolute(args[1])) : fileTree.moveFile(entry.path, absolute(args[1])))
+            return {path:absolute(args[1])+"/"+entry.name}
+        }
+        case "rename":{
+            requireArgs(2, "<path> <new-name>")
+            const entry = await findEntry(fileTree, absolute(args[0]))
+            await (entry.kind === "folder" ? fileTree.changeFolderName(args[1], entry.path) : fileTree.changeFileName(args[1], entry.path))
+            return {path:parentPath(entry.path)+"/"+args[1]}
+        }
+        case "rm":{
+            requireArgs(1, "<path>")
+            const entry = await findEntry(fileTree, absolute(args[0]))
+            if(entry.kind === "folder" && !options.recursive){
+                throw new UsageError(`Folder with path ${args[0]} can only be deleted with the -r option`)
+            }
+            const deleteOptions = {permanent:options.permanent === true ? true : undefined}
+            await (entry.kind === "folder" ? fileTree.deleteFolder(entry.path, deleteOptions) : fileTree.deleteFile(entry.path, deleteOptions))
+            return {path:entry.path}
+        }
+        case "meta":{
+            const [action, path, ...fields] = args
+            if(!["get", "set", "unset"].includes(action) || path === undefined){
+                throw new UsageError("Usage: meta get <path>, meta set <path> <key=value>..., or meta unset <path> <key>...")
+            }
+            const entry = await findEntry(fileTree, absolute(path))
+            if(action === "set"){
+                const metadata: {[key: string]: unknown} = {}
+                for(const field of fields){
+                    const separatorIndex = field.indexOf("=")
+                    if(separatorIndex < 1){
+                        throw new UsageError(`Invalid metadata property ${field}, expected <key=value>`)
+                    }
+                    metadata[field.slice(0, separatorIndex)] = parseValue(field.slice(separatorIndex+1))
+                }
+                await (entry.kind === "folder" ? fileTree.changeFolderMetadata(entry.path, metadata) : fileTree.changeFileMetadata(entry.path, metadata))
+            }
+            else if(action === "unset"){
+                await (entry.kind === "folder" ? fileTree.changeFolderMetadata(entry.path, undefined, fields) : fileTree.changeFileMetadata(entry.path, undefined, fields))
+            }
+            const {customMetadata} = action === "get" ? entry : await findEntry(fileTree, entry.path)
+            if(!isJson && action === "get"){
+                stdout.write(JSON.stringify(customMetadata, null, 2)+"\n")
+            }
+            return customMetadata
+        }
+        case "versions":{
+            requireArgs(1, "<path>")
+            const versions = await fileTree.listFileVersions(absolute(args[0]))
+            if(!isJson){
+                stdout.write(versions.map((version)=>[version.version, version.size, version.uploadDate.toISOString(), version.id.toHexString(), version.isLatest ? "latest" : ""].join("\t")+"\n").join(""))
+            }
+            return versions
+        }
+        case "zip":{
+            requireArgs(1, "<path> [local-file]")
+            const archive = await fileTree.downloadFolderStream(absolute(args[0]), {format:"zip"})
+            if(args[1] === undefined){
+                await writeAll(archive, stdout)
+                return undefined
+            }
+            await pipeline(archive, fs.createWriteStream(args[1]))
+            return {path:absolute(args[0]), localPath:args[1]}
+        }
+        case "migrate":{
+            const versions = await fileTree.migrate()
+            const schemaVersion = await fileTree.getSchemaVersion()
+            if(!isJson){
+                stdout.write(versions.length === 0 ? `Schema version ${schemaVersion} is up to date\n` : versions.map((version)=>`Applied migration ${version}\n`).join(""))
+            }
+            return {versions, schemaVersion}
+        }
+        case "fsck":{
+            const issues = options.repair ? await fileTree.repairTree({orphans:options["lost-and-found"] ? "lostAndFound" : "recreate"}) : await fileTree.checkTree()
+            if(!isJson){
+                stdout.write(issues.length === 0 ? "No inconsistencies found\n" : issues.map((issue)=>(options.repair ? "Repaired: " : "")+`${issue.message}\n`).join(""))
+            }
+            return issues
+        }
+        default:
+            throw new UsageError(`Unknown command ${command}`)
+    }
+}
+
+/**
+ * Returns the entry of the folder or file at `path`, from the listing of the folder containing it. The root directory has no metadata.
+ * Throws an error if there is no folder or file at `path`.
+ */
+const findEntry = async (fileTree: MongoFileTree, path: string): Promise<DirectoryEntry> =>{
+    if(path === fileTree.folderCollectionName){
+        throw new UsageError("Command cannot be used on the root directory of the file tree")
+    }
+    const {entries} = await fileTree.listDirectory(parentPath(path))
+    const entry = entries.find((directoryEntry)=>directoryEntry.path === path)
+    if(!entry){
+        throw new NotFoundError(`Folder or file with path ${path} does not exist`)
+    }
+    return entry
+}
+
+/**
+ * Returns the paths of the folders containing `path` that do not exist, from the closest existing folder to the parent folder of `path`.
+ * The first path is always the path of an existing folder.
+ */
+const missingAncestors = async (fileTree: MongoFileTree, path: string): Promise<string[]> =>{
+    const ancestors: string[] = []
+    let folderPath = parentPath(path)
+    while(folderPath !== fileTree.folderCollectionName && !(await findEntry(fileTree, folderPath).then((entry)=>entry.kind === "folder", ()=>false))){
+        ancestors.unshift(folderPath)
+        folderPath = parentPath(folderPath)
+    }
+    return [folderPath, ...ancestors]
+}
+
+/**
+ * Writes the data of `stream` to `output` without ending it, like the standard output.
+ */
+const writeAll = async (stream: Readable, output: Writable): Promise<void> =>{
+    for await (const chunk of stream){
+        if(!output.write(chunk)){
+            await once(output, "drain")
+        }
+    }
+}
+
+/**
+ * Parses the value of a metadata property given on the command line as JSON, or returns it as a string if it is not valid JSON.
+ */
+const parseValue = (value: string): unknown =>{
+    try{
+        return JSON.parse(value)
+    }
+    catch(e){
+        return value
+    }
+}
+
+if(require.main === module){
+    runCli(process.argv.slice(2)).then((exitCode)=>{
+        process.exitCode = exitCode
+    })
+}
+
+export {runCli}
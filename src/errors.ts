@@ -0,0 +1,79 @@
+/**
+ * Classes of the errors raised by the methods of a file tree. Each class has a stable `code`, so that callers like the HTTP handler
+ * and the command-line tool can tell errors apart without depending on the wording of their messages.
+ * Errors raised by MongoDB and by hooks are raised as they are.
+ */
+
+/**
+ * Kind of an error raised by the methods of a file tree, stored in its `code` property.
+ */
+type FileTreeErrorCode = "NOT_FOUND" | "CONFLICT" | "FORBIDDEN" | "LOCKED" | "QUOTA_EXCEEDED" | "INVALID_ARGUMENT"
+
+/**
+ * Base class of the errors raised by the methods of a file tree.
+ */
+class FileTreeError extends Error{
+    code: FileTreeErrorCode
+
+    constructor(code: FileTreeErrorCode, message: string){
+        super(message)
+        this.code = code
+    }
+}
+
+/**
+ * Error raised when a folder, file, version, or item in the trash does not exist.
+ */
+class NotFoundError extends FileTreeError{
+    constructor(message: string){
+        super("NOT_FOUND", message)
+    }
+}
+
+/**
+ * Error raised when a folder or file with the same name already exists.
+ */
+class ConflictError extends FileTreeError{
+    constructor(message: string){
+        super("CONFLICT", message)
+    }
+}
+
+/**
+ * Error raised when the principal of a file tree is missing a permission, when a path is outside of the folder a handle is confined to,
+ * or when a method cannot be called on a handle or on behalf of a principal.
+ */
+class PermissionError extends FileTreeError{
+    constructor(message: string){
+        super("FORBIDDEN", message)
+    }
+}
+
+/**
+ * Error raised when a file is locked by another owner, or is not locked by the owner trying to renew or release its lock.
+ */
+class LockedError extends FileTreeError{
+    constructor(message: string){
+        super("LOCKED", message)
+    }
+}
+
+/**
+ * Error raised when a write would exceed the storage quota of a folder.
+ */
+class QuotaExceededError extends FileTreeError{
+    constructor(message: string){
+        super("QUOTA_EXCEEDED", message)
+    }
+}
+
+/**
+ * Error raised for invalid arguments and options, and for operations that cannot be done, like deleting the current working directory.
+ */
+class InvalidArgumentError extends FileTreeError{
+    constructor(message: string){
+        super("INVALID_ARGUMENT", message)
+    }
+}
+
+export {FileTreeErrorCode, FileTreeError, NotFoundError, ConflictError, PermissionError, LockedError, QuotaExceededError, InvalidArgumentError}
@@ -0,0 +1,439 @@
+import {IncomingMessage, ServerResponse} from "http"
+import {Readable, pipeline as pipelineCallback} from "stream"
+import {promisify} from "util"
+import type MongoFileTree from "./index"
+import type {ArchiveFormat, FileVersionOptions} from "./index"
+import type {Principal} from "./acl"
+import {FileTreeErrorCode, FileTreeError} from "./errors"
+import {joinPath, parentPath, baseName} from "./path"
+
+const pipeline = promisify(pipelineCallback)
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter of the `createRequestHandler` function. All properties are optional.
+ */
+interface RequestHandlerOptions{
+    /** Path under which the file tree is served. The rest of the path of a request is the path of a folder or file relative to the root directory. Defaults to '/tree'. */
+    basePath?: string,
+    /** Size of the GridFS chunks of uploaded files in bytes. Defaults to 261120 (255 KiB). */
+    chunkSize?: number,
+    /** Largest JSON request body accepted by `POST` and `PATCH` requests in bytes. Defaults to 1048576 (1 MiB). */
+    maxJsonBodySize?: number,
+    /**
+     * Returns the user on whose behalf a request is handled, checked against the access control lists of the file tree. Requests for which it returns
+     * undefined are answered with a 403 status. If it is not provided, requests are not checked.
+     */
+    getPrincipal?: (req: IncomingMessage) => Principal | undefined | Promise<Principal | undefined>
+}
+
+/**
+ * Function handling an HTTP request, with the signature used by the `http` module, Express, and Koa (with `ctx.req` and `ctx.res`).
+ * If `next` is provided, requests outside the base path are passed on to it instead of being answered with a 404 status.
+ */
+type RequestHandler = (req: IncomingMessage, res: ServerResponse, next?: (err?: unknown) => void) => Promise<void>
+
+/**
+ * Error raised for requests that the handler itself rejects, with the HTTP status to answer with.
+ */
+class HttpError extends Error{
+    status: number
+
+    constructor(status: number, message: string){
+        super(message)
+        this.status = status
+    }
+}
+
+/**
+ * @description Returns a handler serving a file tree as a REST API over HTTP. Paths of requests are the paths of folders and files relative to the root directory,
+ * or to the folder of a handle returned by the `at` method of the file tree, under the base path:
+ *
+ * - `GET` reads a file, with support for `Range`, `If-Range`, and `If-None-Match` headers, or lists a folder as JSON. A `version` query parameter reads an older version
+ *   of a file. The `zip`, `tar`, or `tar.gz` query parameter downloads a folder as an archive instead. `HEAD` answers with the headers of the same `GET` request.
+ * - `PUT` uploads the request body as a file, or as a new version of it, and answers with its id.
+ * - `POST` creates a folder. The JSON body can have a `customMetadata` property.
+ * - `PATCH` renames or changes the metadata of a folder or file, with a JSON body made of the optional `name`, `customMetadata`, and `deleteFields` properties.
+ * - `DELETE` deletes a folder or file, permanently if the `permanent` query parameter is provided.
+ *
+ * The `X-Lock-Owner` header is the owner of the lock of the file written to by `PUT`, `PATCH` and `DELETE` requests. Errors are answered with a JSON body with
+ * an `error` property and a status made from their `code`: 404 for folders and files that do not exist, 409 for names that already exist,
+ * 403 for missing permissions, paths outside of the served folder, and requests for which the `getPrincipal` option returns no user,
+ * 423 for locked files, 507 for exceeded quotas, 400 for invalid arguments, and 500 otherwise.
+ * @param {MongoFileTree} fileTree File tree to serve
+ * @param {RequestHandlerOptions} options Options of the handler. Is optional.
+ * @since 1.1.0
+ * @version 0.1.0
+ * @example
+ *
+ * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+ * http.createServer(createRequestHandler(fileTree)).listen(8080)
+ * //With Express, requests outside of the base path go to the next middleware
+ * app.use(createRequestHandler(fileTree, {basePath:"/files", getPrincipal:(req)=>({user:req.user.name, groups:req.user.groups})}))
+ */
+const createRequestHandler = (fileTree: MongoFileTree, options: RequestHandlerOptions = {}): RequestHandler =>{
+    const basePath = "/"+joinPath(options.basePath ?? "/tree")
+    const chunkSize = options.chunkSize ?? 261120
+    const maxJsonBodySize = options.maxJsonBodySize ?? 1048576
+
+    return async (req, res, next)=>{
+        const url = new URL(req.url ?? "/", "http://localhost")
+        let pathname: string
+        try{
+            pathname = decodeURIComponent(url.pathname)
+        }
+        catch(e){
+            return sendJson(res, 400, {error:`Path ${url.pathname} is not a valid URI`})
+        }
+
+        if(pathname !== basePath && !pathname.startsWith(basePath === "/" ? "/" : basePath+"/")){
+            if(next){
+                return next()
+            }
+            return sendJson(res, 404, {error:`Path ${pathname} is not served by the file tree`})
+        }
+
+        const root = fileTree.basePath
+        const path = joinPath(root, pathname.slice(basePath.length))
+
+        try{
+            const tree = await requestTree(fileTree, req, options.getPrincipal)
+
+            switch(req.method){
+                case "GET":
+                case "HEAD":
+                    return await handleRead(tree, req, res, path, url.searchParams)
+                case "PUT":
+                    return await handleUpload(tree, req, res, path, chunkSize)
+                case "POST":
+                    return await handleCreateFolder(tree, req, res, path, maxJsonBodySize)
+                case "PATCH":
+                    return await handleChange(tree, req, res, path, maxJsonBodySize)
+                case "DELETE":
+                    return await handleDelete(tree, req, res, path, url.searchParams)
+                default:
+                    res.setHeader("Allow", "GET, HEAD, PUT, POST, PATCH, DELETE")
+                    throw new HttpError(405, `Method ${req.method} is not allowed`)
+            }
+        }
+        catch(e){
+            if(res.headersSent){
+                res.destroy(e instanceof Error ? e : undefined)
+                return
+            }
+            const message = e instanceof Error ? e.message : String(e)
+            sendJson(res, e instanceof HttpError ? e.status : statusOf(e), {error:message})
+        }
+    }
+}
+
+/**
+ * Returns the handle on the file tree used to handle a request, for the principal of the request if `getPrincipal` is provided.
+ * Each request gets its own handle, confined to the folder served by the handler. Raises an error if `getPrincipal` returns no principal,
+ * so that requests it cannot authenticate are not handled on the unchecked file tree.
+ */
+const requestTree = async (fileTree: MongoFileTree, req: IncomingMessage, getPrincipal?: RequestHandlerOptions["getPrincipal"]): Promise<MongoFileTree> =>{
+    const tree = fileTree.at(fileTree.basePath)
+    if(!getPrincipal){
+        return tree
+    }
+
+    const principal = await getPrincipal(req)
+    if(!principal){
+        throw new HttpError(403, "Request is not made on behalf of a user")
+    }
+    return tree.withPrincipal(principal)
+}
+
+/**
+ * Answers `GET` and `HEAD` requests, with the data of a file, the listing of a folder, or an archive of a folder.
+ */
+const handleRead = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams): Promise<void> =>{
+    const isHead = req.method === "HEAD"
+
+    if(await isFolder(tree, path)){
+        const format = (["zip", "tar", "tar.gz"] as ArchiveFormat[]).find((archiveFormat)=>query.has(archiveFormat))
+        if(format){
+            const archive = await tree.downloadFolderStream(path, {format})
+            res.statusCode = 200
+            res.setHeader("Content-Type", format === "zip" ? "application/zip" : format === "tar" ? "application/x-tar" : "application/gzip")
+            res.setHeader("Content-Disposition", `attachment; filename="${encodeURIComponent(baseName(path))}.${format}"`)
+            if(isHead){
+                archive.destroy()
+                res.end()
+                return
+            }
+            await pipeline(archive, res)
+            return
+        }
+
+        const listing = await tree.listDirectory(path, {
+            limit:query.has("limit") ? Number(query.get("limit")) : undefined,
+            cursor:query.get("cursor") ?? undefined
+        })
+        sendJson(res, 200, listing, isHead)
+        return
+    }
+
+    await sendFile(tree, req, res, path, query.has("version") ? {version:Number(query.get("version"))} : {})
+}
+
+/**
+ * Answers `GET` and `HEAD` requests for a version of a file, with support for `Range`, `If-Range`, and `If-None-Match` headers.
+ */
+const sendFile = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, versionOptions: FileVersionOptions = {}): Promise<void> =>{
+    const isHead = req.method === "HEAD"
+    const stat = await tree.statFile(path, versionOptions)
+
+    res.setHeader("ETag", stat.etag)
+    res.setHeader("Last-Modified", stat.uploadDate.toUTCString())
+    res.setHeader("Accept-Ranges", "bytes")
+    res.setHeader("Content-Type", stat.contentType)
+
+    if(matchesEtag(req.headers["if-none-match"], stat.etag)){
+        res.statusCode = 304
+        res.end()
+        return
+    }
+
+    // A range is only applied if the version it was asked for is still the one served
+    const ifRange = req.headers["if-range"]
+    const range = ifRange === undefined || ifRange === stat.etag ? parseRange(req.headers.range, stat.length) : undefined
+
+    if(range === null){
+        res.setHeader("Content-Range", `bytes */${stat.length}`)
+        throw new HttpError(416, `Range ${req.headers.range} is not satisfiable for file with path ${path} of ${stat.length} bytes`)
+    }
+
+    if(range){
+        res.statusCode = 206
+        res.setHeader("Content-Range", `bytes ${range.start}-${range.end-1}/${stat.length}`)
+        res.setHeader("Content-Length", range.end-range.start)
+    }
+    else{
+        res.statusCode = 200
+        res.setHeader("Content-Length", stat.length)
+    }
+
+    if(isHead || stat.length === 0){
+        res.end()
+        return
+    }
+
+    const stream = await tree.getFileReadStream(path, {...(range ?? {}), ...versionOptions})
+    await pipeline(stream, res)
+}
+
+/**
+ * Answers `PUT` requests by uploading the request body as a file.
+ */
+const handleUpload = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, chunkSize: number): Promise<void> =>{
+    if(path === tree.basePath || await isFolder(tree, path)){
+        throw new HttpError(409, `Folder with path ${path} already exists`)
+    }
+
+    const doesFileExist = (await tree.getEntryKind(path)) === "file"
+    const id = await tree.uploadFile(req, {
+        name:baseName(path),
+        chunkSize,
+        lockOwner:lockOwnerOf(req),
+        contentType:contentTypeOf(req),
+        targetPath:parentPath(path)
+    })
+
+    res.setHeader("Location", req.url ?? "")
+    sendJson(res, doesFileExist ? 200 : 201, {id, path})
+}
+
+/**
+ * Answers `POST` requests by creating a folder.
+ */
+const handleCreateFolder = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, maxJsonBodySize: number): Promise<void> =>{
+    if(path === tree.basePath){
+        throw new HttpError(409, `Folder with path ${path} already exists`)
+    }
+    const body = await readJsonBody(req, maxJsonBodySize)
+
+    const result = await tree.createFolder(baseName(path), body.customMetadata, parentPath(path))
+
+    sendJson(res, 201, {id:result.insertedId, path})
+}
+
+/**
+ * Answers `PATCH` requests by changing the metadata of a folder or file, then renaming it.
+ */
+const handleChange = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, maxJsonBodySize: number): Promise<void> =>{
+    const body = await readJsonBody(req, maxJsonBodySize)
+    const {name, customMetadata, deleteFields} = body
+    const lockOwner = lockOwnerOf(req)
+
+    if(name !== undefined && typeof name !== "string"){
+        throw new HttpError(400, "Property 'name' of the request body must be a string")
+    }
+    if(deleteFields !== undefined && !(Array.isArray(deleteFields) && deleteFields.every((field)=>typeof field === "string"))){
+        throw new HttpError(400, "Property 'deleteFields' of the request body must be an array of strings")
+    }
+
+    const isFolderPath = await isFolder(tree, path)
+
+    if(customMetadata !== undefined || deleteFields !== undefined){
+        if(isFolderPath){
+            await tree.changeFolderMetadata(path, customMetadata, deleteFields)
+        }
+        else{
+            await tree.changeFileMetadata(path, customMetadata, deleteFields, false, lockOwner)
+        }
+    }
+
+    if(name !== undefined && name !== baseName(path)){
+        if(isFolderPath){
+            await tree.changeFolderName(name, path, lockOwner)
+        }
+        else{
+            await tree.changeFileName(name, path, lockOwner)
+        }
+    }
+
+    sendJson(res, 200, {path:name === undefined ? path : parentPath(path)+"/"+name})
+}
+
+/**
+ * Answers `DELETE` requests by deleting a folder or file.
+ */
+const handleDelete = async (tree: MongoFileTree, req: IncomingMessage, res: ServerResponse, path: string, query: URLSearchParams): Promise<void> =>{
+    const deleteOptions = {permanent:query.has("permanent"), lockOwner:lockOwnerOf(req)}
+
+    if(await isFolder(tree, path)){
+        await tree.deleteFolder(path, deleteOptions)
+    }
+    else{
+        await tree.deleteFile(path, deleteOptions)
+    }
+
+    res.statusCode = 204
+    res.end()
+}
+
+/**
+ * Returns true if `path` is the path of the root directory or of a folder of the file tree.
+ */
+const isFolder = async (tree: MongoFileTree, path: string): Promise<boolean> =>{
+    return (await tree.getEntryKind(path)) === "folder"
+}
+
+/**
+ * Returns the owner of the lock of the file written to by a request, from its `X-Lock-Owner` header.
+ */
+const lockOwnerOf = (req: IncomingMessage): string | undefined =>{
+    const lockOwner = req.headers["x-lock-owner"]
+    return Array.isArray(lockOwner) ? lockOwner[0] : lockOwner
+}
+
+/**
+ * Returns the media type of the body of a request, from its `Content-Type` header. Generic media types that clients send for any file are ignored,
+ * so that the media type is detected instead.
+ */
+const contentTypeOf = (req: IncomingMessage): string | undefined =>{
+    const contentType = req.headers["content-type"]
+    return contentType === undefined || /^application\/(octet-stream|x-www-form-urlencoded)\b/.test(contentType) ? undefined : contentType
+}
+
+/**
+ * HTTP status of each kind of error raised by the methods of the file tree
+ */
+const errorStatuses: Record<FileTreeErrorCode, number> = {NOT_FOUND:404, CONFLICT:409, FORBIDDEN:403, LOCKED:423, QUOTA_EXCEEDED:507, INVALID_ARGUMENT:400}
+
+/**
+ * Returns the HTTP status matching the code of an error raised by a method of the file tree, or 500 for other errors, like the errors of MongoDB.
+ */
+const statusOf = (error: unknown): number =>{
+    return error instanceof FileTreeError ? errorStatuses[error.code] : 500
+}
+
+/**
+ * Returns true if the value of an `If-None-Match` header matches `etag`.
+ */
+const matchesEtag = (header: string | undefined, etag: string): boolean =>{
+    if(header === undefined){
+        return false
+    }
+    return header.trim() === "*" || header.split(",").map((tag)=>tag.trim().replace(/^W\//, "")).includes(etag)
+}
+
+/**
+ * Parses the value of a `Range` header into the byte range to read from a file of `length` bytes, with an exclusive end.
+ * Returns undefined if the whole file should be read, which is the case without a header or with a header asking for several ranges,
+ * and null if the range cannot be satisfied.
+ */
+const parseRange = (header: string | undefined, length: number): {start: number, end: number} | null | undefined =>{
+    const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+    if(!match || (match[1] === "" && match[2] === "")){
+        return undefined
+    }
+
+    let start: number
+    let end: number
+    if(match[1] === ""){
+        // Suffix range, made of the last bytes of the file
+        start = Math.max(length-Number(match[2]), 0)
+        end = length
+    }
+    else{
+        start = Number(match[1])
+        end = match[2] === "" ? length : Math.min(Number(match[2])+1, length)
+    }
+
+    return start < end ? {start, end} : null
+}
+
+/**
+ * Reads the body of a request as text. Throws an error if it is larger than `maxSize` bytes.
+ */
+const readBody = async (req: Readable, maxSize: number): Promise<string> =>{
+    const chunks: Buffer[] = []
+    let size = 0
+    for await (const chunk of req){
+        size += chunk.length
+        if(size > maxSize){
+            throw new HttpError(413, `Request body is larger than ${maxSize} bytes`)
+        }
+        chunks.push(chunk)
+    }
+    return Buffer.concat(chunks).toString()
+}
+
+/**
+ * Reads the body of a request as a JSON object. An empty body is read as an empty object.
+ */
+const readJsonBody = async (req: Readable, maxSize: number): Promise<Record<string, any>> =>{
+    const text = await readBody(req, maxSize)
+    if(text.trim() === ""){
+        return {}
+    }
+
+    let body: unknown
+    try{
+        body = JSON.parse(text)
+    }
+    catch(e){
+        throw new HttpError(400, "Request body must be a JSON object")
+    }
+    if(typeof body !== "object" || body === null || Array.isArray(body)){
+        throw new HttpError(400, "Request body must be a JSON object")
+    }
+    return body as Record<string, any>
+}
+
+/**
+ * Answers a request with a JSON body.
+ */
+const sendJson = (res: ServerResponse, status: number, body: unknown, omitBody: boolean = false): void =>{
+    const json = JSON.stringify(body)
+    res.statusCode = status
+    res.setHeader("Content-Type", "application/json; charset=utf-8")
+    res.setHeader("Content-Length", Buffer.byteLength(json))
+    res.end(omitBody ? undefined : json)
+}
+
+export {createRequestHandler, RequestHandlerOptions, RequestHandler}
+// Used by the WebDAV handler
+export {HttpError, requestTree, sendFile, sendJson, isFolder, contentTypeOf, statusOf, readBody}
@@ -1,6 +1,20 @@
-import { MongoClient, GridFSBucket,  Db, ObjectId, InsertOneResult, GridFSBucketReadStream, GridFSFile} from "mongodb"
-import {Readable} from "stream"
+import { MongoClient, GridFSBucket,  Db, ObjectId, InsertOneResult, GridFSBucketReadStream, GridFSFile, ClientSession, Document, IndexDescription} from "mongodb"
+import {Readable, pipeline as pipelineCallback} from "stream"
 import JSZip, { OutputType } from "jszip"
+import archiver from "archiver"
+import crypto from "crypto"
+import fs from "fs"
+import nodePath from "path"
+import {promisify} from "util"
+import {resolvePath, isWithin, parentPath, baseName, ancestorPaths, isAncestor, subtreeRegExp, validateName, numberedName, globToRegExp} from "./path"
+import FileTreeWatcher, {FileTreeEvents, typedEventEmitter} from "./watcher"
+import {Permission, AccessControlEntry, Principal, validateAccessControlList, hasPermission} from "./acl"
+import {FileTreeErrorCode, FileTreeError, NotFoundError, ConflictError, PermissionError, LockedError, QuotaExceededError, InvalidArgumentError} from "./errors"
+import {createRequestHandler, RequestHandlerOptions, RequestHandler} from "./http"
+import {createWebDavHandler, WebDavHandlerOptions} from "./webdav"
+import {sniffLength, contentTypeFromName, detectContentType, isContentType} from "./mime"
+import {Migration, MigrationDocument, migrations, convertStorageMode} from "./migrations"
+import FolderResolver from "./resolver"
 
 /**
  * Shape of the object to be provided as an argument for the `options` parameter
@@ -11,17 +25,750 @@ interface FileOptions{
     name: string,
     /** Size of the file chunks in GridFS */
     chunkSize: number,
-    /** Custom metadata properties to add to the file. Any property can be added besides 'path', 'parentDirectory', and 'isLatest' can be added. Is optional.  */
-    customMetadata?:MetadataOptions
+    /** Custom metadata properties to add to the file. Any property can be added besides 'path', 'parentDirectory', 'parentId', and 'isLatest' can be added. Is optional.  */
+    customMetadata?:MetadataOptions,
+    /** Owner of the lock on the file, if the file is locked. Is optional. */
+    lockOwner?: string,
+    /** Media type of the file, like 'text/plain'. If it is not provided, it is detected from the first bytes of the file and from its name. Is optional. */
+    contentType?: string,
+    /** Path of the folder to upload the file into. Defaults to the current working directory. Is optional. */
+    targetPath?: string
 }
 
 /**
  * Object type representing custom metadata that the user can add to folders and files.
- * Can have any property except 'path', 'parentDirectory', and 'isLatest'.
+ * Can have any property except 'path', 'parentDirectory', 'parentId', and 'isLatest'.
  * This prevents users from improperly modifying these properties using class methods, as they
  * are critical to the basic functioning of the file tree.
  */
-type MetadataOptions = Omit<object, "path" | "parentDirectory"| "isLatest">
+type MetadataOptions = Omit<object, "path" | "parentDirectory" | "parentId" | "isLatest">
+
+/**
+ * Shape of each entry returned by the `listDirectory` method on the MongoFileTree class.
+ * An entry represents either a folder document or a file document of the GridFS bucket.
+ */
+interface DirectoryEntry{
+    /** Id of the folder document or of the GridFS file document */
+    id: ObjectId,
+    /** Name of the folder or file */
+    name: string,
+    /** Absolute path of the folder or file */
+    path: string,
+    /** Whether the entry is a folder or a file */
+    kind: "folder" | "file",
+    /** Size of the file in bytes. Is null for folders. */
+    size: number | null,
+    /** Date the file was uploaded. Is null for folders. */
+    uploadDate: Date | null,
+    /** Whether the entry is the latest version of the file. Is always true for folders. */
+    isLatest: boolean,
+    /** Hex encoded SHA-256 hash of the data of the file. Is null for folders and for files uploaded before hashes were stored. */
+    sha256: string | null,
+    /** Media type of the file. Is null for folders. */
+    contentType: string | null,
+    /** Custom metadata properties of the folder or file */
+    customMetadata: MetadataOptions
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `listDirectory` method on the MongoFileTree class. All properties are optional.
+ */
+interface ListDirectoryOptions{
+    /** If true, the `path` argument is treated as relative to the current working directory even if it starts with the name of the root directory. Defaults to false. */
+    isRelative?: boolean,
+    /** If true, every version of each file is listed instead of only the latest one. Defaults to false. */
+    includeAllVersions?: boolean,
+    /** Property to sort the entries by. Defaults to 'name'. */
+    sortBy?: "name" | "kind" | "size" | "uploadDate",
+    /** Order to sort the entries in. Defaults to 'ascending'. */
+    sortOrder?: "ascending" | "descending",
+    /** Maximum number of entries to return. If not provided, all remaining entries are returned. */
+    limit?: number,
+    /** Value of `nextCursor` returned by a previous call, used to get the next page of entries */
+    cursor?: string
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `query` parameter
+ * of the `search` method on the MongoFileTree class. All properties are optional, and an entry must match all of the provided properties.
+ */
+interface SearchQuery{
+    /**
+     * Glob pattern or regular expression matched against the names of folders and files. In a glob pattern, `*` matches any number of characters
+     * and `?` matches exactly one character, and the pattern must match the whole name.
+     */
+    name?: string | RegExp,
+    /** If provided, only folders or only files are returned */
+    kind?: "folder" | "file",
+    /**
+     * Custom metadata properties the entries must have, compared to the `metadata` of files and the `customMetadata` of folders.
+     * Values can be MongoDB query operators, like `{rating:{$gte:4}}`.
+     */
+    metadata?: {[key: string]: any},
+    /** Minimum size of files in bytes. Folders are not returned if a size or upload date filter is provided. */
+    minSize?: number,
+    /** Maximum size of files in bytes */
+    maxSize?: number,
+    /** Earliest upload date of files */
+    uploadedAfter?: Date,
+    /** Latest upload date of files */
+    uploadedBefore?: Date,
+    /** If true, every version of each file is searched instead of only the latest one. Defaults to false. */
+    includeAllVersions?: boolean,
+    /** Property to sort the entries by. Defaults to 'name'. */
+    sortBy?: "name" | "kind" | "size" | "uploadDate",
+    /** Order to sort the entries in. Defaults to 'ascending'. */
+    sortOrder?: "ascending" | "descending",
+    /** Maximum number of entries to return. If not provided, all remaining entries are returned. */
+    limit?: number,
+    /** Value of `nextCursor` returned by a previous call, used to get the next page of entries */
+    cursor?: string
+}
+
+/**
+ * Shape of the object returned by the `listDirectory` and `search` methods on the MongoFileTree class.
+ */
+interface DirectoryListing{
+    /** Entries of the requested page */
+    entries: DirectoryEntry[],
+    /** Cursor to provide to the next call to get the following page. Is null if there are no more entries. */
+    nextCursor: string | null
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `getFolderUsage` method on the MongoFileTree class. All properties are optional.
+ */
+interface FolderUsageOptions{
+    /** If true, every version of each file is counted instead of only the latest one. Defaults to false. */
+    includeAllVersions?: boolean
+}
+
+/**
+ * Shape of the object returned by the `getFolderUsage` method on the MongoFileTree class.
+ */
+interface FolderUsage{
+    /** Total size in bytes of the counted versions of the files in the folder and its subfolders */
+    bytes: number,
+    /** Part of `bytes` stored in the chunks of the counted versions. Is lower than `bytes` if files share their data with deduplicated storage. */
+    storedBytes: number,
+    /** Number of files in the folder and its subfolders */
+    fileCount: number,
+    /** Number of counted versions. Is the same as `fileCount` unless all versions are counted. */
+    versionCount: number,
+    /** Storage quota of the folder in bytes, or null if the folder has no quota */
+    quota: number | null
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `copyFile` and `copyFolder` methods on the MongoFileTree class. All properties are optional.
+ */
+interface CopyOptions{
+    /** If true, every version of each file is copied. If false, only the latest version of each file is copied. Defaults to false. */
+    includeAllVersions?: boolean
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `moveFile` and `moveFolder` methods on the MongoFileTree class. All properties are optional.
+ */
+interface MoveOptions{
+    /** Name of the folder or file in the destination folder, to move and rename it at once. Defaults to its current name. */
+    newName?: string,
+    /**
+     * If true, the folder or file already at the new path is deleted, or moved to the trash if the trash is enabled, instead of raising an error.
+     * It is only deleted once the move and its deletion are both allowed. Defaults to false.
+     */
+    overwrite?: boolean
+}
+
+/**
+ * Shape of each version returned by the `listFileVersions` method on the MongoFileTree class.
+ */
+interface FileVersion{
+    /** Id of the GridFS file document of the version */
+    id: ObjectId,
+    /** Version number of the version, starting at 1 for the oldest version of the file */
+    version: number,
+    /** Size of the version in bytes */
+    size: number,
+    /** Date the version was uploaded */
+    uploadDate: Date,
+    /** Whether the version is the latest version of the file */
+    isLatest: boolean,
+    /** Hex encoded SHA-256 hash of the data of the version. Is null for versions uploaded before hashes were stored. */
+    sha256: string | null,
+    /** Media type of the version */
+    contentType: string,
+    /** Custom metadata properties of the version */
+    customMetadata: MetadataOptions
+}
+
+/**
+ * Object used to select a single version of a file. At most one of the properties can be provided.
+ * If none are provided, the latest version of the file is selected.
+ */
+interface FileVersionOptions{
+    /** Version number of the version, as returned by the `listFileVersions` method */
+    version?: number,
+    /** Id of the GridFS file document of the version */
+    versionId?: ObjectId,
+    /** Selects the version that was the latest at the given date */
+    asOf?: Date
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter of the `restoreFileVersion` method on the MongoFileTree class.
+ * Selects the version to restore, like the options of the `statFile` method.
+ */
+interface RestoreVersionOptions extends FileVersionOptions{
+    /** Owner of the lock on the file, if the file is locked */
+    lockOwner?: string
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter of the `getFileReadStream` method on the MongoFileTree class.
+ * Besides selecting a version of the file, it can restrict the stream to a range of bytes. All properties are optional.
+ */
+interface ReadStreamOptions extends FileVersionOptions{
+    /** 0-based offset of the first byte to read. Defaults to 0. */
+    start?: number,
+    /** 0-based offset of the byte to stop reading before, so it is not read. Defaults to the length of the file. */
+    end?: number
+}
+
+/**
+ * Shape of the object returned by the `statFile` method on the MongoFileTree class.
+ */
+interface FileStat{
+    /** Id of the GridFS file document of the version */
+    id: ObjectId,
+    /** Absolute path of the file */
+    path: string,
+    /** Version number of the version, starting at 1 for the oldest version of the file */
+    version: number,
+    /** Number of versions of the file */
+    versionCount: number,
+    /** Size of the version in bytes */
+    length: number,
+    /** Size of the GridFS chunks of the version in bytes */
+    chunkSize: number,
+    /** Date the version was uploaded */
+    uploadDate: Date,
+    /** Hex encoded SHA-256 hash of the data of the version. Is null for versions uploaded before hashes were stored. */
+    sha256: string | null,
+    /** Strong HTTP entity tag of the version, made from its hash, or from its id if it has no hash. Versions with the same data have the same tag. */
+    etag: string,
+    /** Media type of the version */
+    contentType: string
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `policy` parameter
+ * of the `pruneFileVersions` method on the MongoFileTree class. At least one of the properties must be provided.
+ */
+interface PruneOptions{
+    /** Number of most recent versions to keep, including the latest version */
+    keepLast?: number,
+    /** Maximum age in milliseconds of the versions to keep */
+    maxAge?: number,
+    /** Owner of the lock on the file, if the file is locked */
+    lockOwner?: string
+}
+
+/**
+ * Format of the archive created by the `downloadFolderStream` method on the MongoFileTree class.
+ */
+type ArchiveFormat = "zip" | "tar" | "tar.gz"
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `downloadFolderStream` method on the MongoFileTree class. All properties are optional.
+ */
+interface FolderStreamOptions{
+    /** Format of the archive. Defaults to 'zip'. */
+    format?: ArchiveFormat
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `uploadArchive` method on the MongoFileTree class.
+ */
+interface ArchiveUploadOptions{
+    /** Absolute path of the folder to upload the contents of the zip file into. Defaults to the current working directory. */
+    targetPath?: string,
+    /** Size of the file chunks in GridFS */
+    chunkSize: number,
+    /**
+     * What to do when a file of the zip file already exists in the file tree. 'version' uploads it as the latest version of the existing file,
+     * 'skip' does not upload it, and 'error' raises an error before anything is uploaded. Defaults to 'version'.
+     */
+    onConflict?: "version" | "skip" | "error"
+}
+
+/**
+ * Shape of the object returned by the `uploadArchive` method on the MongoFileTree class.
+ */
+interface ArchiveUploadResult{
+    /** Absolute paths of the folders and files that were created */
+    created: string[],
+    /** Absolute paths of the files that were uploaded as a new version of an existing file */
+    versioned: string[],
+    /** Absolute paths of the files that were not uploaded because they already existed */
+    skipped: string[],
+    /** Entries of the zip file that were not uploaded because their names are invalid */
+    rejected: {name: string, reason: string}[]
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `importLocalDirectory` and `exportToLocalDirectory` methods on the MongoFileTree class. All properties are optional.
+ */
+interface LocalSyncOptions{
+    /** Size of the file chunks in GridFS of the imported files. Only used by `importLocalDirectory`. Defaults to 261120 bytes (255 KiB). */
+    chunkSize?: number,
+    /**
+     * If true, files that exist in both places are compared by size and SHA-256 hash, and only changed files are copied.
+     * If false, every file is copied. Defaults to false.
+     */
+    sync?: boolean,
+    /** If true, files and folders that exist in the destination but not in the source are deleted. Defaults to false. */
+    mirrorDeletions?: boolean,
+    /** If true, nothing is changed and the returned actions are the ones that would have been performed. Defaults to false. */
+    dryRun?: boolean
+}
+
+/**
+ * Shape of each action returned by the `importLocalDirectory` and `exportToLocalDirectory` methods on the MongoFileTree class.
+ */
+interface SyncAction{
+    /**
+     * 'create' when the entry did not exist in the destination, 'update' when a file was copied over an existing one (as a new version in the file tree),
+     * 'skip' when a file was unchanged, 'delete' when the entry was deleted from the destination, and 'reject' when the entry has an invalid name.
+     */
+    type: "create" | "update" | "skip" | "delete" | "reject",
+    /** Whether the entry is a folder or a file */
+    kind: "folder" | "file",
+    /** Path of the entry relative to the synced folders, using '/' as separator */
+    relativePath: string,
+    /** Reason the entry was rejected. Only set for 'reject' actions. */
+    reason?: string
+}
+
+/**
+ * Entry of a folder in the file tree or in the local filesystem, as compared by the sync methods.
+ */
+interface SyncEntry{
+    kind: "folder" | "file",
+    /** Size of the file in bytes. Is 0 for folders. */
+    size: number,
+    /** Path of the entry in the local filesystem. Only set for local entries. */
+    localPath?: string,
+    /** Id of the GridFS file storing the data of the latest version of the file. Only set for files of the file tree. */
+    fileId?: ObjectId,
+    /** SHA-256 hash of the latest version of the file, if it is stored. Only set for files of the file tree. */
+    sha256?: string
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the MongoFileTree constructor. All properties are optional.
+ */
+interface FileTreeOptions{
+    /** If true, the `deleteFile` and `deleteFolder` methods move files and folders to the trash instead of deleting them permanently. Defaults to false. */
+    useTrash?: boolean,
+    /**
+     * Number of milliseconds after which folders and files in the trash are deleted permanently. Defaults to 30 days.
+     * Expired items are deleted when the trash is used, when the indexes are created, and by the `purgeExpiredTrash` method.
+     */
+    trashRetention?: number,
+    /**
+     * If true, the data of uploaded and copied files is only stored once: a file with the same SHA-256 hash as a stored file shares its chunks,
+     * and uploading a file identical to the latest version of the file with the same path does nothing. Defaults to false.
+     */
+    deduplicate?: boolean,
+    /**
+     * How folders and files refer to the folder containing them. With 'path', they store their path and the path of their parent folder, and with
+     * 'parentId', only the id of their parent folder, so that renaming or moving a folder only changes its own document. Defaults to 'path'.
+     * The folders and files of an existing file tree must be converted with the `migrateStorageMode` method after changing this option.
+     */
+    storageMode?: StorageMode,
+    /**
+     * With the 'parentId' storage mode, number of milliseconds for which the folders read to resolve paths are cached. Renames, moves, and deletions
+     * of folders made by other processes can go unnoticed for that long, unless a watcher returned by the `watch` method is open. Defaults to 1 second.
+     */
+    folderCacheTtl?: number
+}
+
+/**
+ * How the folders and files of a file tree refer to the folder containing them: by path, or by the id of the folder.
+ */
+type StorageMode = "path" | "parentId"
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `deleteFile` and `deleteFolder` methods on the MongoFileTree class. All properties are optional.
+ */
+interface DeleteOptions{
+    /** If true, the folder or file is deleted permanently even if the trash is enabled. Defaults to false. */
+    permanent?: boolean,
+    /** Owner of the locks on the file, or on the files in the folder, if they are locked */
+    lockOwner?: string
+}
+
+/**
+ * Shape of each item returned by the `listTrash` method on the MongoFileTree class.
+ */
+interface TrashEntry{
+    /** Id of the item in the trash, to be provided to the `restoreFromTrash` method */
+    id: ObjectId,
+    /** Whether the item is a folder or a file */
+    kind: "folder" | "file",
+    /** Name of the folder or file when it was deleted */
+    name: string,
+    /** Absolute path of the folder or file when it was deleted */
+    path: string,
+    /** Date at which the folder or file was deleted */
+    deletedAt: Date,
+    /** Date after which the folder or file is deleted permanently */
+    expiresAt: Date
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter
+ * of the `restoreFromTrash` method on the MongoFileTree class. All properties are optional.
+ */
+interface RestoreOptions{
+    /** Path of the folder to restore the item into. Defaults to the folder it was deleted from. */
+    targetPath?: string,
+    /**
+     * What to do if a folder or file with the same name already exists where the item is restored. 'error' raises an error, and 'rename' restores
+     * the item under a new name made by adding a number to its name, like 'sample-1.txt'. Defaults to 'error'.
+     */
+    onConflict?: "error" | "rename"
+}
+
+/**
+ * Shape of each lock returned by the `lockFile`, `renewLock`, and `listLocks` methods on the MongoFileTree class.
+ */
+interface FileLock{
+    /** Absolute path of the locked file */
+    path: string,
+    /** Owner of the lock, the only one allowed to write to the file until the lock expires */
+    owner: string,
+    /** Date at which the lock was taken */
+    lockedAt: Date,
+    /** Date at which the lock expires, unless it is renewed */
+    expiresAt: Date
+}
+
+/**
+ * Shape of each inconsistency returned by the `checkTree` and `repairTree` methods on the MongoFileTree class.
+ */
+interface TreeIssue{
+    /**
+     * Class of the inconsistency: 'folderPath' and 'filePath' for a folder or the versions of a file whose path does not match their name and the path
+     * of their parent folder, 'latestVersion' for a file with no latest version or with several, 'missingFolder' for a folder that does not exist
+     * but still contains folders or files, and 'orphanChunks' for chunks of the GridFS bucket that belong to no file.
+     */
+    kind: "folderPath" | "filePath" | "latestVersion" | "missingFolder" | "orphanChunks",
+    /** Path of the folder or file, or of the missing folder. Null if it is not known. */
+    path: string | null,
+    /**
+     * Ids of the folder, of the versions of the file from oldest to newest, of the folders and file versions directly inside the missing folder,
+     * or of the missing file the chunks belong to
+     */
+    ids: ObjectId[],
+    /** Id of the missing folder, for 'missingFolder' inconsistencies with the 'parentId' storage mode */
+    folderId?: ObjectId,
+    /** Description of the inconsistency */
+    message: string
+}
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter of the `repairTree` method on the MongoFileTree class.
+ * All properties are optional.
+ */
+interface RepairOptions{
+    /** If true, only returns the inconsistencies that would be repaired, without changing anything. Defaults to false. */
+    dryRun?: boolean,
+    /**
+     * How missing folders are repaired. 'recreate' creates each missing folder at its path, along with the missing folders containing it,
+     * and 'lostAndFound' creates it at the same path inside the `lost+found` folder of the root directory instead, moving the folders and files in it there.
+     * Missing folders outside of the root directory and of the trash, and with the 'parentId' storage mode, where the path of a missing folder is not known,
+     * are always created in the `lost+found` folder, named after their id with the 'parentId' storage mode. Defaults to 'recreate'.
+     */
+    orphans?: "recreate" | "lostAndFound"
+}
+
+/**
+ * Context objects passed to the hooks registered with the `addHook` method on the MongoFileTree class, by name of the hook.
+ * Hooks run after the arguments of a method are checked and before anything is written. A hook vetoes the operation by throwing an error
+ * or returning a rejected promise, in which case the method raises that error. Properties that are not read-only can be changed to modify the operation.
+ */
+interface FileTreeHooks{
+    /** Runs before a file is uploaded, including the files of the `uploadArchive` and `importLocalDirectory` methods */
+    beforeUpload: {readonly name: string, readonly path: string, customMetadata: Record<string, any>},
+    /** Runs before a folder is created, including the folders created by the `uploadArchive` and `importLocalDirectory` methods */
+    beforeFolderCreate: {readonly name: string, readonly path: string, customMetadata: Record<string, any>},
+    /** Runs before a folder or file is renamed */
+    beforeRename: {readonly kind: "folder" | "file", readonly path: string, readonly newName: string},
+    /** Runs before a folder or file is moved into the folder at `destinationPath` */
+    beforeMove: {readonly kind: "folder" | "file", readonly path: string, readonly destinationPath: string},
+    /** Runs before a folder or file is copied into the folder at `destinationPath` */
+    beforeCopy: {readonly kind: "folder" | "file", readonly path: string, readonly destinationPath: string},
+    /** Runs before a folder or file is deleted, or moved to the trash if `permanent` is false */
+    beforeDelete: {readonly kind: "folder" | "file", readonly path: string, readonly permanent: boolean},
+    /** Runs before the metadata of a folder or file is changed. The changed metadata is checked after the hooks run. */
+    beforeMetadataChange: {readonly kind: "folder" | "file", readonly path: string, newMetadata?: Record<string, any>, deleteFields?: string[]},
+    /** Runs before a folder or file deleted from `path` is restored from the trash into the folder at `destinationPath` */
+    beforeRestore: {readonly kind: "folder" | "file", readonly path: string, readonly destinationPath: string},
+    /** Runs before an older version of the file at `path` is restored as its latest version */
+    beforeVersionRestore: {readonly path: string, readonly versionId: ObjectId},
+    /** Runs before older versions of the file at `path` are deleted by the `pruneFileVersions` method */
+    beforePrune: {readonly path: string, readonly versionIds: readonly ObjectId[]}
+}
+
+/**
+ * Function to be provided as an argument for the `hook` parameter of the `addHook` method on the MongoFileTree class.
+ */
+type FileTreeHook<H extends keyof FileTreeHooks> = (context: FileTreeHooks[H]) => void | Promise<void>
+
+const pipeline = promisify(pipelineCallback)
+
+/**
+ * Type of the `Symbol` constructor of runtimes that define `Symbol.asyncDispose`, which the lib files of this TypeScript version do not declare.
+ */
+type AsyncDisposableSymbolConstructor = SymbolConstructor & {readonly asyncDispose?: unique symbol}
+
+/**
+ * Symbol of the method called by `await using` declarations to dispose of a resource. Node.js defines it before JavaScript runtimes do.
+ */
+const asyncDispose = (Symbol as AsyncDisposableSymbolConstructor).asyncDispose ?? Symbol.for("nodejs.asyncDispose") as NonNullable<AsyncDisposableSymbolConstructor["asyncDispose"]>
+
+/**
+ * Returns the id of the GridFS file that stores the data of a file. With deduplicated storage, a file whose data is identical to the data of
+ * another file has no chunks of its own, and its `contentId` metadata property is the id of the file that stores the data.
+ */
+const contentIdOf = (file: GridFSFile): ObjectId =>{
+    return file.metadata?.contentId ?? file._id
+}
+
+/**
+ * Shape of the documents of the lock collection. A lock is identified by the path of the locked file, so a file can only have one lock.
+ */
+interface LockDocument{
+    _id: string,
+    owner: string,
+    lockedAt: Date,
+    expiresAt: Date
+}
+
+const toFileLock = (lock: LockDocument): FileLock =>{
+    return {path:lock._id, owner:lock.owner, lockedAt:lock.lockedAt, expiresAt:lock.expiresAt}
+}
+
+/**
+ * Indexes of the folder storage collection and of the files collection of the GridFS bucket that depend on the storage mode of the file tree.
+ * In each storage mode, a unique index prevents two folders from having the same path, and a partial unique index prevents a file from having more
+ * than one latest version.
+ */
+const storageIndexes: {[M in StorageMode]: {folders: IndexDescription[], files: IndexDescription[]}} = {
+    path:{
+        folders:[
+            {key:{"path":1}, name:"path_unique", unique:true},
+            {key:{"parentDirectory":1, "name":1}, name:"parentDirectory_name"}
+        ],
+        files:[
+            {key:{"metadata.path":1}, name:"metadata.path_latest_unique", unique:true, partialFilterExpression:{"metadata.isLatest":true}},
+            {key:{"metadata.path":1, "uploadDate":-1}, name:"metadata.path_uploadDate"},
+            {key:{"metadata.parentDirectory":1, "metadata.isLatest":1}, name:"metadata.parentDirectory_isLatest"}
+        ]
+    },
+    // Documents that are not converted from the path storage mode yet have no parent id
+    parentId:{
+        folders:[
+            {key:{"parentId":1, "name":1}, name:"parentId_name_unique", unique:true, partialFilterExpression:{"parentId":{$exists:true}}}
+        ],
+        files:[
+            {key:{"metadata.parentId":1, "filename":1}, name:"metadata.parentId_filename_latest_unique", unique:true,
+                partialFilterExpression:{"metadata.isLatest":true, "metadata.parentId":{$exists:true}}},
+            {key:{"metadata.parentId":1, "filename":1, "uploadDate":-1}, name:"metadata.parentId_filename_uploadDate"},
+            {key:{"metadata.parentId":1, "metadata.isLatest":1}, name:"metadata.parentId_isLatest"}
+        ]
+    }
+}
+
+/**
+ * Tells whether the principal of a file tree can read the folder or file at `path`, given the access control list of the file.
+ */
+type ReadFilter = (path: string, fileAcl?: AccessControlEntry[]) => boolean
+
+/** Converts a folder document into an entry of a directory listing */
+const toFolderEntry = (folder: any): DirectoryEntry =>{
+    return {
+        id:folder._id,
+        name:folder.name,
+        path:folder.path,
+        kind:"folder",
+        size:null,
+        uploadDate:null,
+        isLatest:true,
+        sha256:null,
+        contentType:null,
+        customMetadata:{...folder.customMetadata}
+    }
+}
+
+/** Converts a GridFS file document into an entry of a directory listing */
+const toFileEntry = (file: GridFSFile): DirectoryEntry =>{
+    const {path, parentDirectory, parentId, isLatest, sha256 = null, contentId, acl, contentType, ...customMetadata} = file.metadata as any
+    return {
+        id:file._id,
+        name:file.filename,
+        path,
+        kind:"file",
+        size:file.length,
+        uploadDate:file.uploadDate,
+        isLatest,
+        sha256,
+        contentType:contentTypeOf(file),
+        customMetadata
+    }
+}
+
+/** Returns the media type of a GridFS file document. Files uploaded before media types were detected get the media type of their extension. */
+const contentTypeOf = (file: GridFSFile): string =>{
+    return file.metadata?.contentType ?? contentTypeFromName(file.filename) ?? "application/octet-stream"
+}
+
+/**
+ * Sorts entries of a directory listing and returns the page selected by the `limit` and `cursor` options.
+ * Throws an error if one of the options is invalid.
+ */
+const paginateEntries = (entries: DirectoryEntry[], options: Pick<ListDirectoryOptions, "sortBy" | "sortOrder" | "limit" | "cursor">): DirectoryListing =>{
+    const {sortBy = "name", sortOrder = "ascending", limit, cursor} = options
+
+    if(!["name", "kind", "size", "uploadDate"].includes(sortBy)){
+        throw new InvalidArgumentError(`Invalid argument for option sortBy. Argument must either be 'name', 'kind', 'size', or 'uploadDate'.`)
+    }
+
+    if(limit !== undefined && (!Number.isInteger(limit) || limit < 1)){
+        throw new InvalidArgumentError("Option limit must be a positive integer")
+    }
+
+    let offset = 0
+    if(cursor !== undefined){
+        offset = Number(Buffer.from(cursor, "base64").toString())
+        if(!Number.isInteger(offset) || offset < 0){
+            throw new InvalidArgumentError("Invalid cursor")
+        }
+    }
+
+    const compareValues = (a: any, b: any): number =>{
+        if(a === b){
+            return 0
+        }
+        if(a === null){
+            return -1
+        }
+        if(b === null){
+            return 1
+        }
+        return a < b ? -1 : 1
+    }
+
+    const direction = sortOrder === "descending" ? -1 : 1
+    const sortedEntries = [...entries].sort((a, b)=>{
+        const result = compareValues(a[sortBy], b[sortBy]) * direction
+        if(result !== 0){
+            return result
+        }
+        // Keeps the order stable between pages, with newer versions of a file first
+        return compareValues(a.name, b.name) || compareValues(a.path, b.path) || compareValues(b.uploadDate?.getTime() ?? null, a.uploadDate?.getTime() ?? null)
+            || compareValues(a.id.toHexString(), b.id.toHexString())
+    })
+
+    const end = limit === undefined ? sortedEntries.length : offset+limit
+    const nextCursor = end < sortedEntries.length ? Buffer.from(String(end)).toString("base64") : null
+
+    return {entries:sortedEntries.slice(offset, end), nextCursor}
+}
+
+/** Resolves to the hex encoded SHA-256 hash of the data of a readable stream */
+const hashStream = (stream: Readable): Promise<string> =>{
+    return new Promise<string>((resolve, reject)=>{
+        const hash = crypto.createHash("sha256")
+        stream.on("data", (chunk)=>hash.update(chunk))
+        stream.on("error", reject)
+        stream.on("end", ()=>resolve(hash.digest("hex")))
+    })
+}
+
+/** Lists the folders and files inside a local directory, keyed by their path relative to it */
+const walkLocalDirectory = async (rootPath: string): Promise<Map<string, SyncEntry>> =>{
+    const entries = new Map<string, SyncEntry>()
+
+    const walk = async (relativePath: string): Promise<void> =>{
+        for(const dirent of await fs.promises.readdir(nodePath.join(rootPath, relativePath), {withFileTypes:true})){
+            const childPath = relativePath ? relativePath+"/"+dirent.name : dirent.name
+            const localPath = nodePath.join(rootPath, childPath)
+            if(dirent.isDirectory()){
+                entries.set(childPath, {kind:"folder", size:0, localPath})
+                await walk(childPath)
+            }
+            else if(dirent.isFile()){
+                entries.set(childPath, {kind:"file", size:(await fs.promises.stat(localPath)).size, localPath})
+            }
+        }
+    }
+
+    await walk("")
+    return entries
+}
+
+/**
+ * Compares the entries of a source folder with the ones of a destination folder and returns the actions needed to make the destination match the source.
+ * `isUnchanged` is only called for files that exist in both folders with the same size, and only if `sync` is true.
+ */
+const planSync = async (source: Map<string, SyncEntry>, destination: Map<string, SyncEntry>, options: LocalSyncOptions,
+    isUnchanged: (relativePath: string) => Promise<boolean>): Promise<SyncAction[]> =>{
+    const actions: SyncAction[] = []
+
+    for(const relativePath of [...source.keys()].sort()){
+        const entry = source.get(relativePath) as SyncEntry
+        const existingEntry = destination.get(relativePath)
+
+        if(existingEntry && existingEntry.kind !== entry.kind){
+            actions.push({type:"reject", kind:entry.kind, relativePath, reason:`A ${existingEntry.kind} with the same path already exists in the destination`})
+        }
+        else if(!existingEntry){
+            actions.push({type:"create", kind:entry.kind, relativePath})
+        }
+        else if(entry.kind === "file"){
+            const isSkipped = options.sync && existingEntry.size === entry.size && await isUnchanged(relativePath)
+            actions.push({type:isSkipped ? "skip" : "update", kind:"file", relativePath})
+        }
+    }
+
+    if(options.mirrorDeletions){
+        const deletedFolders: string[] = []
+        for(const relativePath of [...destination.keys()].sort()){
+            if(source.has(relativePath) || deletedFolders.some((folderPath)=>relativePath.startsWith(folderPath+"/"))){
+                continue
+            }
+            const entry = destination.get(relativePath) as SyncEntry
+            actions.push({type:"delete", kind:entry.kind, relativePath})
+            if(entry.kind === "folder"){
+                deletedFolders.push(relativePath)
+            }
+        }
+    }
+
+    return actions
+}
 
 /** Stores a file tree in MongoDB using GridFS.
  * Files will be stored in a GridFS Bucket, and the documents in the `files` collection of the
@@ -37,6 +784,10 @@ type MetadataOptions = Omit<object, "path" | "parentDirectory"| "isLatest">
  *      "parentDirectory":<string>, //Absolute path of the folder where the file is located
  *      "path":<string>, //Absolute path of the file
  *      "isLatest":<boolean>, //Is this the latest version of the file or not
+ *      "sha256":<string>, //Hex encoded SHA-256 hash of the data of the file
+ *      "contentId":<ObjectId>, //With deduplicated storage, id of the file whose chunks store the data of this file, if it is not this file
+ *      "acl":<Array>, //Access control list of the file, if one was set with the `setFileAccessControl` method
+ *      "contentType":<string>, //Media type of the file, detected when it is uploaded unless the `contentType` option is provided
  *      ...
  *  },
  * }
@@ -53,7 +804,9 @@ type MetadataOptions = Omit<object, "path" | "parentDirectory"| "isLatest">
  * "name": <string>,
  * "path": <string>, //Absolute path of the folder
  * "parentDirectory":<string>, //Absolute path of the folder's parent folder.
- * "customMetadata": <object> //customMetadata can have any property specified by the user besides "isLatest", "path", or "parentDirectory"
+ * "customMetadata": <object>, //customMetadata can have any property specified by the user besides "isLatest", "path", or "parentDirectory"
+ * "quota": <number>, //Storage quota of the folder in bytes, if one was set with the `setFolderQuota` method
+ * "acl": <Array> //Access control list of the folder, if one was set with the `setFolderAccessControl` method
  * }
  *
  * ```
@@ -62,46 +815,153 @@ type MetadataOptions = Omit<object, "path" | "parentDirectory"| "isLatest">
  * `FileTree` object will also have a "current working directory",
  * with the absolute path to it being stored in the `currentWorkingDirectory` property.
  * The `currentWorkingDirectory` property will be the root directory when initialized.
- * The methods on this class to upload files and create folders automatically puts them under the
- * current working directory.
- * Note: this class automatically connects to MongoDB for all methods.
+ * The methods on this class to upload files and create folders put them under the
+ * current working directory, unless they are given the path of another folder.
+ *
+ * Every method that takes the path of a folder or file also accepts a path relative to the current working directory.
+ * A path is treated as absolute if it starts with the name of the root directory, and as relative otherwise.
+ * Paths can contain `.` (the current folder) and `..` (the parent folder), like `changeDirectory("../sample-folder-2", true)`.
+ *
+ * As changing the current working directory of a file tree affects every caller sharing it, the `at` method returns a handle confined to a folder,
+ * with its own current working directory, which shares the connection, hooks, and event listeners of the file tree. A handle cannot reach anything
+ * outside of its folder: `..` never goes above it, and its methods raise an error for absolute paths outside of it.
+ *
+ * Operations that write several documents (uploading a new version of a file, renaming, moving, and deleting folders)
+ * run inside a transaction when the MongoDB deployment supports transactions (replica sets and sharded clusters).
+ * On a standalone server, they fall back to ordering their writes so that an error part way through never leaves
+ * a file without a latest version: a new version is only flagged as latest after its data is stored, renames and moves
+ * are undone if one of their writes fails, and folders are only deleted after the files in them.
+ *
+ * If the `useTrash` option is provided to the constructor, deleted folders and files are moved to a trash instead of being deleted permanently,
+ * with all the versions of their files. Items in the trash are listed in a separate collection named `<folderCollectionName>.trash`,
+ * and their folders and files are kept under the path `<folderCollectionName>.trash/<id of the item>`, outside of the file tree.
+ * Items that have been in the trash for longer than the `trashRetention` option are not deleted in the background: they are deleted permanently
+ * the next time `deleteFile`, `deleteFolder`, `listTrash`, or `restoreFromTrash` is called, or when the `ensureIndexes`, `migrate`, or `purgeExpiredTrash` method is called.
+ * Call `purgeExpiredTrash` on a schedule to free their storage even when the trash is not used.
+ *
+ * Files can be locked by an owner for a limited time with the `lockFile` method. Until the lock expires or is released, uploading, renaming, moving,
+ * and deleting the file, or renaming, moving, and deleting a folder containing it, raise an error unless the owner of the lock is provided.
+ * Locks are stored in a separate collection named `<folderCollectionName>.locks`, and follow the file when it or a folder containing it is renamed or moved.
+ *
+ * The `migrate` method creates the indexes of a new file tree and upgrades the collections of an existing one to the schema of this version of the library.
+ * It should be called once after installing or upgrading the library. The migrations applied to a file tree are recorded in a separate collection
+ * named `<folderCollectionName>.schema`.
+ *
+ * With the 'parentId' storage mode (see `FileTreeOptions`), folders and files do not store their path: instead of the `path` and `parentDirectory` properties,
+ * folders have a `parentId` property and files a `metadata.parentId` property, which is the id of the folder containing them, null in the root directory,
+ * or the name of the trash collection for items in the trash. Paths are resolved by reading the folders containing them, which are cached, so renaming
+ * or moving a folder only changes the document of the folder. The `migrateStorageMode` method converts the documents of an existing file tree to the storage mode it is used with.
+ *
+ * The class is an EventEmitter that emits an event after each change to the file tree, like `fileUploaded` or `folderRenamed` (see `FileTreeEvents`),
+ * and runs the `before*` hooks registered with the `addHook` method before each change. The `watch` method also reports the changes made by other processes.
+ *
+ * The folders and files of the file tree can have access control lists, which grant or deny permissions to users and groups (see `AccessControlEntry`).
+ * The file tree itself does not check them: the `withPrincipal` method returns a view of the file tree for a user, whose methods raise an error when the user
+ * lacks the permission they need, and leave out the folders and files the user cannot read from listings, searches, and downloads.
+ * Reading needs the 'read' permission; uploading, creating, renaming, changing metadata, locking, and restoring need the 'write' permission on the folder or file
+ * written to; deleting and pruning need the 'delete' permission, and moving needs it on the moved folder or file as well as 'write' on the destination.
+ * Quotas and access control lists can only be changed with the 'admin' permission. The root directory cannot have an access control list, so a user can
+ * list it, but cannot create folders and files directly in it. Hooks, watchers, and emptying the trash are only available on the file tree itself.
+ *
+ * The `createRequestHandler` function serves a file tree over HTTP as a REST API, for the `http` module, Express, or Koa,
+ * and the `createWebDavHandler` function serves it over WebDAV, so it can be mounted as a network drive.
+ * The file tree connects to MongoDB with its own client when it is created from a connection URL, or uses an existing `MongoClient` or `Db`.
+ * Its methods do not connect: the `connect` method connects the client, and the `close` method closes it once the file tree is not needed anymore,
+ * unless the client was provided, in which case closing it is left to its owner. `await using` declarations close the file tree automatically.
+ *
+ * The errors raised by the methods are instances of `FileTreeError`, like `NotFoundError` or `LockedError`, whose `code` property tells what went wrong.
+ * Errors raised by MongoDB and by hooks are raised as they are.
  */
-class MongoFileTree{
+class MongoFileTree extends typedEventEmitter<FileTreeEvents>(){
 
     private _currentWorkingDirectory: string
     private _bucket: GridFSBucket
     private _db:Db
     private _folderCollectionName: string
-    private _client:MongoClient
+    private _client?: MongoClient
+    private _ownsClient: boolean
     private _bucketName: string
+    private _supportsTransactions?: boolean
+    private _trashCollectionName: string
+    private _lockCollectionName: string
+    private _schemaCollectionName: string
+    private _useTrash: boolean
+    private _trashRetention: number
+    private _deduplicate: boolean
+    private _hooks: {[H in keyof FileTreeHooks]?: FileTreeHook<H>[]}
+    private _principal?: Principal
+    private _basePath: string
+    private _storageMode: StorageMode
+    private _resolver: FolderResolver
 
     /**
      * @constructor
-     * Connect to a MongoDB database that has a file tree. If any part of the file tree (database, folder storage collection, GridFS Bucket)
-     * does not already exist, it is created
-     * @param {string} mongoConnectionUrl - Connection URL to a MongoDB server
+     * Use a MongoDB database that has a file tree. If any part of the file tree (database, folder storage collection, GridFS Bucket)
+     * does not already exist, it is created. A file tree created from a `Db` has no client to start sessions with, so it changes folders and files
+     * without transactions.
+     * @param {string | MongoClient} mongoConnectionUrl - Connection URL to a MongoDB server, or an existing MongoDB client
      * @param {string} dbName - Name of a MongoDB database
      * @param {string} bucketName - Name of the GridFS bucket that will store the files of the file tree
      * @param {string} folderCollectionName - Name of the collection in the Mongo database specified by dbName
      * that will be used for folder storage, store documents representing folders in the file tree
+     * @param {FileTreeOptions} options - Options for the trash, for deduplicated storage, and for the storage mode. Is optional.
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //With the client of the application
+     * const sharedTree = new MongoFileTree(client, "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //With a database of the client of the application
+     * const dbTree = new MongoFileTree(client.db("GridFS-file-tree-management-sample"), "sample-bucket", "sample-folder")
      */
-    constructor(mongoConnectionUrl: string, dbName: string, bucketName: string, folderCollectionName: string){
-        this._client = new MongoClient(mongoConnectionUrl)
+    constructor(mongoConnectionUrl: string | MongoClient, dbName: string, bucketName: string, folderCollectionName: string, options?: FileTreeOptions)
+    constructor(db: Db, bucketName: string, folderCollectionName: string, options?: FileTreeOptions)
+    constructor(connection: string | MongoClient | Db, ...names: [string, string, string, FileTreeOptions?] | [string, string, FileTreeOptions?]){
+        super()
+
+        // A Db has no dbName argument
+        const [dbName, bucketName, folderCollectionName, options = {}] = connection instanceof Db
+            ? [connection.databaseName, ...names as [string, string, FileTreeOptions?]]
+            : names as [string, string, string, FileTreeOptions?]
+
+        this._ownsClient = typeof connection === "string"
+
+        // A Db is used as given, without the client it was created from
+        this._client = typeof connection === "string" ? new MongoClient(connection) : connection instanceof Db ? undefined : connection
 
         this._currentWorkingDirectory = folderCollectionName
 
-        this._bucket  = new GridFSBucket(this._client.db(dbName), {bucketName})
+        this._basePath = folderCollectionName
 
-        this._db= this._client.db(dbName)
+        this._db = connection instanceof Db ? connection : (this._client as MongoClient).db(dbName)
+
+        this._bucket  = new GridFSBucket(this._db, {bucketName})
 
         this._folderCollectionName = folderCollectionName
 
         this._bucketName = bucketName
-    }
-    /**
-     * Mongo database storing the file tree.
-     */
-    public get db(){
+
+        this._trashCollectionName = folderCollectionName+".trash"
+
+        this._lockCollectionName = folderCollectionName+".locks"
+
+        this._schemaCollectionName = folderCollectionName+".schema"
+
+        this._useTrash = options.useTrash ?? false
+
+        this._trashRetention = options.trashRetention ?? 30*24*60*60*1000
+
+        this._deduplicate = options.deduplicate ?? false
+
+        this._storageMode = options.storageMode ?? "path"
+
+        this._resolver = new FolderResolver(this._db.collection(folderCollectionName), folderCollectionName, this._trashCollectionName, options.folderCacheTtl ?? 1000)
+
+        this._hooks = {}
+    }
+    /**
+     * Mongo database storing the file tree.
+     */
+    public get db(){
         return this._db
     }
     /**
@@ -123,6 +983,24 @@ class MongoFileTree{
     public get folderCollectionName(){
         return this._folderCollectionName
     }
+    /**
+     * Name of the collection in the Mongo database specified by dbName that lists the folders and files in the trash.
+     */
+    public get trashCollectionName(){
+        return this._trashCollectionName
+    }
+    /**
+     * Name of the collection in the Mongo database specified by dbName that stores the locks on files.
+     */
+    public get lockCollectionName(){
+        return this._lockCollectionName
+    }
+    /**
+     * Name of the collection in the Mongo database specified by dbName that records the schema migrations applied to the file tree.
+     */
+    public get schemaCollectionName(){
+        return this._schemaCollectionName
+    }
     /**
      * Absolute path of the current working directory of the file tree.
      * This directory is where the files uploaded by the uploadFile method
@@ -132,532 +1010,3733 @@ class MongoFileTree{
         return this._currentWorkingDirectory
     }
     /**
-     * MongoDB client being used for the file tree.
+     * Absolute path of the folder this file tree is confined to, if it was returned by the `at` method, or the root directory otherwise.
+     */
+    public get basePath(){
+        return this._basePath
+    }
+    /**
+     * MongoDB client being used for the file tree, or undefined if the file tree was created from a `Db`.
      */
     public get client(){
         return this._client
     }
+    /**
+     * User on whose behalf the methods of this file tree are called, if it was returned by the `withPrincipal` method.
+     */
+    public get principal(){
+        return this._principal
+    }
+    /**
+     * How the folders and files of the file tree refer to the folder containing them.
+     */
+    public get storageMode(){
+        return this._storageMode
+    }
+
+    /**
+     * @description Connects the MongoDB client of the file tree. Does nothing if it is already connected, or if the file tree was created from a `Db`,
+     * whose client is connected by its owner. The methods of the file tree do not connect, so this method must be called before them if the client is not connected yet.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.connect()
+     */
+    async connect(): Promise<void>{
+        await this._client?.connect()
+    }
+    /**
+     * @description Closes the MongoDB client of the file tree if the file tree created it from a connection URL.
+     * A client provided to the constructor, directly or through a `Db`, is left open for its owner to close.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.connect()
+     * await fileTree.close()
+     */
+    async close(): Promise<void>{
+        if(this._ownsClient){
+            await this._client?.close()
+        }
+    }
+    /**
+     * @description Closes the file tree like the `close` method at the end of the block of an `await using` declaration.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * await using fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     */
+    async [asyncDispose](): Promise<void>{
+        await this.close()
+    }
+
+    /**
+     * @description Returns a view of the file tree for a user, which checks the access control lists of the folders and files before every operation.
+     * The view shares the connection, hooks, and event listeners of the file tree. It starts in the current working directory of the file tree,
+     * but changing the directory of one does not change the directory of the other.
+     * @param {Principal} principal User on whose behalf the methods of the view are called
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * const userTree = fileTree.withPrincipal({user:"sample-user", groups:["editors"]})
+     * //Only the entries sample-user can read
+     * let {entries} = await userTree.listDirectory("sample-folder/team-a")
+     */
+    withPrincipal(principal: Principal): MongoFileTree{
+        this._checkTrusted("withPrincipal")
+
+        if(typeof principal?.user !== "string" || principal.user === ""){
+            throw new InvalidArgumentError("Argument for parameter principal must have a non-empty 'user' property")
+        }
+
+        const view: MongoFileTree = Object.create(this)
+        view._principal = {user:principal.user, groups:[...(principal.groups ?? [])]}
+        return view
+    }
+    /**
+     * @description Returns a handle on the file tree confined to the folder at `folderPath`, whose current working directory starts at that folder.
+     * The handle shares the connection, hooks, and event listeners of the file tree, but has its own current working directory, so it can be used
+     * by one caller while others use the file tree. Paths given to the methods of the handle cannot reach anything outside of the folder:
+     * `..` never goes above it, and absolute paths outside of it raise an error. The folder is not checked, so the methods of a handle on a folder
+     * that does not exist raise an error. Raises an error if the folder is outside of the folder this file tree is confined to.
+     * @param {string} folderPath Absolute path of the folder, or path relative to the current working directory
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * const projects = fileTree.at("sample-folder/projects")
+     * //Creates new folder with path sample-folder/projects/report
+     * await projects.createFolder("report")
+     * //Still "sample-folder/projects"
+     * let path = (await projects.cd("../..")).currentWorkingDirectory
+     */
+    at(folderPath: string): MongoFileTree{
+        const absolutePath = this._resolvePath(folderPath)
+        this._checkConfinement(absolutePath)
+
+        const handle: MongoFileTree = Object.create(this)
+        handle._basePath = absolutePath
+        handle._currentWorkingDirectory = absolutePath
+        return handle
+    }
+    /**
+     * @description Resolves to a new handle on the file tree confined to the same folder as this one, whose current working directory is the folder
+     * at `path`. Unlike the `changeDirectory` method, the current working directory of this file tree does not change.
+     * Raises an error if the folder does not exist, or if it is outside of the folder this file tree is confined to.
+     * @param {string} path Absolute path of the folder, or path relative to the current working directory. Can contain `.` and `..`.
+     * @param {boolean} isRelative If true, parameter `path` is always relative to the current working directory, even if it starts with
+     * the name of the root directory. Defaults to false.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * const projects = fileTree.at("sample-folder/projects")
+     * const report = await projects.cd("report")
+     * let id = await report.uploadFile(fs.createReadStream("sample.txt"), {name:"sample.txt", chunkSize:1048576})
+     */
+    async cd(path: string, isRelative: boolean = false): Promise<MongoFileTree>{
+        const handle: MongoFileTree = Object.create(this)
+        await handle.changeDirectory(path, isRelative)
+        return handle
+    }
+    /**
+     * @description Sets the access control list of a folder, which applies to the folder and to everything in it. Raises an error if the folder
+     * does not exist or is the root directory, or if the access control list is invalid.
+     * @param {string} folderPath Path of the folder
+     * @param {AccessControlEntry[] | null} acl Access control list, or null to remove the access control list of the folder
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.setFolderAccessControl("sample-folder/team-a", [
+     *     {type:"group", name:"team-a", permissions:["read", "write", "delete"]},
+     *     {type:"user", name:"intern", permissions:["delete"], deny:true}
+     * ])
+     */
+    setFolderAccessControl(folderPath: string, acl: AccessControlEntry[] | null): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                if(absolutePath === this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot set the access control list of the root directory of the file tree`))
+                }
+
+                const invalidAclError = acl === null ? undefined : validateAccessControlList(acl)
+                if(invalidAclError){
+                    return reject(new InvalidArgumentError(invalidAclError))
+                }
+
+                const folder = await this._findFolder(absolutePath)
+
+                if(!folder){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "folder", "admin")
+
+                await this._db.collection(this._folderCollectionName).updateOne(await this._folderFilter(absolutePath), acl === null ? {$unset:{"acl":""}} : {$set:{"acl":acl}})
+
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Sets the access control list of all the versions of a file. New versions of the file keep the access control list.
+     * Raises an error if the file does not exist, or if the access control list is invalid.
+     * @param {string} filePath Path of the file
+     * @param {AccessControlEntry[] | null} acl Access control list, or null to remove the access control list of the file
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.setFileAccessControl("sample-folder/team-a/salaries.xlsx", [{type:"group", name:"team-a", permissions:["read"], deny:true}])
+     */
+    setFileAccessControl(filePath: string, acl: AccessControlEntry[] | null): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(filePath)
+
+                const invalidAclError = acl === null ? undefined : validateAccessControlList(acl)
+                if(invalidAclError){
+                    return reject(new InvalidArgumentError(invalidAclError))
+                }
+
+                if(!(await this._bucket.find(await this._fileFilter(absolutePath)).hasNext())){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "file", "admin")
+
+                await this._db.collection(this._bucketName+".files").updateMany(await this._fileFilter(absolutePath), acl === null ? {$unset:{"metadata.acl":""}} : {$set:{"metadata.acl":acl}})
+
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Registers a hook that runs before every operation of the kind specified by `name`. Hooks with the same name run one after
+     * the other in the order they were registered, and each one receives the same context object, so changes made by a hook are seen by the next ones.
+     * A hook vetoes the operation by throwing an error, in which case the method that started the operation raises that error.
+     * @param {string} name Name of the hook, like `beforeUpload` or `beforeDelete`
+     * @param {Function} hook Function called with the context of the operation. Can be async.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * fileTree.addHook("beforeUpload", async (context)=>{
+     *     if(context.name.endsWith(".exe")){
+     *         throw new InvalidArgumentError("Executable files cannot be uploaded")
+     *     }
+     *     context.customMetadata.uploadedBy = "sample-user"
+     * })
+     */
+    addHook<H extends keyof FileTreeHooks>(name: H, hook: FileTreeHook<H>): void{
+        this._checkTrusted("addHook")
+        this._checkUnconfined("addHook")
+        const hooks: FileTreeHook<H>[] = this._hooks[name] ?? []
+        hooks.push(hook)
+        this._hooks[name] = hooks as any
+    }
+    /**
+     * @description Unregisters a hook registered with the `addHook` method. Does nothing if the hook is not registered.
+     * @param {string} name Name the hook was registered with
+     * @param {Function} hook Function that was registered
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * const hook = (context)=>console.log(`Deleting ${context.path}`)
+     * fileTree.addHook("beforeDelete", hook)
+     * fileTree.removeHook("beforeDelete", hook)
+     */
+    removeHook<H extends keyof FileTreeHooks>(name: H, hook: FileTreeHook<H>): void{
+        this._checkTrusted("removeHook")
+        this._checkUnconfined("removeHook")
+        const hooks: FileTreeHook<H>[] = this._hooks[name] ?? []
+        this._hooks[name] = hooks.filter((registeredHook)=>registeredHook !== hook) as any
+    }
+    /**
+     * @description Starts watching the file tree for changes made by any process, including other instances of this class.
+     * Resolves to a watcher that emits the same events as this class, until its `close` method is called.
+     * Requires a replica set or a sharded cluster running MongoDB 6.0 or later, as it enables the pre- and post-images of the change streams
+     * of the folder storage collection and of the files collection of the GridFS bucket. Errors while watching are emitted as `error` events of the watcher.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * const watcher = await fileTree.watch()
+     * watcher.on("fileDeleted", ({path})=>console.log(`${path} was deleted`))
+     * await watcher.close()
+     */
+    watch(): Promise<FileTreeWatcher>{
+        return new Promise<FileTreeWatcher>(async (resolve, reject)=>{
+            try{
+                this._checkTrusted("watch")
+                this._checkUnconfined("watch")
+
+                const watcher = new FileTreeWatcher(this._db, this._bucketName, this._folderCollectionName, this._storageMode === "parentId" ? this._resolver : undefined)
+
+                try{
+                    await watcher.start()
+                }
+                catch(e){
+                    await watcher.close()
+                    return reject(e)
+                }
+
+                resolve(watcher)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Creates the indexes used by the methods of the file tree in its storage mode, if they do not exist yet. Among them, a unique index
+     * prevents two folders from having the same path, and a partial unique index prevents a file from having more than one latest version.
+     * Raises an error if the file tree already breaks one of these rules, in which case the other indexes can still be created.
+     * Once the indexes are created, the items that have been in the trash for longer than the `trashRetention` option are deleted permanently.
+     * The `migrate` method calls this method, so it only needs to be called directly for file trees that are not migrated.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.ensureIndexes()
+     */
+    ensureIndexes(): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                this._checkTrusted("ensureIndexes")
+                this._checkUnconfined("ensureIndexes")
+
+                await this._db.collection(this._folderCollectionName).createIndexes(storageIndexes[this._storageMode].folders)
+                await this._db.collection(this._bucketName+".files").createIndexes([
+                    {key:{"filename":1, "uploadDate":1}},
+                    ...storageIndexes[this._storageMode].files,
+                    {key:{"metadata.sha256":1}, name:"metadata.sha256", sparse:true},
+                    {key:{"metadata.contentId":1}, name:"metadata.contentId", sparse:true}
+                ])
+                // The index GridFS creates before the first upload, which is missing if the files were written without the GridFS API
+                await this._db.collection(this._bucketName+".chunks").createIndexes([{key:{"files_id":1, "n":1}, unique:true}])
+                await this._db.collection(this._trashCollectionName).createIndexes([{key:{"deletedAt":1}, name:"deletedAt"}])
+                // MongoDB removes locks once they expire
+                await this._db.collection(this._lockCollectionName).createIndexes([{key:{"expiresAt":1}, name:"expiresAt", expireAfterSeconds:0}])
+                await this._purgeExpiredTrash()
+            }
+            catch(e){
+                return reject(e)
+            }
+            resolve()
+        })
+    }
+    /**
+     * @description Resolves to the schema version of the file tree, which is the version of the last migration applied to it by the `migrate` method,
+     * or 0 if it was never migrated.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let version = await fileTree.getSchemaVersion() //0 before the first migration
+     */
+    getSchemaVersion(): Promise<number>{
+        return new Promise<number>(async (resolve, reject)=>{
+            try{
+                const lastMigration = await this._db.collection<MigrationDocument>(this._schemaCollectionName).find({}).sort({_id:-1}).limit(1).next()
+                resolve(lastMigration?._id ?? 0)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Applies the schema migrations that were not applied to the file tree yet, in order, so that its collections match the schema
+     * of this version of the library. Resolves to the versions of the applied migrations. Each migration is recorded once it is applied, so if one
+     * fails, the method raises its error and the next call starts again from it. Migrations give the same result when they run twice, so two
+     * processes can migrate the same file tree at the same time.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let versions = await fileTree.migrate() //[1] the first time, [] afterwards
+     */
+    migrate(): Promise<number[]>{
+        return new Promise<number[]>(async (resolve, reject)=>{
+            const schemaCollection = this._db.collection<MigrationDocument>(this._schemaCollectionName)
+            const appliedVersions: number[] = []
+
+            try{
+                this._checkTrusted("migrate")
+                this._checkUnconfined("migrate")
+
+                const recordedVersions = new Set((await schemaCollection.find({}).toArray()).map((migration)=>migration._id))
+                const pendingMigrations: Migration[] = migrations.filter((migration)=>!recordedVersions.has(migration.version))
+
+                for(const migration of pendingMigrations){
+                    await migration.up(this)
+                    await schemaCollection.insertOne({_id:migration.version, description:migration.description, appliedAt:new Date()}).catch((e)=>{
+                        // Another process applied the same migration at the same time
+                        if(e?.code !== 11000){
+                            throw e
+                        }
+                    })
+                    appliedVersions.push(migration.version)
+                }
+            }
+            catch(e){
+                return reject(e)
+            }
+
+            resolve(appliedVersions)
+        })
+    }
+    /**
+     * @description Converts the folders and files of the file tree that are stored in the other storage mode to the storage mode of this file tree,
+     * and replaces the indexes of the other storage mode with the ones of this storage mode. Needs to be called once after changing the `storageMode`
+     * option of an existing file tree, while no other process uses the file tree. Folders and files whose parent folder does not exist are left as they are.
+     * Resolves to the number of converted folders and file versions. If the conversion fails part way through, calling the method again converts the rest.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {storageMode:"parentId"})
+     * let count = await fileTree.migrateStorageMode() //0 once the file tree is converted
+     */
+    migrateStorageMode(): Promise<number>{
+        return new Promise<number>(async (resolve, reject)=>{
+            let count: number
+
+            try{
+                this._checkTrusted("migrateStorageMode")
+                this._checkUnconfined("migrateStorageMode")
+
+                const otherIndexes = storageIndexes[this._storageMode === "path" ? "parentId" : "path"]
+                const otherCollectionIndexes: [string, IndexDescription[]][] = [[this._folderCollectionName, otherIndexes.folders], [this._bucketName+".files", otherIndexes.files]]
+                for(const [collectionName, indexes] of otherCollectionIndexes){
+                    for(const index of indexes){
+                        // A unique index of the other storage mode sees the converted documents as duplicates
+                        await this._db.collection(collectionName).dropIndex(index.name as string).catch((e)=>{
+                            // The index (code 27) or the collection (code 26) does not exist
+                            if(e?.code !== 27 && e?.code !== 26){
+                                throw e
+                            }
+                        })
+                    }
+                }
+
+                count = await convertStorageMode(this)
+                this._resolver.clear()
+                await this.ensureIndexes()
+            }
+            catch(e){
+                return reject(e)
+            }
+
+            resolve(count)
+        })
+    }
+    /**
+     * @description Looks for inconsistencies in the collections of the file tree, which failed or concurrent writes can leave behind, and resolves to them:
+     * folders and files whose path does not match their name and the path of their parent folder, files with no latest version or with several,
+     * folders that do not exist but still contain folders or files, and chunks of the GridFS bucket that belong to no file. Nothing is changed.
+     * Some inconsistencies can only be found once others are repaired, so checking again after the `repairTree` method can find more.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //[{kind:"latestVersion", path:"sample-folder/sample.txt", ids:[...], message:"File with path sample-folder/sample.txt has 2 latest versions"}]
+     * let issues = await fileTree.checkTree()
+     */
+    checkTree(): Promise<TreeIssue[]>{
+        return new Promise<TreeIssue[]>(async (resolve, reject)=>{
+            let issues: TreeIssue[]
+
+            try{
+                this._checkTrusted("checkTree")
+                this._checkUnconfined("checkTree")
+                issues = await this._findTreeIssues()
+            }
+            catch(e){
+                return reject(e)
+            }
+
+            resolve(issues)
+        })
+    }
+    /**
+     * @description Repairs the inconsistencies found by the `checkTree` method, and resolves to them. Paths of folders and files are kept, and their name
+     * and parent folder are changed to match them. The most recently uploaded version of a file with no latest version or with several becomes its only
+     * latest version. Missing folders are created, at their path or inside the `lost+found` folder of the root directory depending on the `orphans` option.
+     * Chunks that belong to no file are deleted. Needs to be called while no other process uses the file tree, as the chunks of a file being uploaded
+     * belong to no file until the upload ends.
+     * @param {RepairOptions} options Options for the repair. Is optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let issues = await fileTree.repairTree({dryRun:true}) //Same as checkTree
+     * await fileTree.repairTree({orphans:"lostAndFound"})
+     */
+    repairTree(options: RepairOptions = {}): Promise<TreeIssue[]>{
+        return new Promise<TreeIssue[]>(async (resolve, reject)=>{
+            const {dryRun = false, orphans = "recreate"} = options
+            let issues: TreeIssue[]
+
+            if(!["recreate", "lostAndFound"].includes(orphans)){
+                return reject(new InvalidArgumentError(`Invalid argument for option orphans. Argument must either be 'recreate' or 'lostAndFound'.`))
+            }
+
+            try{
+                this._checkTrusted("repairTree")
+                this._checkUnconfined("repairTree")
+                issues = await this._findTreeIssues()
+
+                if(!dryRun){
+                    for(const issue of issues){
+                        await this._repairTreeIssue(issue, orphans)
+                    }
+                    this._resolver.clear()
+                }
+            }
+            catch(e){
+                return reject(e)
+            }
+
+            resolve(issues)
+        })
+    }
 
     /**
      * @description Creates a document representing a folder in the collection specified by `folderCollectionName`.
-     * Its parent directory will be the current value of the `currentWorkingDirectory` property.
-     * Will return an error if a folder with the name provided to the method already
-     * exists in the current working directory of the file tree.
+     * Its parent directory will be the folder specified by the `targetPath` parameter, or the current value of the `currentWorkingDirectory` property.
+     * Will return an error if the parent directory does not exist, if a folder with the name provided to the method already
+     * exists in it, or if a `beforeFolderCreate` hook vetoes the creation.
      * @param {string} folderName Name of the folder
      * @param {object} customMetadata Custom metadata properties to add to the folder.
      * Any property can be added except `path`, `isLatest`, or `parentDirectory`.
+     * @param {string} targetPath Path of the folder to create the folder in. Defaults to the current working directory. Is optional.
+     * @since 1.0.0
+     * @version 0.6.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Creates new folder with path sample-folder/subfolder-sample
+     * let result = await fileTree.createFolder("subfolder-sample") //MongoDB InsertOneResult with the id of the document representing the folder
+     * //Creates new folder with path sample-folder/subfolder-sample/subfolder-sample-2, whatever the current working directory is
+     * await fileTree.createFolder("subfolder-sample-2", {}, "sample-folder/subfolder-sample")
+     */
+
+    createFolder(folderName: string, customMetadata?: MetadataOptions, targetPath?: string): Promise<InsertOneResult>{
+        return new Promise<InsertOneResult>(async (resolve, reject)=>{
+            try{
+                const parentDirectory = targetPath === undefined ? this._currentWorkingDirectory : this._resolvePath(targetPath)
+                const path = parentDirectory+`/${folderName}`
+
+                if(parentDirectory !== this._folderCollectionName && !(await this._findFolder(parentDirectory))){
+                    return reject(new NotFoundError(`Folder with path ${targetPath ?? parentDirectory} does not exist`))
+                }
+
+                const doesFolderExist = Boolean(await this._findFolder(path))
+                if(doesFolderExist){
+                    return reject(new ConflictError(`Folder with name ${folderName} already exists in ${targetPath === undefined ? "the current directory" : `folder with path ${targetPath}`}`))
+                }
+                const invalidNameError = validateName(folderName, "folder")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                resolve(await this._insertFolder(folderName, parentDirectory, {...customMetadata}))
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Returns a promise which resolves to a `GridFSBucketReadStream` of a file stored in the
+     * GridFS Bucket specified by the `bucketName` property. By default the latest version of the file is read from start to end.
+     * Raises an error if the byte range is not a non-empty range of bytes within the file.
+     * @param {string} filePath Absolute path of the file to get a readable stream of
+     * @param {ReadStreamOptions} options Selects an older version of the file by its version number, its id,
+     * or the date at which it was the latest version, and the range of bytes to read. Is optional.
+     * @since 1.0.0
+     * @version 0.5.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let stream = await fileTree.getFileReadStream("sample-folder/sample.txt")
+     * //Version of the file that was the latest on January 1st 2022
+     * let oldStream = await fileTree.getFileReadStream("sample-folder/sample.txt", {asOf:new Date("2022-01-01")})
+     * //First kilobyte of the file
+     * let partialStream = await fileTree.getFileReadStream("sample-folder/sample.txt", {start:0, end:1024})
+     */
+
+    getFileReadStream(filePath: string, options: ReadStreamOptions = {}): Promise<GridFSBucketReadStream>{
+        return new Promise<GridFSBucketReadStream>(async (resolve, reject)=>{
+            let file: GridFSFile
+
+            try{
+                file = await this._findFileVersion(filePath, options)
+                await this._checkPermission(file.metadata?.path, "file", "read")
+            }
+            catch(e){
+                return reject(e)
+            }
+
+            if(options.start === undefined && options.end === undefined){
+                return resolve(this._bucket.openDownloadStream(contentIdOf(file)))
+            }
+
+            // GridFS reads the whole file instead of nothing when the range is empty, so empty ranges are rejected
+            const {start = 0, end = file.length} = options
+            if(!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start >= end || end > file.length){
+                return reject(new InvalidArgumentError(`Byte range from ${start} to ${end} is invalid for file with path ${filePath} of ${file.length} bytes`))
+            }
+
+            resolve(this._bucket.openDownloadStream(contentIdOf(file), {start, end}))
+        })
+
+    }
+    /**
+     * @description Returns the size, hash, entity tag, and other details of a version of a file without reading its data.
+     * By default the latest version of the file is described. Raises an error if the file or the selected version does not exist.
+     * @param {string} filePath Absolute path of the file
+     * @param {FileVersionOptions} options Selects an older version of the file by its version number, its id,
+     * or the date at which it was the latest version. Is optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let {length, etag} = await fileTree.statFile("sample-folder/sample.txt")
+     */
+    statFile(filePath: string, options: FileVersionOptions = {}): Promise<FileStat>{
+        return new Promise<FileStat>(async (resolve, reject)=>{
+            try{
+                let file: GridFSFile
+
+                file = await this._findFileVersion(filePath, options)
+                await this._checkPermission(file.metadata?.path, "file", "read")
+
+                const versionIds = await this._bucket.find(await this._fileFilter(file.metadata?.path), {projection:{_id:1}}).sort({uploadDate:1, _id:1}).toArray()
+                const sha256: string | null = file.metadata?.sha256 ?? null
+
+                resolve({
+                    id:file._id,
+                    path:file.metadata?.path,
+                    version:versionIds.findIndex((version)=>version._id.equals(file._id))+1,
+                    versionCount:versionIds.length,
+                    length:file.length,
+                    chunkSize:file.chunkSize,
+                    uploadDate:file.uploadDate,
+                    sha256,
+                    etag:`"${sha256 ?? file._id.toHexString()}"`,
+                    contentType:contentTypeOf(file)
+                })
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Tells whether there is a folder or a file at a path of the file tree, without reading it. Resolves to 'folder' for the root directory.
+     * Access control lists are not checked, but raises an error if the path is outside of the folder the file tree is confined to.
+     * @param {string} path Absolute path of the folder or file
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let kind = await fileTree.getEntryKind("sample-folder/sample.txt") //"file", "folder", or null if there is nothing at that path
+     */
+    getEntryKind(path: string): Promise<"folder" | "file" | null>{
+        return new Promise<"folder" | "file" | null>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(path)
+
+                this._checkConfinement(absolutePath)
+
+                if(absolutePath === this._folderCollectionName || await this._findFolder(absolutePath)){
+                    return resolve("folder")
+                }
+                resolve(await this._bucket.find(await this._fileFilter(absolutePath)).hasNext() ? "file" : null)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Lists the direct subfolders and the files of a folder in the file tree. By default only the latest version of each file
+     * is listed. Entries are returned in pages if the `limit` option is provided; the `nextCursor` property of the result can then be provided
+     * as the `cursor` option to get the next page. Raises an error if the folder does not exist.
+     * @param {string} folderPath Absolute path of the folder to list, or the name of the folder storage collection (`folderCollectionName`)
+     * to list the root directory. If the `isRelative` option is true, the path is relative to the current working directory.
+     * @param {ListDirectoryOptions} options Options for sorting, pagination and versions. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //First 10 entries of the root directory, newest files first
+     * let {entries, nextCursor} = await fileTree.listDirectory("sample-folder", {sortBy:"uploadDate", sortOrder:"descending", limit:10})
+     * //Next 10 entries
+     * let nextPage = await fileTree.listDirectory("sample-folder", {sortBy:"uploadDate", sortOrder:"descending", limit:10, cursor:nextCursor})
+     */
+    listDirectory(folderPath: string, options: ListDirectoryOptions = {}): Promise<DirectoryListing>{
+        return new Promise<DirectoryListing>(async (resolve, reject)=>{
+            try{
+                const {isRelative = false, includeAllVersions = false} = options
+
+                const absolutePath = this._resolvePath(folderPath, isRelative)
+
+                const folder = await this._findFolder(absolutePath)
+
+                if(!folder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                let canRead: ReadFilter
+                await this._checkPermission(absolutePath, "folder", "read")
+                canRead = await this._getReadFilter(absolutePath)
+
+                const subfolders = await this._findSubfolders(absolutePath, false)
+                const entries: DirectoryEntry[] = subfolders.filter((subfolder)=>canRead(subfolder.path)).map(toFolderEntry)
+
+                const fileQuery: any = await this._folderFilesFilter(absolutePath, false)
+                if(!includeAllVersions){
+                    fileQuery["metadata.isLatest"] = true
+                }
+                const files: GridFSFile[] = await this._withPaths(await this._bucket.find(fileQuery).toArray())
+                entries.push(...files.filter((file)=>canRead(file.metadata?.path, file.metadata?.acl)).map(toFileEntry))
+
+                resolve(paginateEntries(entries, options))
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Searches a folder and all of its subfolders for folders and files matching a query. The folder itself is not part of the results.
+     * By default only the latest version of each file is searched. Entries are returned in pages if the `limit` option is provided, like with the
+     * `listDirectory` method. Raises an error if the folder does not exist.
+     * @param {string} rootPath Path of the folder to search in
+     * @param {SearchQuery} query Filters on names, custom metadata, sizes and upload dates, as well as options for sorting and pagination.
+     * All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Starred PDF files in sample-folder/projects and its subfolders uploaded since the start of the month, newest first
+     * let {entries} = await fileTree.search("sample-folder/projects", {name:"*.pdf", metadata:{starred:true}, uploadedAfter:new Date("2022-01-01"), sortBy:"uploadDate", sortOrder:"descending"})
+     */
+    search(rootPath: string, query: SearchQuery = {}): Promise<DirectoryListing>{
+        return new Promise<DirectoryListing>(async (resolve, reject)=>{
+            try{
+                const {name, kind, metadata = {}, minSize, maxSize, uploadedAfter, uploadedBefore, includeAllVersions = false} = query
+
+                const absolutePath = this._resolvePath(rootPath)
+
+                const rootFolder = await this._findFolder(absolutePath)
+
+                if(!rootFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${rootPath} does not exist`))
+                }
+
+                if(kind !== undefined && !["folder", "file"].includes(kind)){
+                    return reject(new InvalidArgumentError(`Invalid argument for option kind. Argument must either be 'folder' or 'file'.`))
+                }
+
+                let canRead: ReadFilter
+                await this._checkPermission(absolutePath, "folder", "read")
+                canRead = await this._getReadFilter(absolutePath)
+
+                const nameRegExp = typeof name === "string" ? globToRegExp(name) : name
+                const hasFileOnlyFilters = [minSize, maxSize, uploadedAfter, uploadedBefore].some((filter)=>filter !== undefined)
+                const entries: DirectoryEntry[] = []
+
+                if(kind !== "file" && !hasFileOnlyFilters){
+                    const folderQuery: any = {}
+                    if(nameRegExp){
+                        folderQuery["name"] = nameRegExp
+                    }
+                    for(const field of Object.keys(metadata)){
+                        folderQuery["customMetadata."+field] = metadata[field]
+                    }
+                    const folders = await this._findSubfolders(absolutePath, true, folderQuery)
+                    entries.push(...folders.filter((folder)=>canRead(folder.path)).map(toFolderEntry))
+                }
+
+                if(kind !== "folder"){
+                    const fileQuery: any = await this._folderFilesFilter(absolutePath, true)
+                    if(!includeAllVersions){
+                        fileQuery["metadata.isLatest"] = true
+                    }
+                    if(nameRegExp){
+                        fileQuery["filename"] = nameRegExp
+                    }
+                    for(const field of Object.keys(metadata)){
+                        fileQuery["metadata."+field] = metadata[field]
+                    }
+                    if(minSize !== undefined || maxSize !== undefined){
+                        fileQuery["length"] = {...(minSize !== undefined ? {$gte:minSize} : {}), ...(maxSize !== undefined ? {$lte:maxSize} : {})}
+                    }
+                    if(uploadedAfter !== undefined || uploadedBefore !== undefined){
+                        fileQuery["uploadDate"] = {...(uploadedAfter !== undefined ? {$gte:uploadedAfter} : {}), ...(uploadedBefore !== undefined ? {$lte:uploadedBefore} : {})}
+                    }
+                    const files: GridFSFile[] = await this._withPaths(await this._bucket.find(fileQuery).toArray())
+                    entries.push(...files.filter((file)=>canRead(file.metadata?.path, file.metadata?.acl)).map(toFileEntry))
+                }
+
+                resolve(paginateEntries(entries, query))
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Returns the storage used by the files of a folder and of all of its subfolders. By default only the latest version of each file
+     * is counted. Raises an error if the folder does not exist.
+     * @param {string} folderPath Path of the folder, or the name of the folder storage collection (`folderCollectionName`) for the whole file tree
+     * @param {FolderUsageOptions} options Options for the count. Is optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let usage = await fileTree.getFolderUsage("sample-folder/team-a", {includeAllVersions:true}) //{bytes:1048576, storedBytes:1048576, fileCount:3, versionCount:5, quota:null}
+     */
+    getFolderUsage(folderPath: string, options: FolderUsageOptions = {}): Promise<FolderUsage>{
+        return new Promise<FolderUsage>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                const folder = await this._findFolder(absolutePath)
+
+                if(!folder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "folder", "read")
+
+                resolve({...await this._getUsage(absolutePath, options.includeAllVersions ?? false), quota:folder?.quota ?? null})
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Sets the storage quota of a folder, which limits the total size of all the versions of the files in the folder and in all of
+     * its subfolders. Uploading, copying, moving and restoring files raises an error instead of going over the quota of the folder they are written
+     * into or of any folder containing it. Setting a quota lower than the current usage is allowed, but no more data can then be written into the folder.
+     * Raises an error if the folder does not exist or is the root directory.
+     * @param {string} folderPath Path of the folder
+     * @param {number | null} quota Maximum number of bytes, or null to remove the quota of the folder
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Limits sample-folder/team-a and everything below it to 10 GiB
+     * await fileTree.setFolderQuota("sample-folder/team-a", 10*1024*1024*1024)
+     */
+    setFolderQuota(folderPath: string, quota: number | null): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                if(absolutePath === this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot set a quota on the root directory of the file tree`))
+                }
+
+                if(quota !== null && (typeof quota !== "number" || !(quota >= 0))){
+                    return reject(new InvalidArgumentError("Argument for parameter quota must be a non-negative number or null"))
+                }
+
+                await this._checkPermission(absolutePath, "folder", "admin")
+
+                const result = await this._db.collection(this._folderCollectionName).updateOne(await this._folderFilter(absolutePath), quota === null ? {$unset:{"quota":""}} : {$set:{"quota":quota}})
+
+                if(result.matchedCount === 0){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Lets the user download the folder specified in the `folderPath` parameter as a zip file. The form which the zip file is returned varies
+     * based on the argument provided for the returnType parameter. Empty subfolders are included in the zip file.
+     * The whole zip file is built in memory; use `downloadFolderStream` for large folders.
+     * @param {string} folderPath String representing the absolute path of the folder
+     * @param {string} returnType String specifying the form in which the zip file of the target folder should be returned. Valid options are 'base64',
+     * 'nodebuffer' (NodeJS buffer), 'array' (array of bytes (numbers between 255 and 0)), 'uint8array','arraybuffer', 'blob', and 'binarystring'.
+     * @since 1.0.0
+     * @version 0.5.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Returns an array of bytes (numbers between 255 and 0) representing the data of the zip file
+     * let zip = await fileTree.downloadFolder("sample-folder/subfolder-sample", "array")
+     */
+    downloadFolder(folderPath: string, returnType: OutputType): Promise<Buffer|Uint8Array|string|Blob|number[]|ArrayBuffer>{
+        return new Promise<Buffer|Uint8Array|string|Blob|number[]|ArrayBuffer>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+                const folderZip = new JSZip()
+
+                const downloadAsync = async (file: GridFSFile): Promise<void> =>{
+                    return new Promise<void>((resolveFileDownload)=>{
+                        const downloadStream = this._bucket.openDownloadStream(contentIdOf(file))
+                        let data = ''
+                        downloadStream.on("data",(chunk)=>{
+                            data+=chunk.toString("base64")
+                        })
+                        downloadStream.on("end",()=>{
+                            folderZip.file(file.metadata?.path.slice(absolutePath.length+1), data, {createFolders:true, base64:true})
+                            resolveFileDownload()
+                        })
+                    })
+                }
+
+                const topFolder = await this._findFolder(absolutePath)
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                if(!['base64','nodebuffer', 'array', 'uint8array','arraybuffer', 'blob', 'binarystring'].includes(returnType)){
+                    return reject(new InvalidArgumentError(`Invalid argument for parameter returnType. Argument must either be 'base64','nodebuffer', 'array', 'uint8array','arraybuffer', 'blob', or 'binarystring'.`))
+                }
+
+                let canRead: ReadFilter
+                await this._checkPermission(absolutePath, "folder", "read")
+                canRead = await this._getReadFilter(absolutePath)
+
+                const subfolders = await this._findSubfolders(absolutePath, true)
+
+                for(const subfolder of subfolders.filter((subfolder)=>canRead(subfolder.path))){
+                    folderZip.folder(subfolder.path.slice(absolutePath.length+1))
+                }
+
+                const allFiles: GridFSFile[] = await this._withPaths(await this._bucket.find({"metadata.isLatest":true, ...await this._folderFilesFilter(absolutePath, true)}).toArray())
+
+
+                for(const file of allFiles.filter((file)=>canRead(file.metadata?.path, file.metadata?.acl))){
+                    await downloadAsync(file)
+                }
+                return resolve(await folderZip.generateAsync({type:returnType}))
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Returns a promise which resolves to a readable stream of an archive of the folder specified in the `folderPath` parameter.
+     * Unlike `downloadFolder`, the files are never held in memory as a whole: the data of each file is piped from GridFS into the archive
+     * one file at a time, as the returned stream is read. The archive contains the latest version of every file in the folder and its
+     * subfolders, as well as every subfolder, including empty ones.
+     * @param {string} folderPath String representing the absolute path of the folder
+     * @param {FolderStreamOptions} options Options for the archive. Is optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * let stream = await fileTree.downloadFolderStream("sample-folder/subfolder-sample", {format:"tar.gz"})
+     * stream.pipe(fs.createWriteStream("subfolder-sample.tar.gz"))
+     */
+    downloadFolderStream(folderPath: string, options: FolderStreamOptions = {}): Promise<Readable>{
+        return new Promise<Readable>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+                const {format = "zip"} = options
+
+                const topFolder = await this._findFolder(absolutePath)
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                if(!["zip", "tar", "tar.gz"].includes(format)){
+                    return reject(new InvalidArgumentError(`Invalid argument for option format. Argument must either be 'zip', 'tar', or 'tar.gz'.`))
+                }
+
+                let canRead: ReadFilter
+                await this._checkPermission(absolutePath, "folder", "read")
+                canRead = await this._getReadFilter(absolutePath)
+
+                const archive = format === "zip" ? archiver("zip") : archiver("tar", {gzip:format === "tar.gz"})
+
+                // Waits until the archive has consumed an entry before appending the next one, so at most one file is being read from GridFS at a time
+                const appendEntry = (source: Readable | Buffer, data: archiver.EntryData): Promise<void> =>{
+                    return new Promise<void>((resolveEntry, rejectEntry)=>{
+                        const onError = (err: Error) =>{
+                            archive.removeListener("entry", onEntry)
+                            rejectEntry(err)
+                        }
+                        const onEntry = () =>{
+                            archive.removeListener("error", onError)
+                            resolveEntry()
+                        }
+                        archive.once("entry", onEntry)
+                        archive.once("error", onError)
+                        archive.append(source, data)
+                    })
+                }
+
+                resolve(archive)
+
+                try{
+                    const subfolders = await this._findSubfolders(absolutePath, true)
+                    for(const subfolder of subfolders){
+                        if(!canRead(subfolder.path)){
+                            continue
+                        }
+                        await appendEntry(Buffer.alloc(0), {name:subfolder.path.slice(absolutePath.length+1)+"/"})
+                    }
+
+                    const allFiles = this._bucket.find({"metadata.isLatest":true, ...await this._folderFilesFilter(absolutePath, true)})
+                    for await (const storedFile of allFiles){
+                        const [file] = await this._withPaths([storedFile])
+                        if(!canRead(file.metadata?.path, file.metadata?.acl)){
+                            continue
+                        }
+                        await appendEntry(this._bucket.openDownloadStream(contentIdOf(file)), {name:file.metadata?.path.slice(absolutePath.length+1), date:file.uploadDate})
+                    }
+
+                    await archive.finalize()
+                }
+                catch(e: any){
+                    archive.destroy(e)
+                }
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Uploads the folders and files of a zip file into a folder of the file tree. Folders of the zip file that do not already exist in the
+     * file tree are created, and each file of the zip file is uploaded as if by the `uploadFile` method: if a file with the same path already exists,
+     * the uploaded file becomes its latest version, unless the `onConflict` option says otherwise. Entries of the zip file with names that contain
+     * invalid characters are not uploaded, and neither are the entries inside folders with invalid names. Raises an error if the target folder does
+     * not exist or if the zip file cannot be read.
+     * @param {Readable | Buffer} archive Readable stream or buffer of a zip file. A stream is read into memory completely before any entry is uploaded.
+     * @param {ArchiveUploadOptions} options Options for the upload. The `chunkSize` property is mandatory.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Object listing the paths of the created and versioned files and folders, and the names of the rejected entries of the zip file
+     * let result = await fileTree.uploadArchive(fs.createReadStream("project.zip"), {targetPath:"sample-folder/projects", chunkSize:1048576})
+     */
+    uploadArchive(archive: Readable | Buffer, options: ArchiveUploadOptions): Promise<ArchiveUploadResult>{
+        return new Promise<ArchiveUploadResult>(async (resolve, reject)=>{
+            try{
+                if(!(archive instanceof Readable) && !Buffer.isBuffer(archive)){
+                    return reject(new InvalidArgumentError("Argument for parameter archive is not a valid readable stream or buffer"))
+                }
+
+                if(!options.chunkSize){
+                    return reject(new InvalidArgumentError("Missing 'chunkSize' property for 'options' parameter."))
+                }
+
+                const {targetPath = this._currentWorkingDirectory, onConflict = "version", chunkSize} = options
+
+                if(!["version", "skip", "error"].includes(onConflict)){
+                    return reject(new InvalidArgumentError(`Invalid argument for option onConflict. Argument must either be 'version', 'skip', or 'error'.`))
+                }
+
+                const absoluteTargetPath = this._resolvePath(targetPath)
+
+                const targetFolder = await this._findFolder(absoluteTargetPath)
+
+                if(!targetFolder && absoluteTargetPath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${targetPath} does not exist`))
+                }
+
+                await this._checkPermission(absoluteTargetPath, "folder", "write")
+
+                let zip: JSZip
+                try{
+                    let data: Buffer
+                    if(Buffer.isBuffer(archive)){
+                        data = archive
+                    }
+                    else{
+                        const chunks: Buffer[] = []
+                        for await (const chunk of archive){
+                            chunks.push(Buffer.from(chunk))
+                        }
+                        data = Buffer.concat(chunks)
+                    }
+                    zip = await JSZip.loadAsync(data)
+                }
+                catch(e){
+                    return reject(new InvalidArgumentError("Argument for parameter archive is not a valid zip file"))
+                }
+
+                const result: ArchiveUploadResult = {created:[], versioned:[], skipped:[], rejected:[]}
+                const validEntries: {entry: JSZip.JSZipObject, segments: string[]}[] = []
+
+                for(const entry of Object.values(zip.files)){
+                    const segments = entry.name.split("/").filter((segment)=>segment !== "")
+                    let reason: string | undefined
+
+                    for(const [index, segment] of segments.entries()){
+                        const kind = index === segments.length-1 && !entry.dir ? "file" : "folder"
+                        reason = validateName(segment, kind)
+                        if(reason){
+                            break
+                        }
+                    }
+
+                    if(reason){
+                        result.rejected.push({name:entry.name, reason})
+                    }
+                    else if(segments.length > 0){
+                        validEntries.push({entry, segments})
+                    }
+                }
+
+                if(onConflict === "error"){
+                    for(const {entry, segments} of validEntries){
+                        const path = absoluteTargetPath+"/"+segments.join("/")
+                        if(!entry.dir && await this._bucket.find(await this._fileFilter(path)).hasNext()){
+                            return reject(new ConflictError(`File with path ${path} already exists`))
+                        }
+                    }
+                }
+
+                const existingFolders = new Set<string>([absoluteTargetPath])
+                const ensureFolders = async (segments: string[]): Promise<void> =>{
+                    for(let i = 1; i <= segments.length; i++){
+                        const path = absoluteTargetPath+"/"+segments.slice(0, i).join("/")
+                        if(existingFolders.has(path)){
+                            continue
+                        }
+                        if(!(await this._findFolder(path))){
+                            const parentDirectory = absoluteTargetPath+(i > 1 ? "/"+segments.slice(0, i-1).join("/") : "")
+                            await this._insertFolder(segments[i-1], parentDirectory)
+                            result.created.push(path)
+                        }
+                        existingFolders.add(path)
+                    }
+                }
+
+                for(const {entry, segments} of validEntries){
+                    if(entry.dir){
+                        await ensureFolders(segments)
+                        continue
+                    }
+
+                    await ensureFolders(segments.slice(0, -1))
+                    const name = segments[segments.length-1]
+                    const parentDirectory = [absoluteTargetPath, ...segments.slice(0, -1)].join("/")
+                    const path = parentDirectory+`/${name}`
+                    const doesFileExist = await this._bucket.find(await this._fileFilter(path)).hasNext()
+
+                    if(doesFileExist && onConflict === "skip"){
+                        result.skipped.push(path)
+                        continue
+                    }
+
+                    await this._uploadFileToDirectory(entry.nodeStream() as Readable, {name, chunkSize}, parentDirectory)
+                    if(doesFileExist){
+                        result.versioned.push(path)
+                    }
+                    else{
+                        result.created.push(path)
+                    }
+                }
+
+                resolve(result)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Uploads the folders and files of a directory of the local filesystem into a folder of the file tree. Files that already exist in the
+     * file tree are uploaded as their latest version. If the `sync` option is true, files whose size and SHA-256 hash are the same in both places are skipped.
+     * If the `mirrorDeletions` option is true, files and folders of the file tree that do not exist in the local directory are deleted.
+     * Local files and folders with invalid names are not uploaded. Raises an error if the local directory or the folder of the file tree does not exist.
+     * @param {string} localPath Path of the directory in the local filesystem
+     * @param {string} folderPath Absolute path of the folder of the file tree to upload into
+     * @param {LocalSyncOptions} options Options for the import. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Actions that would be performed to make sample-folder/projects match the local directory
+     * let plannedActions = await fileTree.importLocalDirectory("./projects", "sample-folder/projects", {sync:true, mirrorDeletions:true, dryRun:true})
+     */
+    importLocalDirectory(localPath: string, folderPath: string, options: LocalSyncOptions = {}): Promise<SyncAction[]>{
+        return new Promise<SyncAction[]>(async (resolve, reject)=>{
+            try{
+                const {chunkSize = 261120, dryRun = false} = options
+
+                if(!(await fs.promises.stat(localPath).catch(()=>null))?.isDirectory()){
+                    return reject(new NotFoundError(`Local directory ${localPath} does not exist`))
+                }
+
+                const absolutePath = this._resolvePath(folderPath)
+
+                const topFolder = await this._findFolder(absolutePath)
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "folder", "write")
+
+                const localEntries = await walkLocalDirectory(localPath)
+                const treeEntries = await this._getSubtreeEntries(absolutePath)
+                const rejectedActions: SyncAction[] = []
+
+                for(const [relativePath, entry] of localEntries){
+                    const name = relativePath.split("/").pop() as string
+                    const reason = validateName(name, entry.kind)
+                    if(reason){
+                        rejectedActions.push({type:"reject", kind:entry.kind, relativePath, reason})
+                    }
+                }
+                for(const {relativePath} of rejectedActions){
+                    for(const entryPath of [...localEntries.keys()]){
+                        if(entryPath === relativePath || entryPath.startsWith(relativePath+"/")){
+                            localEntries.delete(entryPath)
+                        }
+                    }
+                }
+
+                const actions = await planSync(localEntries, treeEntries, options, async (relativePath)=>{
+                    const localHash = await hashStream(fs.createReadStream(localEntries.get(relativePath)?.localPath as string))
+                    const treeHash = treeEntries.get(relativePath)?.sha256 ?? await hashStream(this._bucket.openDownloadStream(treeEntries.get(relativePath)?.fileId as ObjectId))
+                    return localHash === treeHash
+                })
+                actions.push(...rejectedActions)
+
+                if(dryRun){
+                    return resolve(actions)
+                }
+
+                for(const action of actions){
+                    const path = absolutePath+"/"+action.relativePath
+                    const parentDirectory = parentPath(path)
+                    const name = baseName(path)
+
+                    if(action.type === "create" && action.kind === "folder"){
+                        await this._insertFolder(name, parentDirectory)
+                    }
+                    else if((action.type === "create" || action.type === "update") && action.kind === "file"){
+                        await this._uploadFileToDirectory(fs.createReadStream(localEntries.get(action.relativePath)?.localPath as string), {name, chunkSize}, parentDirectory)
+                    }
+                    else if(action.type === "delete" && action.kind === "file"){
+                        await this.deleteFile(path)
+                    }
+                    else if(action.type === "delete"){
+                        await this.deleteFolder(path)
+                    }
+                }
+
+                resolve(actions)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Writes the folders and the latest version of the files of a folder of the file tree into a directory of the local filesystem.
+     * The local directory is created if it does not exist, and existing local files are overwritten. If the `sync` option is true, files whose size and
+     * SHA-256 hash are the same in both places are skipped. If the `mirrorDeletions` option is true, local files and directories that do not exist in
+     * the folder of the file tree are deleted. Raises an error if the folder of the file tree does not exist.
+     * @param {string} folderPath Absolute path of the folder of the file tree to export
+     * @param {string} localPath Path of the directory in the local filesystem
+     * @param {LocalSyncOptions} options Options for the export. All properties are optional, and the `chunkSize` property is ignored.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Only writes the files that changed since the last export
+     * let actions = await fileTree.exportToLocalDirectory("sample-folder/projects", "./projects", {sync:true})
+     */
+    exportToLocalDirectory(folderPath: string, localPath: string, options: LocalSyncOptions = {}): Promise<SyncAction[]>{
+        return new Promise<SyncAction[]>(async (resolve, reject)=>{
+            try{
+                const {dryRun = false} = options
+
+                const absolutePath = this._resolvePath(folderPath)
+
+                const topFolder = await this._findFolder(absolutePath)
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "folder", "read")
+
+                const localStats = await fs.promises.stat(localPath).catch(()=>null)
+
+                if(localStats && !localStats.isDirectory()){
+                    return reject(new InvalidArgumentError(`Local path ${localPath} is not a directory`))
+                }
+
+                const localEntries = localStats ? await walkLocalDirectory(localPath) : new Map<string, SyncEntry>()
+                const treeEntries = await this._getSubtreeEntries(absolutePath)
+
+                const actions = await planSync(treeEntries, localEntries, options, async (relativePath)=>{
+                    const treeHash = treeEntries.get(relativePath)?.sha256 ?? await hashStream(this._bucket.openDownloadStream(treeEntries.get(relativePath)?.fileId as ObjectId))
+                    const localHash = await hashStream(fs.createReadStream(localEntries.get(relativePath)?.localPath as string))
+                    return localHash === treeHash
+                })
+
+                if(dryRun){
+                    return resolve(actions)
+                }
+
+                await fs.promises.mkdir(localPath, {recursive:true})
+
+                for(const action of actions){
+                    const entryPath = nodePath.join(localPath, action.relativePath)
+
+                    if(action.type === "create" && action.kind === "folder"){
+                        await fs.promises.mkdir(entryPath, {recursive:true})
+                    }
+                    else if((action.type === "create" || action.type === "update") && action.kind === "file"){
+                        await fs.promises.mkdir(nodePath.dirname(entryPath), {recursive:true})
+                        await pipeline(this._bucket.openDownloadStream(treeEntries.get(action.relativePath)?.fileId as ObjectId), fs.createWriteStream(entryPath))
+                    }
+                    else if(action.type === "delete"){
+                        await fs.promises.rm(entryPath, {recursive:true, force:true})
+                    }
+                }
+
+                resolve(actions)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * Lists the subfolders and the latest version of the files inside a folder of the file tree, keyed by their path relative to it.
+     * Folders and files that the principal cannot read are left out.
+     */
+    private async _getSubtreeEntries(folderPath: string): Promise<Map<string, SyncEntry>>{
+        const entries = new Map<string, SyncEntry>()
+        const canRead = await this._getReadFilter(folderPath)
+
+        const subfolders = await this._findSubfolders(folderPath, true)
+        for(const subfolder of subfolders.filter((subfolder)=>canRead(subfolder.path))){
+            entries.set(subfolder.path.slice(folderPath.length+1), {kind:"folder", size:0})
+        }
+
+        const allFiles: GridFSFile[] = await this._withPaths(await this._bucket.find({"metadata.isLatest":true, ...await this._folderFilesFilter(folderPath, true)}).toArray())
+        for(const file of allFiles.filter((file)=>canRead(file.metadata?.path, file.metadata?.acl))){
+            entries.set(file.metadata?.path.slice(folderPath.length+1), {kind:"file", size:file.length, fileId:contentIdOf(file), sha256:file.metadata?.sha256})
+        }
+
+        return entries
+    }
+    /**
+     * @description Upload a file to the GridFS Bucket file tree, with the parent directory of the file being
+     * the folder specified by the `targetPath` option, or the current working directory of the file tree.
+     * If a file with the name provided to the method from the `options` parameter already exists
+     * in that folder,
+     * the uploaded file will be treated as the latest version of that file, with the
+     * `isLatest` metadata property of the uploaded file being true and the `isLatest` property of the
+     * previous file being set to false. The previous file is only changed once the uploaded file is completely stored,
+     * so if the upload fails, the previous file stays the latest version. The SHA-256 hash of the data of the file is stored in its
+     * `sha256` metadata property. With deduplicated storage, if the uploaded data is identical to the latest version of the file,
+     * nothing is uploaded and the method resolves to the id of the latest version. Raises an error if the file is locked by an owner other than
+     * the `lockOwner` option, if the folder to upload it into does not exist, or if a `beforeUpload` hook vetoes the upload,
+     * in which case the stream is destroyed without being read.
+     * The media type of the file is stored in its `contentType` metadata property. Unless it is provided with the `contentType` option, it is detected
+     * from the first bytes of the file, and from its extension for formats that cannot be told apart from their bytes, like text formats.
+     * @param {Readable} fileStream Valid readable stream
+     * @param {FileOptions} options Options for the file. Mandatory properties are `name` and `chunkSize`
+     * (the size of the chunks of the file in GridFS in bytes).
+     * The `customMetadata`, `lockOwner`, `contentType`, and `targetPath` properties are optional.
+     * @since 1.0.0
+     * @version 0.10.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * // id of the file in file tree GridFS bucket
+     * let id = await fileTree.uploadFile(fs.createReadStream("sample.txt"), {name:"sample.txt", chunkSize:1048576, customMetadata:{favourite:true}})
+     * //Uploads the file with path sample-folder/subfolder-sample/sample.txt, whatever the current working directory is
+     * let otherId = await fileTree.uploadFile(fs.createReadStream("sample.txt"), {name:"sample.txt", chunkSize:1048576, targetPath:"sample-folder/subfolder-sample"})
+     */
+    uploadFile(fileStream: Readable, options: FileOptions): Promise<ObjectId>{
+        return new Promise<ObjectId>(async (resolve, reject)=>{
+            try{
+                if (!(fileStream instanceof Readable)){
+                    return reject(new InvalidArgumentError("Argument for parameter fileStream is not a valid readable stream"))
+                }
+
+                if(!options.name){
+                    return reject(new InvalidArgumentError("Missing 'name' property for 'options' parameter."))
+                }
+
+                if(!options.chunkSize){
+                    return reject(new InvalidArgumentError("Missing 'chunkSize' property for 'options' parameter."))
+                }
+
+                const invalidNameError = validateName(options.name, "file")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                if(options.contentType !== undefined && !isContentType(options.contentType)){
+                    return reject(new InvalidArgumentError("Option contentType must be a valid media type, like 'text/plain'"))
+                }
+
+                const parentDirectory = options.targetPath === undefined ? this._currentWorkingDirectory : this._resolvePath(options.targetPath)
+
+                if(parentDirectory !== this._folderCollectionName && !(await this._findFolder(parentDirectory))){
+                    fileStream.destroy()
+                    return reject(new NotFoundError(`Folder with path ${options.targetPath ?? parentDirectory} does not exist`))
+                }
+
+                this._uploadFileToDirectory(fileStream, options, parentDirectory).then(resolve, reject)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * Uploads a file into the folder specified by `parentDirectory` after running the `beforeUpload` hooks, and emits the `fileUploaded` event,
+     * or the `fileVersioned` event if a file with the same name already exists there. Resolves to the id of the uploaded file.
+     */
+    private async _uploadFileToDirectory(fileStream: Readable, options: FileOptions, parentDirectory: string): Promise<ObjectId>{
+        const path = parentDirectory+`/${options.name}`
+        const context = {name:options.name, path, customMetadata:{...options.customMetadata}}
+
+        // Nothing reads the stream until the hooks have run, but it can already fail, like a file stream of a missing file
+        let streamError: unknown
+        const onStreamError = (e: unknown)=>{
+            streamError = e
+        }
+        fileStream.on("error", onStreamError)
+        let previousFile
+        try{
+            const doesFileExist = await this._bucket.find(await this._fileFilter(path)).hasNext()
+            await this._checkPermission(doesFileExist ? path : parentDirectory, doesFileExist ? "file" : "folder", "write")
+            await this._checkLocks(path, options.lockOwner)
+            await this._runHooks("beforeUpload", context)
+            previousFile = await this._db.collection(this._bucketName+".files").findOne({...await this._fileFilter(path), "metadata.isLatest":true})
+        }
+        catch(e){
+            fileStream.destroy()
+            throw e
+        }
+        finally{
+            fileStream.off("error", onStreamError)
+        }
+        if(streamError){
+            throw streamError
+        }
+
+        // Access control lists are only set with the setFileAccessControl method, and new versions keep the access control list of the file
+        const customMetadata: Record<string, any> = {...context.customMetadata}
+        delete customMetadata.acl
+        delete customMetadata.contentType
+        if(previousFile?.metadata?.acl){
+            customMetadata.acl = previousFile.metadata.acl
+        }
+        const id = await this._storeFile(fileStream, {...options, customMetadata}, parentDirectory)
+
+        if(!previousFile){
+            this.emit("fileUploaded", {id, path})
+        }
+        // With deduplicated storage, uploading the same data as the latest version does nothing
+        else if(!previousFile._id.equals(id)){
+            this.emit("fileVersioned", {id, path, previousId:previousFile._id})
+        }
+        return id
+    }
+    /**
+     * Stores a file in the folder specified by `parentDirectory`. If a file with the same name already exists there,
+     * the stored file becomes its latest version. Resolves to the id of the stored file.
+     * The file is uploaded as a non-latest version first, and is only made the latest version once all of its data is stored,
+     * so a failed upload never demotes the previous latest version. The SHA-256 hash of the data is computed while it is streamed,
+     * and with deduplicated storage the chunks of the upload are dropped once it turns out that the same data is already stored.
+     */
+    private _storeFile(fileStream: Readable, options: FileOptions, parentDirectory: string): Promise<ObjectId>{
+        return new Promise<ObjectId>(async (resolve, reject)=>{
+            const path = parentDirectory+`/${options.name}`
+
+            let location: Document
+            try{
+                location = await this._locationOf(parentDirectory, options.name)
+            }
+            catch(e){
+                fileStream.destroy()
+                return reject(e)
+            }
+
+            const uploadStream = this._bucket.openUploadStream(options.name, {
+
+                chunkSizeBytes:options.chunkSize,
+
+                metadata:{
+                    ...location,
+                    isLatest:false,
+                    ...options.customMetadata
+                }
+
+            })
+
+            const hash = crypto.createHash("sha256")
+            // First bytes of the file, to detect its media type
+            let head = Buffer.alloc(0)
+
+            fileStream.on("error", (err)=>{
+                uploadStream.abort().catch(()=>undefined)
+                reject(err)
+            })
+            fileStream.on("data", (chunk)=>{
+                hash.update(chunk)
+                if(head.length < sniffLength){
+                    head = Buffer.concat([head, Buffer.from(chunk)]).subarray(0, sniffLength)
+                }
+            })
+            fileStream.pipe(uploadStream)
+            uploadStream.on("error", reject)
+            uploadStream.on("finish",async ()=>{
+                const sha256 = hash.digest("hex")
+                const contentType = options.contentType ?? detectContentType(options.name, head)
+                try{
+                    if(this._deduplicate){
+                        const latestFile = await this._db.collection(this._bucketName+".files").findOne({...await this._fileFilter(path), "metadata.isLatest":true})
+                        if(latestFile?.metadata?.sha256 === sha256){
+                            await this._bucket.delete(uploadStream.id)
+                            return resolve(latestFile._id)
+                        }
+                    }
+
+                    // The upload is already stored as a non-latest version, so it is part of the usage of the folder
+                    await this._checkQuota(parentDirectory, 0)
+
+                    await this._withTransaction(async (session)=>{
+                        const storedFile = this._deduplicate ? await this._db.collection(this._bucketName+".files").findOne(
+                            {"metadata.sha256":sha256, "metadata.contentId":{$exists:false}, "_id":{$ne:uploadStream.id}},{session}) : null
+
+                        if(storedFile){
+                            // The chunks of the stored file are read instead, so they must be split the same way
+                            await this._db.collection(this._bucketName+".files").updateOne({"_id":uploadStream.id},
+                                {$set:{"chunkSize":storedFile.chunkSize, "metadata.sha256":sha256, "metadata.contentId":storedFile._id, "metadata.contentType":contentType}},{session})
+                            await this._db.collection(this._bucketName+".chunks").deleteMany({"files_id":uploadStream.id},{session})
+                        }
+                        else{
+                            await this._db.collection(this._bucketName+".files").updateOne({"_id":uploadStream.id},{$set:{"metadata.sha256":sha256, "metadata.contentType":contentType}},{session})
+                        }
+                        await this._makeLatestVersion(path, uploadStream.id, session)
+                    })
+                }
+                catch(e){
+                    await this._bucket.delete(uploadStream.id).catch(()=>undefined)
+                    return reject(e)
+                }
+                resolve(uploadStream.id)
+            })
+        })
+    }
+    /**
+     * Makes the file with the id `fileId` the latest version of the file at `filePath`, unless a version uploaded after it is already the latest version.
+     * The previous latest version is unflagged before the new one is flagged, as the unique index created by the `ensureIndexes` method allows only one
+     * latest version per path. Outside of a transaction, if the new version cannot be flagged, the previous one is flagged again, and if another upload
+     * of the same file flags its version in between, the new version is compared with it again, so that the most recent upload always ends up as the only
+     * latest version. On file trees without the unique index, versions uploaded earlier that are still flagged are unflagged afterwards.
+     */
+    private async _makeLatestVersion(filePath: string, fileId: ObjectId, session?: ClientSession): Promise<void>{
+        const filesCollection = this._db.collection(this._bucketName+".files")
+        const file = await filesCollection.findOne({"_id":fileId},{session})
+        const uploadDate: Date = file?.uploadDate
+        const isMoreRecent = (otherFile: any)=>otherFile.uploadDate > uploadDate
+            || (otherFile.uploadDate.getTime() === uploadDate.getTime() && otherFile._id.toHexString() > fileId.toHexString())
+
+        const fileFilter = await this._fileFilter(filePath)
+
+        for(;;){
+            const latestFile = await filesCollection.findOne({...fileFilter, "metadata.isLatest":true, "_id":{$ne:fileId}},{session})
+            if(latestFile && isMoreRecent(latestFile)){
+                return
+            }
+            if(latestFile){
+                await filesCollection.updateOne({"_id":latestFile._id},{$set:{"metadata.isLatest":false}},{session})
+            }
+            try{
+                await filesCollection.updateOne({"_id":fileId},{$set:{"metadata.isLatest":true}},{session})
+                break
+            }
+            catch(e: any){
+                if(session){
+                    throw e
+                }
+                // Another upload of the same file flagged its version in between
+                if(e?.code === 11000){
+                    continue
+                }
+                if(latestFile){
+                    await filesCollection.updateOne({"_id":latestFile._id},{$set:{"metadata.isLatest":true}}).catch(()=>undefined)
+                }
+                throw e
+            }
+        }
+
+        await filesCollection.updateMany({...fileFilter, "metadata.isLatest":true, "_id":{$ne:fileId},
+            $or:[{"uploadDate":{$lt:uploadDate}}, {"uploadDate":uploadDate, "_id":{$lt:fileId}}]},{$set:{"metadata.isLatest":false}},{session})
+
+        if(await filesCollection.findOne({...fileFilter, "metadata.isLatest":true, "_id":{$ne:fileId}},{session})){
+            await filesCollection.updateOne({"_id":fileId},{$set:{"metadata.isLatest":false}},{session})
+        }
+    }
+    /**
+     * Runs `operation` inside a transaction if the MongoDB deployment supports transactions (replica sets and sharded clusters).
+     * Otherwise, runs `operation` without a session and, if it fails, runs `compensate` to undo the writes that were already made
+     * before raising the error.
+     */
+    private async _withTransaction<T>(operation: (session?: ClientSession) => Promise<T>, compensate?: () => Promise<void>): Promise<T>{
+        // Sessions are started from a client, so file trees created from a Db do not use transactions
+        if(this._supportsTransactions === undefined){
+            const hello = await this._db.admin().command({hello:1})
+            this._supportsTransactions = Boolean(this._client) && (Boolean(hello.setName) || hello.msg === "isdbgrid")
+        }
+
+        if(this._supportsTransactions && this._client){
+            const session = this._client.startSession()
+            try{
+                let result: T | undefined
+                await session.withTransaction(async ()=>{
+                    result = await operation(session)
+                })
+                return result as T
+            }
+            finally{
+                await session.endSession()
+                // Folders read while the transaction ran may be cached in the state it changed
+                this._resolver.clear()
+            }
+        }
+
+        try{
+            return await operation()
+        }
+        catch(e){
+            if(compensate){
+                await compensate()
+            }
+            throw e
+        }
+    }
+    /**
+     * @description Change the name of a file in the file tree. This also changes its `path` metadata property accordingly.
+     * Raises an error if a file with the new name already exists in the folder of the file, if the file is locked by an owner other than `lockOwner`,
+     * or if a `beforeRename` hook vetoes the renaming.
+     * @param {string} newName New name for the file
+     * @param {string} filePath Absolute path of the file that you want to change the name of
+     * @param {string} lockOwner Owner of the lock on the file, if the file is locked. Is optional.
+     * @since 1.0.0
+     * @version 0.6.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.changeFileName("new-file-name", "sample-folder/old-file-name.txt") //File now has path sample-folder/new-file-name.txt
+     */
+     changeFileName(newName:string, filePath:string, lockOwner?: string): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(filePath)
+                const allFileVersions = this._bucket.find(await this._fileFilter(absolutePath))
+
+                if(!(await allFileVersions.hasNext())){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                const invalidNameError = validateName(newName, "file")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                const parentDirectory = parentPath(absolutePath)
+
+                // The versions of both files would otherwise share the same path
+                if(await this._bucket.find(await this._fileFilter(parentDirectory+`/${newName}`)).hasNext()){
+                    return reject(new ConflictError(`File with name ${newName} already exists in the specified directory`))
+                }
+
+                let latestId: ObjectId
+                await this._checkPermission(absolutePath, "file", "write")
+                await this._checkLocks(absolutePath, lockOwner)
+                await this._runHooks("beforeRename", {kind:"file", path:absolutePath, newName})
+                latestId = await this._getLatestFileId(absolutePath) as ObjectId
+                await this._withTransaction((session)=>this._relocateEntry("file", absolutePath, parentDirectory, newName, session),
+                    ()=>this._relocateEntry("file", parentDirectory+`/${newName}`, parentDirectory, baseName(absolutePath)))
+
+                this.emit("fileRenamed", {id:latestId, path:parentDirectory+`/${newName}`, oldPath:absolutePath})
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Update the metadata of a file in the file tree, allowing users to add, change, or delete metadata properties from files.
+     * Raises an error if the user or a `beforeMetadataChange` hook tries to change or delete the 'path', 'parentDirectory', 'parentId', 'isLatest', 'sha256',
+     * 'contentId', 'contentType', or 'acl' metadata properties from a file, if the file is locked by an owner other than `lockOwner`,
+     * or if a `beforeMetadataChange` hook vetoes the change.
+     * @param {string} filePath Absolute path of the file that you want to change the metadata of
+     * @param {MetadataOptions} newMetadata Metadata properties to add or change the value of. Can have any property except the ones listed above.
+     * @param {Array<string>} deleteFields Metadata properties to delete. Can include any property except the ones listed above.
+     * @param {boolean} changeForAllVersions If false, only changes metadata properties for latest version of file.
+     * If true, changes metadata properties for all versions of the file. Defaults to false.
+     * @param {string} lockOwner Owner of the lock on the file, if the file is locked. Is optional.
+     * @since 1.0.0
+     * @version 0.7.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.changeFileMetadata("sample-folder/sample.txt", {favourite:true}, ["sample-property"], true)
+     */
+     changeFileMetadata(filePath: string, newMetadata?:MetadataOptions, deleteFields?:string[], changeForAllVersions: boolean= false, lockOwner?: string): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(filePath)
+
+                const context = {kind:"file" as const, path:absolutePath, newMetadata, deleteFields}
+                await this._checkPermission(absolutePath, "file", "write")
+                await this._checkLocks(absolutePath, lockOwner)
+                await this._runHooks("beforeMetadataChange", context)
+                newMetadata = context.newMetadata
+                deleteFields = context.deleteFields
+
+                // @ts-ignore
+                if(newMetadata?.path || deleteFields?.includes('path')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'path' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.parentDirectory|| deleteFields?.includes('parentDirectory')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'parentDirectory' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.parentId !== undefined || deleteFields?.includes('parentId')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'parentId' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.isLatest || deleteFields?.includes('isLatest')){
+                    return reject(new InvalidArgumentError("Cannot delete or change the type of 'isLatest' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.sha256 !== undefined || newMetadata?.contentId !== undefined || deleteFields?.includes('sha256') || deleteFields?.includes('contentId')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'sha256' or 'contentId' metadata properties using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.contentType !== undefined || deleteFields?.includes('contentType')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'contentType' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.acl !== undefined || deleteFields?.includes('acl')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'acl' metadata property using this method, use the setFileAccessControl method instead" ))
+                }
+                if(changeForAllVersions){
+                    if(newMetadata){
+                        const fields: any = {}
+                        Object.keys(newMetadata).forEach((field: string)=>{
+                            // @ts-ignore
+                            fields["metadata."+field] = newMetadata[field]
+                        })
+                        await this._db.collection(this._bucketName+".files").updateMany(await this._fileFilter(absolutePath),{$set:fields})
+                    }
+                    if(deleteFields){
+
+                        const fields: any = {}
+                        deleteFields.forEach((field: string)=>{
+                            // @ts-ignore
+                            fields["metadata."+field] = ""
+                        })
+                        await this._db.collection(this._bucketName+".files").updateMany(await this._fileFilter(absolutePath),{$unset:fields})
+                    }
+                }
+                else{
+                    if(newMetadata){
+                        const fields: any = {}
+                        Object.keys(newMetadata).forEach((field: string)=>{
+                            // @ts-ignore
+                            fields["metadata."+field] = newMetadata[field]
+                        })
+                        await this._db.collection(this._bucketName+".files").findOneAndUpdate({...await this._fileFilter(absolutePath), "metadata.isLatest":true},{$set:fields})
+                    }
+                    if(deleteFields){
+
+                        const fields: any = {}
+                        deleteFields.forEach((field: string)=>{
+                            // @ts-ignore
+                            fields["metadata."+field] = ""
+                        })
+                        await this._db.collection(this._bucketName+".files").findOneAndUpdate({...await this._fileFilter(absolutePath), "metadata.isLatest":true},{$unset:fields})
+                    }
+                }
+
+                const latestId = await this._getLatestFileId(absolutePath)
+                if(latestId){
+                    this.emit("metadataChanged", {kind:"file", id:latestId, path:absolutePath})
+                }
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+    /**
+     * @description Update the metadata of a folder in the file tree, allowing users to add, change, or delete metadata properties from folders.
+     * Raises an error if the user or a `beforeMetadataChange` hook tries to change or delete the 'path', 'parentDirectory', and 'parentId' properties from a folder,
+     * or if a `beforeMetadataChange` hook vetoes the change.
+     * @param {string} folderPath Absolute path of the folder that you want to change the name of
+     * @param {MetadataOptions} newMetadata Metadata properties to add or change the value of. Can have any property except the ones listed above.
+     * @param {Array<string>} deleteFields Metadata properties to delete. Can have any property except the ones listed above.
+     * @since 1.0.0
+     * @version 0.5.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.changeFolderMetadata("sample-folder/subfolder", {favorite:true}, ["sample-property"])
+     */
+    changeFolderMetadata(folderPath: string, newMetadata?:MetadataOptions, deleteFields?:string[]): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                const context = {kind:"folder" as const, path:absolutePath, newMetadata, deleteFields}
+                await this._checkPermission(absolutePath, "folder", "write")
+                await this._runHooks("beforeMetadataChange", context)
+                newMetadata = context.newMetadata
+                deleteFields = context.deleteFields
+
+                // @ts-ignore
+                if(newMetadata?.path || deleteFields?.includes('path')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'path' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.parentDirectory|| deleteFields?.includes('parentDirectory')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'parentDirectory' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.parentId !== undefined || deleteFields?.includes('parentId')){
+                    return reject(new InvalidArgumentError("Cannot change or delete 'parentId' metadata property using this method" ))
+                }
+                // @ts-ignore
+                if(newMetadata?.isLatest || deleteFields?.includes('isLatest')){
+                    return reject(new InvalidArgumentError("Cannot add or delete 'isLatest' metadata property for a folder" ))
+                }
+
+                if(newMetadata){
+                    const fields: any = {}
+                    Object.keys(newMetadata).forEach((field: string)=>{
+                        // @ts-ignore
+                        fields["customMetadata."+field] = newMetadata[field]
+                    })
+                    await this._db.collection(this._folderCollectionName).findOneAndUpdate(await this._folderFilter(absolutePath),{$set:fields})
+                }
+
+                if(deleteFields){
+                    const fields: any = {}
+                    deleteFields.forEach((field: string)=>{
+                        fields["customMetadata."+field] = ""
+                    })
+                    await this._db.collection(this._folderCollectionName).findOneAndUpdate(await this._folderFilter(absolutePath),{$unset:fields})
+                }
+
+                const folder = await this._findFolder(absolutePath)
+                if(folder){
+                    this.emit("metadataChanged", {kind:"folder", id:folder._id, path:absolutePath})
+                }
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Change the name of a folder in the file tree. This also changes its `path` metadata property accordingly,
+     * and the `path` and `parentDirectory` metadata property of all subfolders and files in the folder. With the 'parentId' storage mode, only the document
+     * of the folder changes. Raises an error
+     * if the specified folder does not exist, if a file in it is locked by an owner other than `lockOwner`, or if a `beforeRename` hook vetoes the renaming.
+     * The renaming runs in a transaction if the MongoDB deployment supports transactions.
+     * @param {string} newName New name for the file
+     * @param {string} folderPath Absolute path of the folder that you want to change the name of
+     * @param {string} lockOwner Owner of the locks on the files in the folder, if they are locked. Is optional.
+     * @since 1.0.0
+     * @version 0.7.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.changeFolderName("new-folder-name", "sample-folder/sample-folder-2")
+     */
+    changeFolderName(newName:string, folderPath:string, lockOwner?: string): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                if(absolutePath === this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot rename root directory of the file tree`))
+                }
+
+                const topFolder = await this._findFolder(absolutePath)
+
+                let newPath: string
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                const doesFolderExist = Boolean(await this._findFolder(topFolder?.parentDirectory+`/${newName}`))
+
+                if(doesFolderExist){
+                    return reject(new ConflictError(`Folder with name ${newName} already exists in the specified directory`))
+                }
+
+                newPath = topFolder?.parentDirectory+`/${newName}`
+
+                const invalidNameError = validateName(newName, "folder")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                const parentDirectory = topFolder?.parentDirectory
+
+                await this._checkPermission(absolutePath, "folder", "write")
+                await this._checkLocks(absolutePath, lockOwner)
+                await this._runHooks("beforeRename", {kind:"folder", path:absolutePath, newName})
+                await this._withTransaction((session)=>this._relocateFolder(absolutePath, parentDirectory, newName, session),
+                    ()=>this._relocateFolder(newPath, parentDirectory, topFolder?.name))
+
+                this.emit("folderRenamed", {id:topFolder?._id as ObjectId, path:newPath, oldPath:absolutePath})
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Moves all the versions of a file to another folder in the file tree. This changes the `path` and `parentDirectory`
+     * metadata properties of every version of the file accordingly, and renames the file at the same time if the `newName` option is provided.
+     * Raises an error if the file or the destination folder does not exist, if a file with the same name already exists in the destination folder
+     * and the `overwrite` option is not true, if the file is locked by an owner other than `lockOwner`, or if a `beforeMove` or `beforeRename` hook vetoes the move.
+     * @param {string} filePath Absolute path of the file to move
+     * @param {string} destinationFolderPath Absolute path of the folder to move the file into, or the name of the folder storage
+     * collection (`folderCollectionName`) to move the file into the root directory
+     * @param {string} lockOwner Owner of the lock on the file, and on the folder or file it overwrites, if they are locked. Is optional.
+     * @param {MoveOptions} options Options for the move. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.moveFile("sample-folder/sample.txt", "sample-folder/subfolder-sample") //File now has path sample-folder/subfolder-sample/sample.txt
+     */
+    moveFile(filePath: string, destinationFolderPath: string, lockOwner?: string, options: MoveOptions = {}): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absoluteFilePath = this._resolvePath(filePath)
+                const absoluteDestinationPath = this._resolvePath(destinationFolderPath)
+
+                const file = await this._db.collection(this._bucketName+".files").findOne(await this._fileFilter(absoluteFilePath))
+
+                if(!file){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                const destinationFolder = await this._findFolder(absoluteDestinationPath)
+
+                if(!destinationFolder && absoluteDestinationPath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${destinationFolderPath} does not exist`))
+                }
+
+                const {newName = file.filename, overwrite = false} = options
+
+                const invalidNameError = validateName(newName, "file")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                const newPath = absoluteDestinationPath+`/${newName}`
+
+                if(newPath === absoluteFilePath || (!overwrite && await this._bucket.find(await this._fileFilter(newPath)).hasNext())){
+                    return reject(new ConflictError(`File with name ${newName} already exists in the specified directory`))
+                }
+
+                let latestId: ObjectId
+                await this._checkPermission(absoluteFilePath, "file", "delete")
+                await this._checkPermission(absoluteDestinationPath, "folder", "write")
+                const allFileVersions: GridFSFile[] = await this._bucket.find(await this._fileFilter(absoluteFilePath)).toArray()
+                await this._checkQuota(absoluteDestinationPath, allFileVersions.reduce((bytes, fileVersion)=>bytes+fileVersion.length, 0), absoluteFilePath)
+                await this._checkLocks(absoluteFilePath, lockOwner)
+                await this._runHooks("beforeMove", {kind:"file", path:absoluteFilePath, destinationPath:absoluteDestinationPath})
+                if(newName !== file.filename){
+                    await this._runHooks("beforeRename", {kind:"file", path:absoluteFilePath, newName})
+                }
+                const replacedEntries = overwrite ? await this._checkReplacedEntries(newPath, absoluteFilePath, lockOwner) : []
+                latestId = await this._getLatestFileId(absoluteFilePath) as ObjectId
+
+                for(const {kind, permanent} of replacedEntries){
+                    await this._deleteCheckedEntry(kind, newPath, permanent)
+                }
+                await this._withTransaction((session)=>this._relocateEntry("file", absoluteFilePath, absoluteDestinationPath, newName, session),
+                    ()=>this._relocateEntry("file", newPath, parentPath(absoluteFilePath), file.filename))
+
+                this.emit("fileRenamed", {id:latestId, path:newPath, oldPath:absoluteFilePath})
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Moves a folder to another folder in the file tree. This changes the `path` and `parentDirectory` properties of the folder,
+     * and the `path` and `parentDirectory` metadata properties of all subfolders and files in the folder. With the 'parentId' storage mode, only the document
+     * of the folder changes. The folder is renamed at the same time if the `newName` option is provided. Raises an error if the folder or the destination
+     * folder does not exist, if a folder with the same name already exists in the destination folder and the `overwrite` option is not true,
+     * if the destination folder is the folder itself or one of its subfolders, if a file in the folder is locked by an owner other than `lockOwner`,
+     * if a `beforeMove` or `beforeRename` hook vetoes the move, or if the user attempts to move the root directory.
+     * @param {string} folderPath Absolute path of the folder to move
+     * @param {string} destinationFolderPath Absolute path of the folder to move the folder into, or the name of the folder storage
+     * collection (`folderCollectionName`) to move the folder into the root directory
+     * @param {string} lockOwner Owner of the locks on the files in the folder, and in the folder or on the file it overwrites, if they are locked. Is optional.
+     * @param {MoveOptions} options Options for the move. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * await fileTree.moveFolder("sample-folder/subfolder-sample", "sample-folder/archive") //Folder now has path sample-folder/archive/subfolder-sample
+     */
+    moveFolder(folderPath: string, destinationFolderPath: string, lockOwner?: string, options: MoveOptions = {}): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absoluteFolderPath = this._resolvePath(folderPath)
+                const absoluteDestinationPath = this._resolvePath(destinationFolderPath)
+
+                if(absoluteFolderPath === this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot move root directory of the file tree`))
+                }
+
+                const topFolder = await this._findFolder(absoluteFolderPath)
+
+                if(!topFolder){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                const destinationFolder = await this._findFolder(absoluteDestinationPath)
+
+                if(!destinationFolder && absoluteDestinationPath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${destinationFolderPath} does not exist`))
+                }
+
+                if(absoluteDestinationPath === absoluteFolderPath || isAncestor(absoluteFolderPath, absoluteDestinationPath)){
+                    return reject(new InvalidArgumentError(`Cannot move folder with path ${folderPath} into itself or one of its subfolders`))
+                }
+
+                const {newName = topFolder.name, overwrite = false} = options
+
+                const invalidNameError = validateName(newName, "folder")
+                if(invalidNameError){
+                    return reject(new InvalidArgumentError(invalidNameError))
+                }
+
+                const newPath = absoluteDestinationPath+`/${newName}`
+
+                const doesFolderExist = newPath === absoluteFolderPath || (!overwrite && Boolean(await this._findFolder(newPath)))
+
+                if(doesFolderExist){
+                    return reject(new ConflictError(`Folder with name ${newName} already exists in the specified directory`))
+                }
+
+                await this._checkPermission(absoluteFolderPath, "folder", "delete")
+                await this._checkPermission(absoluteDestinationPath, "folder", "write")
+                await this._checkQuota(absoluteDestinationPath, (await this._getUsage(absoluteFolderPath, true)).bytes, absoluteFolderPath)
+                await this._checkLocks(absoluteFolderPath, lockOwner)
+                await this._runHooks("beforeMove", {kind:"folder", path:absoluteFolderPath, destinationPath:absoluteDestinationPath})
+                if(newName !== topFolder.name){
+                    await this._runHooks("beforeRename", {kind:"folder", path:absoluteFolderPath, newName})
+                }
+                const replacedEntries = overwrite ? await this._checkReplacedEntries(newPath, absoluteFolderPath, lockOwner) : []
+
+                for(const {kind, permanent} of replacedEntries){
+                    await this._deleteCheckedEntry(kind, newPath, permanent)
+                }
+                await this._withTransaction((session)=>this._relocateFolder(absoluteFolderPath, absoluteDestinationPath, newName, session),
+                    ()=>this._relocateFolder(newPath, topFolder.parentDirectory, topFolder.name))
+
+                this.emit("folderRenamed", {id:topFolder._id, path:newPath, oldPath:absoluteFolderPath})
+                resolve()
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Copies a file into another folder in the file tree. By default only the latest version of the file is copied.
+     * Raises an error if the file or the destination folder does not exist, or if a file with the same name already exists in the destination folder.
+     * If the copy fails part way through, the versions copied so far are deleted.
+     * @param {string} filePath Absolute path of the file to copy
+     * @param {string} destinationFolderPath Absolute path of the folder to copy the file into, or the name of the folder storage
+     * collection (`folderCollectionName`) to copy the file into the root directory
+     * @param {CopyOptions} options Options for the copy. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //id of the latest version of the copy, which has path sample-folder/subfolder-sample/sample.txt
+     * let id = await fileTree.copyFile("sample-folder/sample.txt", "sample-folder/subfolder-sample", {includeAllVersions:true})
+     */
+    copyFile(filePath: string, destinationFolderPath: string, options: CopyOptions = {}): Promise<ObjectId>{
+        return new Promise<ObjectId>(async (resolve, reject)=>{
+            try{
+                const absoluteFilePath = this._resolvePath(filePath)
+                const absoluteDestinationPath = this._resolvePath(destinationFolderPath)
+
+                const fileVersions: GridFSFile[] = await this._bucket.find({...await this._fileFilter(absoluteFilePath), ...(options.includeAllVersions ? {} : {"metadata.isLatest":true})})
+                    .sort({uploadDate:1}).toArray()
+
+                if(fileVersions.length === 0){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                const destinationFolder = await this._findFolder(absoluteDestinationPath)
+
+                if(!destinationFolder && absoluteDestinationPath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${destinationFolderPath} does not exist`))
+                }
+
+                const newPath = absoluteDestinationPath+`/${fileVersions[0].filename}`
+
+                if(await this._bucket.find(await this._fileFilter(newPath)).hasNext()){
+                    return reject(new ConflictError(`File with name ${fileVersions[0].filename} already exists in the specified directory`))
+                }
+
+                await this._checkPermission(absoluteFilePath, "file", "read")
+                await this._checkPermission(absoluteDestinationPath, "folder", "write")
+                await this._checkQuota(absoluteDestinationPath, fileVersions.reduce((bytes, file)=>bytes+file.length, 0))
+                await this._runHooks("beforeCopy", {kind:"file", path:absoluteFilePath, destinationPath:absoluteDestinationPath})
+
+                // GridFS uploads cannot be part of a transaction, so a partial copy is deleted instead
+                let latestId: ObjectId | undefined
+                const copyIds: ObjectId[] = []
+                try{
+                    for(const file of fileVersions){
+                        const id = await this._copyFileVersion(file, absoluteDestinationPath)
+                        copyIds.push(id)
+                        if(file.metadata?.isLatest){
+                            latestId = id
+                        }
+                    }
+                }
+                catch(e){
+                    for(const id of copyIds){
+                        await this._releaseSharedContent([id]).then(()=>this._bucket.delete(id)).catch(()=>undefined)
+                    }
+                    return reject(e)
+                }
+
+                this.emit("fileUploaded", {id:latestId as ObjectId, path:newPath})
+                resolve(latestId as ObjectId)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Copies a folder, including its subfolders and the files in them, into another folder in the file tree.
+     * By default only the latest version of each file is copied. Raises an error if the folder or the destination folder does not exist,
+     * if a folder with the same name already exists in the destination folder, if the destination folder is the folder itself or one of its subfolders,
+     * or if the user attempts to copy the root directory. Folders and files that the principal cannot read are not copied,
+     * and the copies keep the access control lists of the folders and files they were copied from.
+     * If the copy fails part way through, the folders and files copied so far are deleted.
+     * @param {string} folderPath Absolute path of the folder to copy
+     * @param {string} destinationFolderPath Absolute path of the folder to copy the folder into, or the name of the folder storage
+     * collection (`folderCollectionName`) to copy the folder into the root directory
+     * @param {CopyOptions} options Options for the copy. All properties are optional.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //id of the document representing the copy, which has path sample-folder/archive/subfolder-sample
+     * let id = await fileTree.copyFolder("sample-folder/subfolder-sample", "sample-folder/archive")
+     */
+    copyFolder(folderPath: string, destinationFolderPath: string, options: CopyOptions = {}): Promise<ObjectId>{
+        return new Promise<ObjectId>(async (resolve, reject)=>{
+            try{
+                const absoluteFolderPath = this._resolvePath(folderPath)
+                const absoluteDestinationPath = this._resolvePath(destinationFolderPath)
+
+                if(absoluteFolderPath === this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot copy root directory of the file tree`))
+                }
+
+                const topFolder = await this._findFolder(absoluteFolderPath)
+
+                if(!topFolder){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                const destinationFolder = await this._findFolder(absoluteDestinationPath)
+
+                if(!destinationFolder && absoluteDestinationPath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${destinationFolderPath} does not exist`))
+                }
+
+                if(absoluteDestinationPath === absoluteFolderPath || isAncestor(absoluteFolderPath, absoluteDestinationPath)){
+                    return reject(new InvalidArgumentError(`Cannot copy folder with path ${folderPath} into itself or one of its subfolders`))
+                }
+
+                const newPath = absoluteDestinationPath+`/${topFolder.name}`
+
+                const doesFolderExist = Boolean(await this._findFolder(newPath))
+
+                if(doesFolderExist){
+                    return reject(new ConflictError(`Folder with name ${topFolder.name} already exists in the specified directory`))
+                }
+
+                const replacePrefix = (path: string) => newPath+path.slice(absoluteFolderPath.length)
+                const aclOf = (folder: Document) => folder.acl === undefined ? {} : {acl:folder.acl}
+
+                let canRead: ReadFilter
+                await this._checkPermission(absoluteFolderPath, "folder", "read")
+                await this._checkPermission(absoluteDestinationPath, "folder", "write")
+                canRead = await this._getReadFilter(absoluteFolderPath)
+
+                let allFiles: GridFSFile[]
+                let subfolders: Document[]
+                allFiles = (await this._withPaths(await this._bucket.find({...await this._folderFilesFilter(absoluteFolderPath, true), ...(options.includeAllVersions ? {} : {"metadata.isLatest":true})})
+                    .sort({uploadDate:1}).toArray())).filter((file)=>canRead(file.metadata?.path, file.metadata?.acl))
+                await this._checkQuota(absoluteDestinationPath, allFiles.reduce((bytes, file)=>bytes+file.length, 0))
+                await this._runHooks("beforeCopy", {kind:"folder", path:absoluteFolderPath, destinationPath:absoluteDestinationPath})
+                subfolders = (await this._findSubfolders(absoluteFolderPath, true)).filter((subfolder)=>canRead(subfolder.path))
+
+                // GridFS uploads cannot be part of a transaction, so a partial copy is deleted instead
+                let copyId: ObjectId | undefined
+                try{
+                    const result = await this._db.collection(this._folderCollectionName).insertOne({name:topFolder.name, ...await this._locationOf(absoluteDestinationPath, topFolder.name), customMetadata:{...topFolder.customMetadata}, ...aclOf(topFolder)})
+                    copyId = result.insertedId
+
+                    let subfolderCopies: Document[]
+                    if(this._storageMode === "path"){
+                        subfolderCopies = subfolders.map((subfolder)=>({
+                            name:subfolder.name,
+                            path:replacePrefix(subfolder.path),
+                            parentDirectory:replacePrefix(subfolder.parentDirectory),
+                            customMetadata:{...subfolder.customMetadata},
+                            ...aclOf(subfolder)
+                        }))
+                    }
+                    else{
+                        // Subfolders come after their parent folder, so the id of the copy of their parent folder is known unless it was not copied
+                        const copyIds = new Map<string, ObjectId>([[topFolder._id.toHexString(), result.insertedId]])
+                        subfolderCopies = []
+                        for(const subfolder of subfolders){
+                            const parentId = copyIds.get(subfolder.parentId.toHexString())
+                            if(parentId){
+                                const subfolderCopyId = new ObjectId()
+                                copyIds.set(subfolder._id.toHexString(), subfolderCopyId)
+                                subfolderCopies.push({_id:subfolderCopyId, name:subfolder.name, parentId, customMetadata:{...subfolder.customMetadata}, ...aclOf(subfolder)})
+                            }
+                        }
+                    }
+
+                    if(subfolderCopies.length > 0){
+                        await this._db.collection(this._folderCollectionName).insertMany(subfolderCopies)
+                    }
+
+                    for(const file of allFiles){
+                        await this._copyFileVersion(file, replacePrefix(file.metadata?.parentDirectory))
+                    }
+                }
+                catch(e){
+                    // The folder at the new path is only deleted if it is the copy
+                    if(copyId){
+                        await this._deleteEntry("folder", newPath).catch(()=>undefined)
+                    }
+                    return reject(e)
+                }
+
+                this.emit("folderCreated", {id:copyId, path:newPath})
+                resolve(copyId)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Lists all the versions of a file in the file tree, ordered from oldest to newest.
+     * Raises an error if the file does not exist.
+     * @param {string} filePath Absolute path of the file
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Array of objects with the id, version number, size, upload date and custom metadata of each version
+     * let versions = await fileTree.listFileVersions("sample-folder/sample.txt")
+     */
+    listFileVersions(filePath: string): Promise<FileVersion[]>{
+        return new Promise<FileVersion[]>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(filePath)
+                const allFileVersions: GridFSFile[] = await this._bucket.find(await this._fileFilter(absolutePath)).sort({uploadDate:1, _id:1}).toArray()
+
+                if(allFileVersions.length === 0){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                await this._checkPermission(absolutePath, "file", "read")
+
+                resolve(allFileVersions.map((file, index)=>{
+                    const {path, parentDirectory, parentId, isLatest, sha256 = null, contentId, acl, contentType, ...customMetadata} = file.metadata as any
+                    return {
+                        id:file._id,
+                        version:index+1,
+                        size:file.length,
+                        uploadDate:file.uploadDate,
+                        isLatest,
+                        sha256,
+                        contentType:contentTypeOf(file),
+                        customMetadata
+                    }
+                }))
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Makes an older version of a file the latest version again. The selected version is copied into a new version of the file,
+     * so the history of the file is kept, and the `fileVersioned` event is emitted. If the selected version is already the latest version, nothing is changed.
+     * Raises an error if the file or the selected version does not exist, if the file is locked by an owner other than the `lockOwner` option,
+     * or if a `beforeVersionRestore` hook vetoes the restoration.
+     * @param {string} filePath Absolute path of the file
+     * @param {RestoreVersionOptions} options Selects the version to restore by its version number, its id,
+     * or the date at which it was the latest version, and can provide the owner of the lock on the file
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //id of the new latest version, which has the same data as the first version of the file
+     * let id = await fileTree.restoreFileVersion("sample-folder/sample.txt", {version:1})
+     */
+    restoreFileVersion(filePath: string, options: RestoreVersionOptions): Promise<ObjectId>{
+        return new Promise<ObjectId>(async (resolve, reject)=>{
+            try{
+                let file: GridFSFile
+
+                file = await this._findFileVersion(filePath, options)
+
+                await this._checkPermission(file.metadata?.path, "file", "write")
+
+                if(file.metadata?.isLatest){
+                    return resolve(file._id)
+                }
+
+                await this._checkQuota(file.metadata?.parentDirectory, file.length)
+                await this._checkLocks(file.metadata?.path, options.lockOwner)
+                await this._runHooks("beforeVersionRestore", {path:file.metadata?.path, versionId:file._id})
+
+                const previousId = await this._getLatestFileId(file.metadata?.path)
+                let id: ObjectId
+                id = await this._copyFileVersion(file, file.metadata?.parentDirectory, {isLatest:false})
+                await this._makeLatestVersion(file.metadata?.path, id)
+
+                this.emit("fileVersioned", {id, path:file.metadata?.path, previousId})
+                resolve(id)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * @description Deletes older versions of a file from the GridFS bucket of the file tree. A version is deleted if it is not one of the
+     * `keepLast` most recent versions, or if it is older than `maxAge` milliseconds. The latest version of the file is never deleted.
+     * Emits the `fileVersionsPruned` event if versions were deleted. Raises an error if the file does not exist, if the policy is invalid,
+     * if the file is locked by an owner other than the `lockOwner` property of the policy, or if a `beforePrune` hook vetoes the deletion.
+     * @param {string} filePath Absolute path of the file
+     * @param {PruneOptions} policy Policy deciding which versions to keep. At least one of `keepLast` and `maxAge` must be provided.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+     * //Keeps the 5 most recent versions, as long as they are less than 30 days old. Returns the ids of the deleted versions.
+     * let deletedIds = await fileTree.pruneFileVersions("sample-folder/sample.txt", {keepLast:5, maxAge:30*24*60*60*1000})
+     */
+    pruneFileVersions(filePath: string, policy: PruneOptions): Promise<ObjectId[]>{
+        return new Promise<ObjectId[]>(async (resolve, reject)=>{
+            try{
+                const {keepLast, maxAge, lockOwner} = policy
+
+                if(keepLast === undefined && maxAge === undefined){
+                    return reject(new InvalidArgumentError("Missing 'keepLast' or 'maxAge' property for 'policy' parameter."))
+                }
+
+                if(keepLast !== undefined && (!Number.isInteger(keepLast) || keepLast < 1)){
+                    return reject(new InvalidArgumentError("Property 'keepLast' of 'policy' parameter must be a positive integer"))
+                }
+
+                if(maxAge !== undefined && (typeof maxAge !== "number" || maxAge < 0)){
+                    return reject(new InvalidArgumentError("Property 'maxAge' of 'policy' parameter must be a non-negative number"))
+                }
+
+                const allFileVersions: GridFSFile[] = await this._bucket.find(await this._fileFilter(this._resolvePath(filePath))).sort({uploadDate:-1, _id:-1}).toArray()
+
+                if(allFileVersions.length === 0){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
+
+                const absolutePath = this._resolvePath(filePath)
+                await this._checkPermission(absolutePath, "file", "delete")
+
+                const now = Date.now()
+                const prunedIds = allFileVersions.filter((file, index)=>{
+                    const isTooOld = maxAge !== undefined && now-file.uploadDate.getTime() > maxAge
+                    const isBeyondKeepLast = keepLast !== undefined && index >= keepLast
+                    return !file.metadata?.isLatest && (isTooOld || isBeyondKeepLast)
+                }).map((file)=>file._id)
+
+                if(prunedIds.length === 0){
+                    return resolve([])
+                }
+
+                await this._checkLocks(absolutePath, lockOwner)
+                await this._runHooks("beforePrune", {path:absolutePath, versionIds:prunedIds})
+
+                for(const id of prunedIds){
+                    await this._releaseSharedContent([id])
+                    await this._bucket.delete(id)
+                }
+
+                this.emit("fileVersionsPruned", {id:allFileVersions.find((file)=>file.metadata?.isLatest)?._id as ObjectId, path:absolutePath, deletedIds:prunedIds})
+                resolve(prunedIds)
+            }
+            catch(e){
+                return reject(e)
+            }
+        })
+    }
+
+    /**
+     * Resolves a path provided to a method into a normalized absolute path, relative to the current working directory
+     * unless it starts with the name of the root directory. Relative paths never go above the folder this file tree is confined to.
+     */
+    private _resolvePath(path: string, isRelative: boolean = false): string{
+        return resolvePath(path, this._currentWorkingDirectory, this._folderCollectionName, isRelative, this._basePath)
+    }
+
+    /**
+     * Runs the hooks registered under `name` one after the other with the same context. The first hook that throws an error stops the others.
+     */
+    private async _runHooks<H extends keyof FileTreeHooks>(name: H, context: FileTreeHooks[H]): Promise<void>{
+        const hooks: FileTreeHook<H>[] = this._hooks[name] ?? []
+        for(const hook of hooks){
+            await hook(context)
+        }
+    }
+
+    /**
+     * Throws an error if the method called `methodName` is called on a view of the file tree returned by the `withPrincipal` method.
+     */
+    private _checkTrusted(methodName: string): void{
+        if(this._principal){
+            throw new PermissionError(`Method ${methodName} cannot be called on behalf of a principal`)
+        }
+    }
+    /**
+     * Throws an error if the method called `methodName` is called on a handle returned by the `at` method, as it affects the whole file tree.
+     */
+    private _checkUnconfined(methodName: string): void{
+        if(this._basePath !== this._folderCollectionName){
+            throw new PermissionError(`Method ${methodName} cannot be called on a handle confined to the folder with path ${this._basePath}`)
+        }
+    }
+    /**
+     * Throws an error if `path` is outside of the folder this file tree is confined to.
+     */
+    private _checkConfinement(path: string): void{
+        if(this._basePath !== this._folderCollectionName && !isWithin(this._basePath, path)){
+            throw new PermissionError(`Path ${path} is outside of the folder with path ${this._basePath}`)
+        }
+    }
+    /**
+     * Returns the access control lists that apply to a folder or file: its own list and the lists of all the folders containing it.
+     */
+    private async _getAccessControlLists(path: string, kind: "folder" | "file"): Promise<(AccessControlEntry[] | undefined)[]>{
+        const folders = await this._findAncestorFolders(kind === "folder" ? path : parentPath(path), {"acl":{$exists:true}})
+        const acls: (AccessControlEntry[] | undefined)[] = folders.map((folder)=>folder.acl)
+
+        if(kind === "file"){
+            const file = await this._db.collection(this._bucketName+".files").find(await this._fileFilter(path)).sort({"metadata.isLatest":-1}).limit(1).next()
+            acls.push(file?.metadata?.acl)
+        }
+        return acls
+    }
+    /**
+     * Throws an error if the principal does not have `permission` on the folder or file at `path`, or if `path` is outside of the folder
+     * this file tree is confined to. Every principal can read the root directory, which cannot have an access control list, but has no other permission on it.
+     */
+    private async _checkPermission(path: string, kind: "folder" | "file", permission: Permission): Promise<void>{
+        this._checkConfinement(path)
+
+        if(!this._principal){
+            return
+        }
+        const isAllowed = kind === "folder" && path === this._folderCollectionName ? permission === "read"
+            : hasPermission(await this._getAccessControlLists(path, kind), this._principal, permission)
+
+        if(!isAllowed){
+            throw new PermissionError(`User ${this._principal.user} does not have ${permission} permission on ${kind} with path ${path}`)
+        }
+    }
+    /**
+     * Loads the access control lists of the folder at `folderPath`, of the folders containing it and of the folders inside it, and returns
+     * a function telling whether the principal can read a folder or file inside it, given its path and, for files, its own access control list.
+     * Folders and files outside of the folder this file tree is confined to cannot be read.
+     */
+    private async _getReadFilter(folderPath: string): Promise<ReadFilter>{
+        const principal = this._principal
+        const basePath = this._basePath
+        if(!principal){
+            return basePath === this._folderCollectionName ? ()=>true : (path)=>isWithin(basePath, path)
+        }
+
+        const folders = [
+            ...await this._findAncestorFolders(folderPath, {"acl":{$exists:true}}),
+            ...await this._findSubfolders(folderPath, true, {"acl":{$exists:true}})
+        ]
+        const folderAcls = new Map<string, AccessControlEntry[]>(folders.map((folder)=>[folder.path, folder.acl]))
+
+        return (path, fileAcl)=>isWithin(basePath, path) && hasPermission([...ancestorPaths(path).map((ancestorPath)=>folderAcls.get(ancestorPath)), fileAcl], principal, "read")
+    }
+    /**
+     * Creates the folder `name` in the folder `parentDirectory` after running the `beforeFolderCreate` hooks, and emits the `folderCreated` event.
+     */
+    private async _insertFolder(name: string, parentDirectory: string, customMetadata: Record<string, any> = {}): Promise<InsertOneResult>{
+        const path = parentDirectory+`/${name}`
+        const context = {name, path, customMetadata}
+
+        await this._checkPermission(parentDirectory, "folder", "write")
+        await this._runHooks("beforeFolderCreate", context)
+        const result = await this._db.collection(this._folderCollectionName).insertOne({name, ...await this._locationOf(parentDirectory, name), customMetadata:context.customMetadata})
+
+        this.emit("folderCreated", {id:result.insertedId, path})
+        return result
+    }
+    /**
+     * Resolves to the properties locating the folder or file `name` in the folder at `parentDirectory`, to store in the document of a folder
+     * or in the metadata of a file: its path and the path of its parent folder, or the id of its parent folder with the 'parentId' storage mode.
+     * Throws an error if the parent folder does not exist with the 'parentId' storage mode.
+     */
+    private async _locationOf(parentDirectory: string, name: string): Promise<Document>{
+        if(this._storageMode === "path"){
+            return {parentDirectory, path:parentDirectory+`/${name}`}
+        }
+        const parentId = await this._resolver.idOf(parentDirectory)
+        if(parentId === undefined){
+            throw new NotFoundError(`Folder with path ${parentDirectory} does not exist`)
+        }
+        return {parentId}
+    }
+    /**
+     * Resolves to a query matching the document of the folder at `folderPath`, which matches nothing if the folder does not exist.
+     */
+    private async _folderFilter(folderPath: string): Promise<Document>{
+        if(this._storageMode === "path"){
+            return {"path":folderPath}
+        }
+        const id = await this._resolver.idOf(folderPath)
+        return {"_id":id instanceof ObjectId ? id : null}
+    }
+    /**
+     * Resolves to the document of the folder at `folderPath`, with its `path` and `parentDirectory` properties whatever the storage mode,
+     * or to null if the folder does not exist. The root directory has no document.
+     */
+    private async _findFolder(folderPath: string): Promise<Document | null>{
+        const folder = await this._db.collection(this._folderCollectionName).findOne(await this._folderFilter(folderPath))
+        return folder && {...folder, path:folderPath, parentDirectory:parentPath(folderPath)}
+    }
+    /**
+     * Resolves to the subfolders of the folder at `folderPath`, or to the folders at any depth inside it if `recursive` is true, that match `filter`,
+     * with their `path` and `parentDirectory` properties whatever the storage mode.
+     */
+    private async _findSubfolders(folderPath: string, recursive: boolean, filter: Document = {}): Promise<Document[]>{
+        const folders = this._db.collection(this._folderCollectionName)
+
+        if(this._storageMode === "path"){
+            return folders.find({"parentDirectory":recursive ? subtreeRegExp(folderPath) : folderPath, ...filter}).toArray()
+        }
+
+        if(!recursive){
+            const parentId = await this._resolver.idOf(folderPath)
+            return parentId === undefined ? [] : (await folders.find({"parentId":parentId, ...filter}).toArray())
+                .map((folder)=>({...folder, path:folderPath+`/${folder.name}`, parentDirectory:folderPath}))
+        }
+
+        const subtree = await this._resolver.subtreeOf(folderPath)
+        if(Object.keys(filter).length === 0){
+            return subtree
+        }
+        const subtreeFolders = new Map(subtree.map((folder)=>[folder._id.toHexString(), folder]))
+        return (await folders.find({"_id":{$in:subtree.map((folder)=>folder._id)}, ...filter}).toArray())
+            .map((folder)=>({...folder, path:subtreeFolders.get(folder._id.toHexString())?.path, parentDirectory:subtreeFolders.get(folder._id.toHexString())?.parentDirectory}))
+    }
+    /**
+     * Resolves to the folders among the folder at `path` and the folders containing it that match `filter`, with their `path` property
+     * whatever the storage mode.
+     */
+    private async _findAncestorFolders(path: string, filter: Document): Promise<Document[]>{
+        if(this._storageMode === "path"){
+            return this._db.collection(this._folderCollectionName).find({"path":{$in:ancestorPaths(path)}, ...filter}).toArray()
+        }
+
+        const ancestorIds = new Map<string, string>()
+        for(const ancestorPath of ancestorPaths(path)){
+            const id = await this._resolver.idOf(ancestorPath)
+            if(id instanceof ObjectId){
+                ancestorIds.set(id.toHexString(), ancestorPath)
+            }
+        }
+        const folders = await this._db.collection(this._folderCollectionName).find({"_id":{$in:[...ancestorIds.keys()].map((id)=>new ObjectId(id))}, ...filter}).toArray()
+        return folders.map((folder)=>({...folder, path:ancestorIds.get(folder._id.toHexString())}))
+    }
+    /**
+     * Resolves to a query matching all the versions of the file at `filePath`, which matches nothing if the folder containing it does not exist.
+     */
+    private async _fileFilter(filePath: string): Promise<Document>{
+        if(this._storageMode === "path"){
+            return {"metadata.path":filePath}
+        }
+        const parentId = await this._resolver.idOf(parentPath(filePath))
+        return parentId === undefined ? {"_id":null} : {"metadata.parentId":parentId, "filename":baseName(filePath)}
+    }
+    /**
+     * Resolves to a query matching the versions of the files in the folder at `folderPath`, or in the folders at any depth inside it as well
+     * if `recursive` is true.
+     */
+    private async _folderFilesFilter(folderPath: string, recursive: boolean): Promise<Document>{
+        if(this._storageMode === "path"){
+            return {"metadata.parentDirectory":recursive ? subtreeRegExp(folderPath) : folderPath}
+        }
+        const parentId = await this._resolver.idOf(folderPath)
+        if(parentId === undefined){
+            return {"_id":null}
+        }
+        if(!recursive){
+            return {"metadata.parentId":parentId}
+        }
+        const subtree = await this._resolver.subtreeOf(folderPath)
+        return {"metadata.parentId":{$in:[parentId, ...subtree.map((folder)=>folder._id)]}}
+    }
+    /**
+     * Sets the `metadata.path` and `metadata.parentDirectory` properties of GridFS file documents read with the 'parentId' storage mode,
+     * so that they can be used like in the 'path' storage mode. Resolves to the same documents.
+     */
+    private async _withPaths(files: GridFSFile[]): Promise<GridFSFile[]>{
+        return this._storageMode === "path" ? files : this._resolver.setPaths(files, "file")
+    }
+
+    /**
+     * Resolves to the id of the latest version of the file at `filePath`, or of one of its versions if none is flagged as the latest,
+     * or to null if the file does not exist.
+     */
+    private async _getLatestFileId(filePath: string): Promise<ObjectId | null>{
+        const file = await this._db.collection(this._bucketName+".files").find(await this._fileFilter(filePath)).sort({"metadata.isLatest":-1}).limit(1).next()
+        return file?._id ?? null
+    }
+
+    /**
+     * Throws an error if the file at `path`, or a file in the folder at `path`, is locked by an owner other than `lockOwner` and the lock has not expired.
+     */
+    private async _checkLocks(path: string, lockOwner?: string): Promise<void>{
+        const lock = await this._db.collection<LockDocument>(this._lockCollectionName).findOne({
+            "_id":subtreeRegExp(path),
+            "expiresAt":{$gt:new Date()},
+            ...(lockOwner === undefined ? {} : {"owner":{$ne:lockOwner}})
+        })
+
+        if(lock){
+            throw new LockedError(`File with path ${lock._id} is locked by ${lock.owner} until ${lock.expiresAt.toISOString()}`)
+        }
+    }
+    /**
+     * Moves the locks on the file at `path`, or on the files in the folder at `path`, to the new path of the files after `path` changed to `newPath`.
+     * Locks are identified by the path of the file, so each one is replaced by a new lock, which also replaces an expired lock left at the new path.
+     */
+    private async _relocateLocks(path: string, newPath: string, session?: ClientSession): Promise<void>{
+        const locks = await this._db.collection<LockDocument>(this._lockCollectionName).find({"_id":subtreeRegExp(path)},{session}).toArray()
+
+        for(const {_id, ...lock} of locks){
+            await this._db.collection<LockDocument>(this._lockCollectionName).deleteOne({"_id":_id},{session})
+            await this._db.collection<LockDocument>(this._lockCollectionName).replaceOne({"_id":newPath+_id.slice(path.length)}, lock, {upsert:true, session})
+        }
+    }
+
+    /**
+     * Finds the version of a file selected by `options`, or the latest version if no selector is provided.
+     * Throws an error if the file or the selected version does not exist.
+     */
+    private async _findFileVersion(filePath: string, options: FileVersionOptions): Promise<GridFSFile>{
+        const {version, versionId, asOf} = options
+        const absolutePath = this._resolvePath(filePath)
+
+        if([version, versionId, asOf].filter((selector)=>selector !== undefined).length > 1){
+            throw new InvalidArgumentError("Only one of the 'version', 'versionId', or 'asOf' options can be provided")
+        }
+
+        if(version === undefined && versionId === undefined && asOf === undefined){
+            const latestFile = (await this._bucket.find({...await this._fileFilter(absolutePath), "metadata.isLatest":true}).toArray())[0]
+            if(!latestFile){
+                throw new NotFoundError(`File with path ${filePath} does not exist`)
+            }
+            return (await this._withPaths([latestFile]))[0]
+        }
+
+        const allFileVersions: GridFSFile[] = await this._bucket.find(await this._fileFilter(absolutePath)).sort({uploadDate:1, _id:1}).toArray()
+
+        if(allFileVersions.length === 0){
+            throw new NotFoundError(`File with path ${filePath} does not exist`)
+        }
+
+        let file: GridFSFile | undefined
+        if(version !== undefined){
+            file = allFileVersions[version-1]
+        }
+        else if(versionId !== undefined){
+            file = allFileVersions.find((fileVersion)=>fileVersion._id.equals(versionId))
+        }
+        else{
+            file = allFileVersions.filter((fileVersion)=>fileVersion.uploadDate <= (asOf as Date)).pop()
+        }
+
+        if(!file){
+            throw new NotFoundError(`Selected version of file with path ${filePath} does not exist`)
+        }
+        return (await this._withPaths([file]))[0]
+    }
+
+    /**
+     * Changes the path of the folder at `folderPath` to `newParentDirectory/newName`, and rewrites the `path` and `parentDirectory` properties of
+     * all of its subfolders and of all the versions of the files in it accordingly. With the 'parentId' storage mode, only the document of the folder
+     * changes. The locks on the files in it follow them.
+     */
+    private async _relocateFolder(folderPath: string, newParentDirectory: string, newName: string, session?: ClientSession): Promise<void>{
+        const newPath = newParentDirectory+`/${newName}`
+
+        if(this._storageMode === "parentId"){
+            await this._db.collection(this._folderCollectionName).updateOne(await this._folderFilter(folderPath),
+                {$set:{"name":newName, ...await this._locationOf(newParentDirectory, newName)}},{session})
+            this._resolver.clear()
+            return this._relocateLocks(folderPath, newPath, session)
+        }
+
+        await this._db.collection(this._folderCollectionName).updateOne({"path":folderPath},{$set:{"path":newPath, "name":newName, "parentDirectory":newParentDirectory}},{session})
+        await this._db.collection(this._folderCollectionName).updateMany({"parentDirectory":subtreeRegExp(folderPath)},
+        [{$set:{"path":
+        {$replaceOne:{
+            input:"$path",
+            find:folderPath,
+            replacement:newPath}},
+        "parentDirectory":
+        {$replaceOne:{
+            input:"$parentDirectory",
+            find:folderPath,
+            replacement:newPath}},
+        }}],{session})
+
+        await this._db.collection(this._bucketName+'.files').updateMany({"metadata.parentDirectory":subtreeRegExp(folderPath)},
+        [{$set:{"metadata.path":
+        {$replaceOne:{
+            input:"$metadata.path",
+            find:folderPath,
+            replacement:newPath}},
+        "metadata.parentDirectory":
+        {$replaceOne:{
+            input:"$metadata.parentDirectory",
+            find:folderPath,
+            replacement:newPath}}
+        }}],{session})
+
+        await this._relocateLocks(folderPath, newPath, session)
+    }
+    /**
+     * Moves a folder, or all the versions of a file, into the folder `newParentDirectory` under the name `newName`.
+     */
+    private async _relocateEntry(kind: "folder" | "file", path: string, newParentDirectory: string, newName: string, session?: ClientSession): Promise<void>{
+        if(kind === "folder"){
+            return this._relocateFolder(path, newParentDirectory, newName, session)
+        }
+        const location = await this._locationOf(newParentDirectory, newName)
+        const metadataLocation: Document = {}
+        for(const field of Object.keys(location)){
+            metadataLocation["metadata."+field] = location[field]
+        }
+        await this._db.collection(this._bucketName+".files").updateMany(await this._fileFilter(path),
+            {$set:{"filename":newName, ...metadataLocation}},{session})
+        await this._relocateLocks(path, newParentDirectory+`/${newName}`, session)
+    }
+    /**
+     * Permanently deletes a folder with everything in it, or all the versions of a file, and the locks on the deleted files. Files are deleted before folders,
+     * so that outside of a transaction a failure part way through never leaves files in folders that no longer exist. Deleting again finishes the deletion.
+     */
+    private async _deleteEntry(kind: "folder" | "file", path: string, session?: ClientSession): Promise<void>{
+        const fileQuery = kind === "folder" ? await this._folderFilesFilter(path, true) : await this._fileFilter(path)
+        const allFileIds = (await this._bucket.find(fileQuery, {session}).toArray()).map((file)=>file._id)
+
+        await this._releaseSharedContent(allFileIds, session)
+        await this._db.collection(this._bucketName+".files").deleteMany({"_id":{$in:allFileIds}},{session})
+        await this._db.collection(this._bucketName+".chunks").deleteMany({"files_id":{$in:allFileIds}},{session})
+        await this._db.collection(this._lockCollectionName).deleteMany({"_id":subtreeRegExp(path)},{session})
+
+        if(kind === "folder" && this._storageMode === "parentId"){
+            const subfolderIds = (await this._resolver.subtreeOf(path)).map((subfolder)=>subfolder._id)
+            const folderFilter = await this._folderFilter(path)
+            await this._db.collection(this._folderCollectionName).deleteMany({"_id":{$in:subfolderIds}},{session})
+
+            if(path !== this._folderCollectionName){
+                await this._db.collection(this._folderCollectionName).deleteOne(folderFilter,{session})
+            }
+            this._resolver.clear()
+        }
+        else if(kind === "folder"){
+            await this._db.collection(this._folderCollectionName).deleteMany({"parentDirectory":subtreeRegExp(path)},{session})
+
+            if(path !== this._folderCollectionName){
+                await this._db.collection(this._folderCollectionName).deleteOne({"path":path},{session})
+            }
+        }
+    }
+    /**
+     * Hands the chunks of each file of `fileIds` that other files share with deduplicated storage over to one of those other files,
+     * so that the files of `fileIds` can be deleted without deleting the data of the other files.
+     */
+    private async _releaseSharedContent(fileIds: ObjectId[], session?: ClientSession): Promise<void>{
+        const sharingFiles = await this._db.collection(this._bucketName+".files").find({"metadata.contentId":{$in:fileIds}, "_id":{$nin:fileIds}},{session}).toArray()
+        const newContentIds = new Map<string, ObjectId>()
+
+        for(const sharingFile of sharingFiles){
+            const contentId: ObjectId = sharingFile.metadata.contentId
+            const newContentId = newContentIds.get(contentId.toHexString())
+
+            if(newContentId){
+                await this._db.collection(this._bucketName+".files").updateOne({"_id":sharingFile._id},{$set:{"metadata.contentId":newContentId}},{session})
+                continue
+            }
+
+            newContentIds.set(contentId.toHexString(), sharingFile._id)
+            await this._db.collection(this._bucketName+".chunks").updateMany({"files_id":contentId},{$set:{"files_id":sharingFile._id}},{session})
+            await this._db.collection(this._bucketName+".files").updateOne({"_id":sharingFile._id},{$unset:{"metadata.contentId":""}},{session})
+        }
+    }
+    /**
+     * Counts the bytes, files and versions of the files in a folder and in all of its subfolders.
+     */
+    private async _getUsage(folderPath: string, includeAllVersions: boolean): Promise<Omit<FolderUsage, "quota">>{
+        const [usage] = await this._db.collection(this._bucketName+".files").aggregate([
+            {$match:{...await this._folderFilesFilter(folderPath, true), ...(includeAllVersions ? {} : {"metadata.isLatest":true})}},
+            {$group:{
+                _id:this._storageMode === "path" ? "$metadata.path" : {parentId:"$metadata.parentId", filename:"$filename"},
+                bytes:{$sum:"$length"},
+                storedBytes:{$sum:{$cond:[{$ifNull:["$metadata.contentId", false]}, 0, "$length"]}},
+                versionCount:{$sum:1}
+            }},
+            {$group:{_id:null, bytes:{$sum:"$bytes"}, storedBytes:{$sum:"$storedBytes"}, fileCount:{$sum:1}, versionCount:{$sum:"$versionCount"}}}
+        ]).toArray()
+
+        return {bytes:usage?.bytes ?? 0, storedBytes:usage?.storedBytes ?? 0, fileCount:usage?.fileCount ?? 0, versionCount:usage?.versionCount ?? 0}
+    }
+    /**
+     * Throws an error if writing `additionalBytes` into the folder at `folderPath` would go over the quota of that folder or of a folder containing it.
+     * Folders that contain `sourcePath` are not checked, because data moved from `sourcePath` is already counted in their usage.
+     */
+    private async _checkQuota(folderPath: string, additionalBytes: number, sourcePath?: string): Promise<void>{
+        const quotaFolders = await this._findAncestorFolders(folderPath, {"quota":{$exists:true}})
+
+        for(const quotaFolder of quotaFolders){
+            if(sourcePath && isAncestor(quotaFolder.path, sourcePath)){
+                continue
+            }
+            const {bytes} = await this._getUsage(quotaFolder.path, true)
+            if(bytes+additionalBytes > quotaFolder.quota){
+                throw new QuotaExceededError(`Storage quota of folder with path ${quotaFolder.path} exceeded (${bytes+additionalBytes} of ${quotaFolder.quota} bytes)`)
+            }
+        }
+    }
+    /**
+     * Finds the inconsistencies of the collections of the file tree, in the order they must be repaired in: paths that do not match before
+     * the folders containing them are checked, and missing folders from the shallowest to the deepest.
+     */
+    private async _findTreeIssues(): Promise<TreeIssue[]>{
+        const folders = this._db.collection(this._folderCollectionName)
+        const files = this._db.collection(this._bucketName+".files")
+        const issues: TreeIssue[] = []
+        // Folders and files whose path does not match are left out of the missing folders until they are repaired
+        const mismatchedIds = new Set<string>()
+
+        if(this._storageMode === "path"){
+            const mismatchedFolders = await folders.find({"path":{$exists:true}, $expr:{$ne:["$path", {$concat:["$parentDirectory", "/", "$name"]}]}}).toArray()
+            for(const folder of mismatchedFolders){
+                mismatchedIds.add(folder._id.toHexString())
+                issues.push({kind:"folderPath", path:folder.path, ids:[folder._id], message:`Folder with path ${folder.path} has name ${folder.name} and parent folder ${folder.parentDirectory}`})
+            }
+
+            const mismatchedFiles = await files.find({"metadata.path":{$exists:true}, $expr:{$ne:["$metadata.path", {$concat:["$metadata.parentDirectory", "/", "$filename"]}]}})
+                .sort({uploadDate:1, _id:1}).toArray()
+            const mismatchedPaths = new Map<string, ObjectId[]>()
+            for(const file of mismatchedFiles){
+                mismatchedIds.add(file._id.toHexString())
+                mismatchedPaths.set(file.metadata.path, [...mismatchedPaths.get(file.metadata.path) ?? [], file._id])
+            }
+            for(const [path, ids] of mismatchedPaths){
+                issues.push({kind:"filePath", path, ids, message:`${ids.length} version(s) of file with path ${path} have another name or parent folder`})
+            }
+        }
+
+        const fileGroups = await files.aggregate([
+            {$match:{[this._storageMode === "path" ? "metadata.path" : "metadata.parentId"]:{$exists:true}}},
+            {$group:{
+                _id:this._storageMode === "path" ? "$metadata.path" : {parentId:"$metadata.parentId", filename:"$filename"},
+                latestCount:{$sum:{$cond:[{$eq:["$metadata.isLatest", true]}, 1, 0]}}
+            }},
+            {$match:{"latestCount":{$ne:1}}}
+        ], {allowDiskUse:true}).toArray()
+        for(const {_id:key, latestCount} of fileGroups){
+            const fileFilter = this._storageMode === "path" ? {"metadata.path":key} : {"metadata.parentId":key.parentId, "filename":key.filename}
+            const versions = await files.find(fileFilter, {projection:{"_id":1}}).sort({uploadDate:1, _id:1}).toArray()
+            const parentDirectory = this._storageMode === "path" ? parentPath(key) : await this._resolver.pathOf(key.parentId)
+            const path = this._storageMode === "path" ? key : parentDirectory === undefined ? null : parentDirectory+`/${key.filename}`
+            issues.push({kind:"latestVersion", path, ids:versions.map((version)=>version._id),
+                message:`File ${path === null ? `named ${key.filename} in folder with id ${key.parentId}` : `with path ${path}`} has ${latestCount} latest versions`})
+        }
+
+        // Ids of the folders and files directly inside each missing folder, by path of the folder, or by id with the 'parentId' storage mode
+        const orphans = new Map<string, ObjectId[]>()
+        const addOrphan = (parentKey: string, id: ObjectId)=>{
+            if(!mismatchedIds.has(id.toHexString())){
+                orphans.set(parentKey, [...orphans.get(parentKey) ?? [], id])
+            }
+        }
+
+        if(this._storageMode === "path"){
+            const allFolders = await folders.find({"path":{$exists:true}}, {projection:{"path":1, "parentDirectory":1}}).toArray()
+            const folderPaths = new Set([this._folderCollectionName, this._trashCollectionName, ...allFolders.map((folder)=>folder.path)])
+            const isMissing = (parentDirectory: unknown): parentDirectory is string => typeof parentDirectory === "string" && parentDirectory !== "" && !folderPaths.has(parentDirectory)
+
+            for(const folder of allFolders.filter((folder)=>isMissing(folder.parentDirectory))){
+                addOrphan(folder.parentDirectory, folder._id)
+            }
+            const missingDirectories = (await files.distinct("metadata.parentDirectory", {"metadata.path":{$exists:true}})).filter(isMissing)
+            if(missingDirectories.length > 0){
+                for(const file of await files.find({"metadata.parentDirectory":{$in:missingDirectories}}, {projection:{"metadata.parentDirectory":1}}).toArray()){
+                    addOrphan(file.metadata.parentDirectory, file._id)
+                }
+            }
+
+            for(const path of [...orphans.keys()].sort((a, b)=>ancestorPaths(a).length-ancestorPaths(b).length)){
+                const ids = orphans.get(path) as ObjectId[]
+                issues.push({kind:"missingFolder", path, ids, message:`Folder with path ${path} does not exist, but contains ${ids.length} folder(s) or file version(s)`})
+            }
+        }
+        else{
+            const allFolders = await folders.find({"parentId":{$exists:true}}, {projection:{"parentId":1}}).toArray()
+            const folderIds = new Set(allFolders.map((folder)=>folder._id.toHexString()))
+            const isMissing = (parentId: unknown): parentId is ObjectId => parentId instanceof ObjectId && !folderIds.has(parentId.toHexString())
+
+            for(const folder of allFolders.filter((folder)=>isMissing(folder.parentId))){
+                addOrphan(folder.parentId.toHexString(), folder._id)
+            }
+            const missingIds = (await files.distinct("metadata.parentId")).filter(isMissing)
+            if(missingIds.length > 0){
+                for(const file of await files.find({"metadata.parentId":{$in:missingIds}}, {projection:{"metadata.parentId":1}}).toArray()){
+                    addOrphan(file.metadata.parentId.toHexString(), file._id)
+                }
+            }
+
+            for(const [folderId, ids] of orphans){
+                issues.push({kind:"missingFolder", path:null, ids, folderId:new ObjectId(folderId),
+                    message:`Folder with id ${folderId} does not exist, but contains ${ids.length} folder(s) or file version(s)`})
+            }
+        }
+
+        // Files that share their data with deduplicated storage read the chunks of another file
+        const orphanChunks = await this._db.collection(this._bucketName+".chunks").aggregate([
+            {$group:{_id:"$files_id"}},
+            {$lookup:{from:this._bucketName+".files", localField:"_id", foreignField:"_id", as:"files"}},
+            {$lookup:{from:this._bucketName+".files", localField:"_id", foreignField:"metadata.contentId", as:"sharingFiles"}},
+            {$match:{"files":{$size:0}, "sharingFiles":{$size:0}}}
+        ], {allowDiskUse:true}).toArray()
+        for(const chunk of orphanChunks){
+            issues.push({kind:"orphanChunks", path:null, ids:[chunk._id], message:`Chunks of file with id ${chunk._id} belong to no file`})
+        }
+
+        return issues
+    }
+    /**
+     * Repairs an inconsistency found by the `_findTreeIssues` method.
+     */
+    private async _repairTreeIssue(issue: TreeIssue, orphans: "recreate" | "lostAndFound"): Promise<void>{
+        const path = issue.path as string
+
+        switch(issue.kind){
+            case "folderPath":
+                // The folders and files inside the folder refer to it by its path, so its path is kept
+                await this._db.collection(this._folderCollectionName).updateOne({"_id":issue.ids[0]},{$set:{"name":baseName(path), "parentDirectory":parentPath(path)}})
+                break
+            case "filePath":
+                await this._db.collection(this._bucketName+".files").updateMany({"_id":{$in:issue.ids}},{$set:{"filename":baseName(path), "metadata.parentDirectory":parentPath(path)}})
+                break
+            case "latestVersion":
+                // The unique index allows only one latest version, so the other versions are unflagged first
+                await this._db.collection(this._bucketName+".files").updateMany({"_id":{$in:issue.ids}, "metadata.isLatest":true},{$set:{"metadata.isLatest":false}})
+                await this._db.collection(this._bucketName+".files").updateOne({"_id":issue.ids[issue.ids.length-1]},{$set:{"metadata.isLatest":true}})
+                break
+            case "missingFolder":
+                await this._restoreMissingFolder(issue, orphans)
+                break
+            case "orphanChunks":
+                await this._db.collection(this._bucketName+".chunks").deleteMany({"files_id":{$in:issue.ids}})
+                break
+        }
+    }
+    /**
+     * Creates a missing folder found by the `_findTreeIssues` method, at its path or inside the `lost+found` folder of the root directory,
+     * so that the folders and files in it are part of the file tree again.
+     */
+    private async _restoreMissingFolder(issue: TreeIssue, orphans: "recreate" | "lostAndFound"): Promise<void>{
+        const lostAndFoundPath = this._folderCollectionName+"/lost+found"
+
+        if(this._storageMode === "parentId"){
+            // The folders and files in it keep referring to it by its id
+            const folderId = issue.folderId as ObjectId
+            await this._createFolders(lostAndFoundPath)
+            await this._db.collection(this._folderCollectionName).insertOne({_id:folderId, name:folderId.toHexString(),
+                ...await this._locationOf(lostAndFoundPath, folderId.toHexString()), customMetadata:{}})
+            return
+        }
+
+        const path = issue.path as string
+        const isInRoot = isWithin(this._folderCollectionName, path)
+        if(orphans === "recreate" && (isInRoot || isWithin(this._trashCollectionName, path))){
+            return this._createFolders(path)
+        }
+
+        // The folder is created at its path first, then moved with everything in it
+        const newPath = lostAndFoundPath+"/"+(isInRoot ? path.slice(this._folderCollectionName.length+1) : path)
+        await this._createFolders(parentPath(newPath))
+        await this._db.collection(this._folderCollectionName).insertOne({name:baseName(path), path, parentDirectory:parentPath(path), customMetadata:{}})
+        await this._relocateFolder(path, parentPath(newPath), baseName(newPath))
+    }
+    /**
+     * Creates the folder at `path` and the folders containing it that do not exist, without running hooks or checking permissions.
+     * The first name of `path` must be the name of the root directory or of the trash.
+     */
+    private async _createFolders(path: string): Promise<void>{
+        for(const folderPath of ancestorPaths(path).reverse().slice(1)){
+            if(!(await this._findFolder(folderPath))){
+                await this._db.collection(this._folderCollectionName).insertOne({name:baseName(folderPath),
+                    ...await this._locationOf(parentPath(folderPath), baseName(folderPath)), customMetadata:{}})
+            }
+        }
+    }
+    /**
+     * Checks that the folder or file at `path` can be deleted, and runs the `beforeDelete` hooks.
+     * Resolves to whether it is deleted permanently rather than moved to the trash.
+     */
+    private async _checkDeletion(kind: "folder" | "file", path: string, options: DeleteOptions): Promise<boolean>{
+        const permanent = !this._useTrash || Boolean(options.permanent)
+
+        await this._checkPermission(path, kind, "delete")
+        await this._checkLocks(path, options.lockOwner)
+        await this._runHooks("beforeDelete", {kind, path, permanent})
+        return permanent
+    }
+    /**
+     * Deletes the folder or file at `path` after `_checkDeletion` allowed it, permanently or by moving it to the trash, and emits the matching event.
+     */
+    private async _deleteCheckedEntry(kind: "folder" | "file", path: string, permanent: boolean): Promise<void>{
+        const id = kind === "folder" ? (await this._findFolder(path))?._id as ObjectId : await this._getLatestFileId(path) as ObjectId
+
+        if(permanent){
+            await this._withTransaction((session)=>this._deleteEntry(kind, path, session))
+        }
+        else{
+            await this._purgeExpiredTrash()
+            await this._moveToTrash(kind, path, baseName(path), parentPath(path))
+        }
+
+        if(kind === "folder"){
+            this.emit("folderDeleted", {id, path, toTrash:!permanent})
+        }
+        else{
+            this.emit("fileDeleted", {id, path, toTrash:!permanent})
+        }
+    }
+    /**
+     * Checks that the folders and files at `path` can be deleted so that the folder or file at `movedPath` is moved there with the `overwrite` option.
+     * Resolves to what is deleted, to be deleted with `_deleteCheckedEntry` once the move itself is allowed.
+     */
+    private async _checkReplacedEntries(path: string, movedPath: string, lockOwner?: string): Promise<{kind: "folder" | "file", permanent: boolean}[]>{
+        const replacedEntries: {kind: "folder" | "file", permanent: boolean}[] = []
+
+        if(await this._findFolder(path)){
+            if(isAncestor(path, movedPath)){
+                throw new InvalidArgumentError(`Cannot overwrite folder with path ${path}, which contains the folder or file with path ${movedPath}`)
+            }
+            if(path === this._currentWorkingDirectory || isAncestor(path, this._currentWorkingDirectory)){
+                throw new InvalidArgumentError(`Cannot delete current working directory (${this._currentWorkingDirectory})`)
+            }
+            replacedEntries.push({kind:"folder", permanent:await this._checkDeletion("folder", path, {lockOwner})})
+        }
+        if(await this._bucket.find(await this._fileFilter(path)).hasNext()){
+            replacedEntries.push({kind:"file", permanent:await this._checkDeletion("file", path, {lockOwner})})
+        }
+        return replacedEntries
+    }
+    /**
+     * Moves a folder, or all the versions of a file, to the trash. The item is recorded in the trash collection before it is moved,
+     * and the move is undone if it fails outside of a transaction.
+     */
+    private async _moveToTrash(kind: "folder" | "file", path: string, name: string, parentDirectory: string): Promise<void>{
+        const trashId = new ObjectId()
+        // Who can read the item is decided by the access control lists in effect when it was deleted, as the folders it was deleted from may change
+        const acls = await this._getAccessControlLists(path, kind)
+
+        await this._withTransaction(async (session)=>{
+            await this._db.collection(this._trashCollectionName).insertOne({_id:trashId, kind, name, path, parentDirectory, acls, deletedAt:new Date()},{session})
+            await this._relocateEntry(kind, path, this._trashCollectionName, trashId.toHexString(), session)
+        }, async ()=>{
+            await this._relocateEntry(kind, this._trashCollectionName+`/${trashId.toHexString()}`, parentDirectory, name)
+            await this._db.collection(this._trashCollectionName).deleteOne({_id:trashId})
+        })
+    }
+    /**
+     * Resolves to whether the principal can read an item of the trash, according to the access control lists recorded when it was deleted.
+     * Items deleted from outside of the folder this file tree is confined to cannot be read.
+     */
+    private async _canReadTrashItem(item: Document): Promise<boolean>{
+        if(this._basePath !== this._folderCollectionName && !isWithin(this._basePath, item.path)){
+            return false
+        }
+        if(!this._principal){
+            return true
+        }
+        // Items deleted before their access control lists were recorded are checked against the folders they were deleted from
+        return hasPermission(item.acls ?? await this._getAccessControlLists(item.parentDirectory, "folder"), this._principal, "read")
+    }
+    /**
+     * Permanently deletes the items in the trash that were deleted before `deletedBefore`, or every item if it is not provided.
+     * Resolves to the number of deleted items.
+     */
+    private async _purgeTrash(deletedBefore?: Date): Promise<number>{
+        const items = await this._db.collection(this._trashCollectionName).find(deletedBefore ? {deletedAt:{$lt:deletedBefore}} : {}).toArray()
+
+        for(const item of items){
+            await this._withTransaction(async (session)=>{
+                await this._deleteEntry(item.kind, this._trashCollectionName+`/${item._id.toHexString()}`, session)
+                await this._db.collection(this._trashCollectionName).deleteOne({_id:item._id},{session})
+            })
+        }
+        return items.length
+    }
+    /**
+     * Permanently deletes the items that have been in the trash for longer than the retention period.
+     */
+    private _purgeExpiredTrash(): Promise<number>{
+        return this._purgeTrash(new Date(Date.now()-this._trashRetention))
+    }
+
+    /**
+     * Copies the data and metadata of a single version of a file into a new file in the folder specified by `parentDirectory`.
+     * Properties of `metadata` override the metadata of the copied version. Resolves to the id of the new file.
+     * With deduplicated storage, the new file shares the chunks of the copied version instead.
+     */
+    private async _copyFileVersion(file: GridFSFile, parentDirectory: string, metadata: object = {}): Promise<ObjectId>{
+        // Paths set on files read with the 'parentId' storage mode are not stored
+        const {contentId, path, parentDirectory:copiedDirectory, parentId, ...fileMetadata} = file.metadata as any
+        const copyMetadata = {
+            ...fileMetadata,
+            ...await this._locationOf(parentDirectory, file.filename),
+            ...metadata
+        }
+
+        if(this._deduplicate && fileMetadata.sha256){
+            const {_id, ...fileDocument} = file
+            const result = await this._db.collection(this._bucketName+".files").insertOne({
+                ...fileDocument,
+                uploadDate:new Date(),
+                metadata:{...copyMetadata, contentId:contentIdOf(file)}
+            })
+            return result.insertedId as ObjectId
+        }
+
+        return new Promise<ObjectId>((resolve, reject)=>{
+            const downloadStream = this._bucket.openDownloadStream(contentIdOf(file))
+            const uploadStream = this._bucket.openUploadStream(file.filename, {
+                chunkSizeBytes:file.chunkSize,
+                metadata:copyMetadata
+            })
+            downloadStream.on("error", reject)
+            uploadStream.on("error", reject)
+            uploadStream.on("finish", ()=>{
+                resolve(uploadStream.id)
+            })
+            downloadStream.pipe(uploadStream)
+        })
+    }
+
+    /**
+     * @description Changes the current working directory of the file tree to the absolute path of the directory
+     * specified by the `path` parameter, which is the folder where files uploaded by the `uploadFile` method and where new folders
+     * created by the `createFolder` method will be located. Will raise an error if a directory with
+     * the specified path does not exist.
+     * @param {string} path Absolute path of a directory that exists in the collection specified by the `folderCollectionName` property,
+     * or path relative to the current working directory. The 'root directory' will have the same name as the `folderCollectionName`
+     * property. Can contain `.` and `..`.
+     * @param {boolean} isRelative If true, parameter `path` is always relative to the current working directory, even if it starts with
+     * the name of the root directory. If false, which is the default value, `path` is absolute if it starts with the name of the root directory.
      * @since 1.0.0
-     * @version 0.1.0
+     * @version 0.5.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * //Creates new folder with path sample-folder/subfolder-sample
-     * let result = await fileTree.createFolder("subfolder-sample") //MongoDB InsertOneResult with the id of the document representing the folder
+     * //Absolute path, current working directory is now "sample-folder/subfolder-sample"
+     * await fileTree.changeDirectory("sample-folder/subfolder-sample")
+     * //Relative path; absolute path of current working directory is now "sample-folder/subfolder-sample/subfolder-sample-2"
+     * await fileTree.changeDirectory("subfolder-sample-2", true)
+     * //Back to "sample-folder/subfolder-sample"
+     * await fileTree.changeDirectory("..")
      */
+    changeDirectory(path: string, isRelative: boolean = false): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(path, isRelative)
 
-    createFolder(folderName: string, customMetadata?: MetadataOptions): Promise<InsertOneResult>{
-        return new Promise<InsertOneResult>(async (resolve, reject)=>{
-            await this._client.connect()
-            const path = this.currentWorkingDirectory+`/${folderName}`
-
-            const doesFolderExist = Boolean(await this._db.collection(this._folderCollectionName).findOne({"path":path}))
-            if(doesFolderExist){
-                return reject(new Error(`Folder with name ${folderName} already exists in the current directory`))
+                const folder = await this._findFolder(absolutePath)
+                if(folder || absolutePath === this._folderCollectionName){
+                    try{
+                        await this._checkPermission(absolutePath, "folder", "read")
+                    }
+                    catch(e){
+                        return reject(e)
+                    }
+                    this._currentWorkingDirectory = absolutePath
+                    resolve()
+                }
+                else{
+                    return reject(new NotFoundError(`Folder with path ${path} does not exist`))
+                }
             }
-            if(folderName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)){
-                // @ts-ignore
-                const errSymbol = folderName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)[0]
-                return reject(new Error(`Character "${errSymbol}" cannot be used as part of a folder name`))
+            catch(e){
+                return reject(e)
             }
-
-            const result =  await this._db.collection(this._folderCollectionName).insertOne({name:folderName, path, parentDirectory:this.currentWorkingDirectory, customMetadata:{...customMetadata}})
-            resolve(result)
         })
     }
     /**
-     * @description Returns a promise which resolves to a `GridFSBucketReadStream` of a file stored in the
-     * GridFS Bucket specified by the `bucketName` property.
-     * @param {string} filePath Absolute path of the file to get a readable stream of
+     * @description Deletes a folder from the file tree, including all versions of the files in it and its subfolders.
+     * If the trash is enabled, the folder is moved to the trash instead, unless the `permanent` option is true.
+     * If the current working directory or one of the folders containing it is about to be deleted, and it is not the root directory, raises en error.
+     * Also raises an error if a file in the folder is locked by an owner other than the `lockOwner` option, or if a `beforeDelete` hook vetoes the deletion.
+     * @param {string} folderPath Absolute path of a folder that exists in the collection
+     * specified by the `folderCollectionName` property, or the name of the folder storage collection (`folderCollectionName`)
+     * If `folderPath` is the same as `folderCollectionName`, the collection is not deleted, but all documents in it and
+     * files in the associated GridFS bucket of the file tree will still be deleted, or each folder and file of the root directory moved to the trash.
+     * The deletion runs in a transaction if the MongoDB deployment supports transactions.
+     * @param {DeleteOptions} options Options for the deletion. Is optional.
      * @since 1.0.0
-     * @version 0.1.0
+     * @version 0.8.0
      * @example
      *
-     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * let stream = await fileTree.getFileReadStream("sample-folder/sample.txt")
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {useTrash:true})
+     * //Moved to the trash
+     * await fileTree.deleteFolder("sample-folder/subfolder-sample")
+     * //Deleted permanently
+     * await fileTree.deleteFolder("sample-folder/subfolder-sample-2", {permanent:true})
      */
+    deleteFolder(folderPath: string, options: DeleteOptions = {}): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
 
-    getFileReadStream(filePath: string): Promise<GridFSBucketReadStream>{
-        return new Promise<GridFSBucketReadStream>(async (resolve, reject)=>{
-            await this._client.connect()
-            const file = (await this._bucket.find({"metadata.path":filePath, "metadata.isLatest":true}).toArray())[0]
+                if((absolutePath === this._currentWorkingDirectory || isAncestor(absolutePath, this._currentWorkingDirectory)) && absolutePath !== this._folderCollectionName){
+                    return reject(new InvalidArgumentError(`Cannot delete current working directory (${this._currentWorkingDirectory})`))
+                }
 
-            if(!file){
-                return reject(new Error(`File with path ${filePath} does not exist`))
+                const topFolder = await this._findFolder(absolutePath)
+
+                if(!topFolder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
+
+                const permanent = await this._checkDeletion("folder", absolutePath, options)
+
+                if(topFolder){
+                    await this._deleteCheckedEntry("folder", absolutePath, permanent)
+                    return resolve()
+                }
+
+                if(permanent){
+                    await this._withTransaction((session)=>this._deleteEntry("folder", absolutePath, session))
+                }
+                else{
+                    // The root directory itself cannot be moved to the trash, so its folders and files are moved one by one
+                    await this._purgeExpiredTrash()
+                    const subfolders = await this._findSubfolders(absolutePath, false)
+                    for(const subfolder of subfolders){
+                        await this._moveToTrash("folder", subfolder.path, subfolder.name, absolutePath)
+                    }
+                    const files: GridFSFile[] = await this._withPaths(await this._bucket.find({...await this._folderFilesFilter(absolutePath, false), "metadata.isLatest":true}).toArray())
+                    for(const file of files){
+                        await this._moveToTrash("file", file.metadata?.path, file.filename, absolutePath)
+                    }
+                }
+
+                this.emit("folderDeleted", {id:null, path:absolutePath, toTrash:!permanent})
+                resolve()
+            }
+            catch(e){
+                return reject(e)
             }
-            resolve(this._bucket.openDownloadStream(file._id))
         })
-
     }
     /**
-     * @description Lets the user download the folder specified in the `folderPath` parameter as a zip file. The form which the zip file is returned varies
-     * based on the argument provided for the returnType parameter.
-     * @param {string} folderPath String representing the absolute path of the folder
-     * @param {string} returnType String specifying the form in which the zip file of the target folder should be returned. Valid options are 'base64',
-     * 'nodebuffer' (NodeJS buffer), 'array' (array of bytes (numbers between 255 and 0)), 'uint8array','arraybuffer', 'blob', and 'binarystring'.
+     * @description Deletes all the versions of a file from the GridFS bucket of the file tree.
+     * If the trash is enabled, the file is moved to the trash with all its versions instead, unless the `permanent` option is true.
+     * Raises an error if the file does not exist, if it is locked by an owner other than the `lockOwner` option, or if a `beforeDelete` hook vetoes the deletion.
+     * @param {string} filePath Absolute path to a file that exists in the bucket specified by the `bucket`
+     * property on the `FileTree` class
+     * @param {DeleteOptions} options Options for the deletion. Is optional.
      * @since 1.0.0
-     * @version 0.1.0
+     * @version 0.7.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * //Returns an array of bytes (numbers between 255 and 0) representing the data of the zip file
-     * let zip = await fileTree.downloadFolder("sample-folder/subfolder-sample", "array")
+     * await fileTree.deleteFile("sample-folder/sample.txt")
      */
-    downloadFolder(folderPath: string, returnType: OutputType): Promise<Buffer|Uint8Array|string|Blob|number[]|ArrayBuffer>{
-        return new Promise<Buffer|Uint8Array|string|Blob|number[]|ArrayBuffer>(async (resolve, reject)=>{
-            await this._client.connect()
-            const folderZip = new JSZip()
-
-            const downloadAsync = async (file: GridFSFile): Promise<void> =>{
-                return new Promise<void>((resolveFileDownload)=>{
-                    const downloadStream = this._bucket.openDownloadStream(file._id)
-                    let data = ''
-                    downloadStream.on("data",(chunk)=>{
-                        data+=chunk.toString("base64")
-                    })
-                    downloadStream.on("end",()=>{
-                        folderZip.file(file.metadata?.path.slice(folderPath.length+1), data, {createFolders:true, base64:true})
-                        resolveFileDownload()
-                    })
-                })
-            }
-
-            const topFolder = await this._db.collection(this._folderCollectionName).findOne({"path":folderPath})
+    deleteFile(filePath: string, options: DeleteOptions = {}): Promise<void>{
+        return new Promise<void>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(filePath)
+                const file = (await this._bucket.find(await this._fileFilter(absolutePath)).toArray())[0]
+                if(!file){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
 
-            if(!topFolder && folderPath !== this._folderCollectionName){
-                return reject(new Error(`Folder with path ${folderPath} does not exist`))
+                const permanent = await this._checkDeletion("file", absolutePath, options)
+                await this._deleteCheckedEntry("file", absolutePath, permanent)
+                resolve()
             }
-
-            if(!['base64','nodebuffer', 'array', 'uint8array','arraybuffer', 'blob', 'binarystring'].includes(returnType)){
-                return reject(new Error(`Invalid argument for parameter returnType. Argument must either be 'base64','nodebuffer', 'array', 'uint8array','arraybuffer', 'blob', or 'binarystring'.`))
+            catch(e){
+                return reject(e)
             }
+        })
+    }
+    /**
+     * @description Lists the folders and files in the trash, most recently deleted first. Items that have been in the trash for longer than
+     * the retention period are deleted permanently before the trash is listed. Items that the principal could not read when they were deleted are left out.
+     * @since 1.1.0
+     * @version 0.1.0
+     * @example
+     *
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {useTrash:true})
+     * let items = await fileTree.listTrash() //[{id:<ObjectId>, kind:"file", name:"sample.txt", path:"sample-folder/sample.txt", deletedAt:<Date>, expiresAt:<Date>}]
+     */
+    listTrash(): Promise<TrashEntry[]>{
+        return new Promise<TrashEntry[]>(async (resolve, reject)=>{
+            try{
+                await this._purgeExpiredTrash()
 
-            const allFiles: GridFSFile[] = await this._bucket.find({"metadata.isLatest":true, "metadata.parentDirectory":new RegExp("^"+folderPath)}).toArray()
-
+                const items = await this._db.collection(this._trashCollectionName).find({}).sort({deletedAt:-1, _id:-1}).toArray()
+                const canRead = await Promise.all(items.map((item)=>this._canReadTrashItem(item)))
 
-            for(const file of allFiles){
-                await downloadAsync(file)
+                resolve(items.filter((item, index)=>canRead[index]).map((item)=>({
+                    id:item._id,
+                    kind:item.kind,
+                    name:item.name,
+                    path:item.path,
+                    deletedAt:item.deletedAt,
+                    expiresAt:new Date(item.deletedAt.getTime()+this._trashRetention)
+                })))
+            }
+            catch(e){
+                return reject(e)
             }
-            return resolve(await folderZip.generateAsync({type:returnType}))
         })
     }
     /**
-     * @description Upload a file to the GridFS Bucket file tree, with the parent directory of the file being
-     * the current working directory of the file tree.
-     * If a file with the name provided to the method from the `options` parameter already exists
-     * in the current working directory of the file tree,
-     * the uploaded file will be treated as the latest version of that file, with the
-     * `isLatest` metadata property of the uploaded file being true and the `isLatest` property of the
-     * previous file being set to false.
-     * @param {Readable} fileStream Valid readable stream
-     * @param {FileOptions} options Options for the file. Mandatory properties are `name` and `chunkSize`
-     * (the size of the chunks of the file in GridFS in bytes).
-     * The `customMetadata` property is optional.
-     * @since 1.0.0
+     * @description Restores a folder or file from the trash, with all the versions of its files, into the folder it was deleted from
+     * or into the folder specified by the `targetPath` option, and emits the `folderCreated` or `fileUploaded` event. Raises an error if the item is not
+     * in the trash, if the principal could not read it when it was deleted, if the folder to restore it into does not exist, if a folder or file with
+     * the same name already exists there and the `onConflict` option is not 'rename', or if a `beforeRestore` hook vetoes the restoration.
+     * Resolves to the absolute path of the restored folder or file.
+     * @param {ObjectId} trashId Id of the item in the trash, as returned by the `listTrash` method
+     * @param {RestoreOptions} options Options for the restoration. Is optional.
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
-     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * // id of the file in file tree GridFS bucket
-     * let id = await fileTree.uploadFile(fs.createReadStream("sample.txt"), {name:"sample.txt", chunkSize:1048576, customMetadata:{favourite:true}})
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {useTrash:true})
+     * const [item] = await fileTree.listTrash()
+     * //"sample-folder/sample-1.txt" if a file with path "sample-folder/sample.txt" was uploaded after the deletion
+     * let path = await fileTree.restoreFromTrash(item.id, {onConflict:"rename"})
      */
-    uploadFile(fileStream: Readable, options: FileOptions): Promise<ObjectId>{
-        return new Promise<ObjectId>(async (resolve, reject)=>{
-            if (!(fileStream instanceof Readable)){
-                return reject(new Error("Argument for parameter fileStream is not a valid readable stream"))
-            }
-
-            if(!options.name){
-                return reject(new Error("Missing 'name' property for 'options' parameter."))
-            }
+    restoreFromTrash(trashId: ObjectId, options: RestoreOptions = {}): Promise<string>{
+        return new Promise<string>(async (resolve, reject)=>{
+            try{
+                const {onConflict = "error"} = options
 
-            if(!options.chunkSize){
-                return reject(new Error("Missing 'chunkSize' property for 'options' parameter."))
-            }
+                if(!["error", "rename"].includes(onConflict)){
+                    return reject(new InvalidArgumentError(`Invalid argument for option onConflict. Argument must either be 'error' or 'rename'.`))
+                }
 
-            if(options.name.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)){
-                // @ts-ignore
-                return reject(new Error(`Character "${options.name.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)[0]}" cannot be used as part of a file name`))
-            }
+                await this._purgeExpiredTrash()
 
-            const path = this.currentWorkingDirectory+`/${options.name}`
+                const item = await this._db.collection(this._trashCollectionName).findOne({_id:trashId})
 
-            await this._client.connect()
+                if(!item){
+                    return reject(new NotFoundError(`Item with id ${trashId} does not exist in the trash`))
+                }
 
-            this._db.collection(this._bucketName+".files").findOneAndUpdate({"metadata.path":path, "metadata.isLatest":true},{$set:{"metadata.isLatest":false}})
-            const uploadStream = this._bucket.openUploadStream(options.name, {
+                const parentDirectory: string = options.targetPath === undefined ? item.parentDirectory : this._resolvePath(options.targetPath)
 
-                chunkSizeBytes:options.chunkSize,
+                const parentFolder = await this._findFolder(parentDirectory)
 
-                metadata:{
-                    parentDirectory:this.currentWorkingDirectory,
-                    path,
-                    isLatest:true,
-                    ...options.customMetadata
+                if(!parentFolder && parentDirectory !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${options.targetPath ?? parentDirectory} does not exist`))
                 }
 
-            })
+                this._checkConfinement(item.path)
+                if(!(await this._canReadTrashItem(item))){
+                    throw new PermissionError(`User ${(this._principal as Principal).user} does not have read permission on ${item.kind} with path ${item.path}`)
+                }
+                await this._checkPermission(parentDirectory, "folder", "write")
 
-            fileStream.pipe(uploadStream)
-            uploadStream.on("finish",async ()=>{
-                resolve(uploadStream.id)
-            })
-        })
-    }
-    /**
-     * @description Change the name of a file in the file tree. This also changes its `path` metadata property accordingly.
-     * @param {string} newName New name for the file
-     * @param {string} filePath Absolute path of the file that you want to change the name of
-     * @since 1.0.0
-     * @version 0.1.0
-     * @example
-     *
-     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.changeFileName("new-file-name", "sample-folder/old-file-name.txt") //File now has path sample-folder/new-file-name.txt
-     */
-     changeFileName(newName:string, filePath:string): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-            const allFileVersions = this._bucket.find({"metadata.path":filePath})
+                const doesEntryExist = async (name: string): Promise<boolean> =>{
+                    if(item.kind === "folder"){
+                        return Boolean(await this._findFolder(parentDirectory+`/${name}`))
+                    }
+                    return this._bucket.find(await this._fileFilter(parentDirectory+`/${name}`)).hasNext()
+                }
 
-            if(!(await allFileVersions.hasNext())){
-                return reject(new Error(`File with path ${filePath} does not exist`))
-            }
+                let name: string = item.name
+                for(let number = 1; await doesEntryExist(name); number++){
+                    if(onConflict === "error"){
+                        return reject(new ConflictError(`${item.kind === "folder" ? "Folder" : "File"} with name ${item.name} already exists in the specified directory`))
+                    }
+                    name = numberedName(item.name, number, item.kind)
+                }
 
-            if(newName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)){
-                // @ts-ignore
-                return reject(new Error(`Character "${newName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)[0]}" cannot be used as part of a file name`))
-            }
+                const trashPath = this._trashCollectionName+`/${item._id.toHexString()}`
 
-            const parentDirectory = (await allFileVersions.next())?.metadata?.parentDirectory
-            await this._db.collection(this.bucketName+".files").updateMany({"metadata.path":filePath},{$set:{"metadata.path":parentDirectory+`/${newName}`, "filename":newName}})
+                const bytes = item.kind === "folder" ? (await this._getUsage(trashPath, true)).bytes
+                    : (await this._bucket.find(await this._fileFilter(trashPath)).toArray()).reduce((total, file)=>total+file.length, 0)
+                await this._checkQuota(parentDirectory, bytes)
+                await this._runHooks("beforeRestore", {kind:item.kind, path:item.path, destinationPath:parentDirectory})
 
-            resolve()
+                await this._withTransaction(async (session)=>{
+                    await this._relocateEntry(item.kind, trashPath, parentDirectory, name, session)
+                    await this._db.collection(this._trashCollectionName).deleteOne({_id:item._id},{session})
+                }, ()=>this._relocateEntry(item.kind, parentDirectory+`/${name}`, this._trashCollectionName, item._id.toHexString()))
 
+                const path = parentDirectory+`/${name}`
+                if(item.kind === "folder"){
+                    const folder = await this._findFolder(path)
+                    this.emit("folderCreated", {id:folder?._id as ObjectId, path})
+                }
+                else{
+                    this.emit("fileUploaded", {id:await this._getLatestFileId(path) as ObjectId, path})
+                }
+                resolve(path)
+            }
+            catch(e){
+                return reject(e)
+            }
         })
     }
-
     /**
-     * @description Update the metadata of a file in the file tree, allowing users to add, change, or delete metadata properties from files.
-     * Raises an error if the user tries to change or delete the 'path', 'parentDirectory', or 'isLatest' metadata properties from a file.
-     * @param {string} filePath Absolute path of the file that you want to change the metadata of
-     * @param {MetadataOptions} newMetadata Metadata properties to add or change the value of. Can have any property except the ones listed above.
-     * @param {Array<string>} deleteFields Metadata properties to delete. Can include any property except the ones listed above.
-     * @param {boolean} changeForAllVersions If false, only changes metadata properties for latest version of file.
-     * If true, changes metadata properties for all versions of the file. Defaults to false.
-     * @since 1.0.0
+     * @description Permanently deletes every folder and file in the trash. Resolves to the number of items that were deleted.
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
-     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.changeFileMetadata("sample-folder/sample.txt", {favourite:true}, ["sample-property"], true)
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {useTrash:true})
+     * let count = await fileTree.emptyTrash()
      */
-     changeFileMetadata(filePath: string, newMetadata?:MetadataOptions, deleteFields?:string[], changeForAllVersions: boolean= false): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-            // @ts-ignore
-            if(newMetadata?.path || deleteFields?.includes('path')){
-                return reject(new Error("Cannot change or delete 'path' metadata property using this method" ))
-            }
-            // @ts-ignore
-            if(newMetadata?.parentDirectory|| deleteFields?.includes('parentDirectory')){
-                return reject(new Error("Cannot change or delete 'parentDirectory' metadata property using this method" ))
-            }
-            // @ts-ignore
-            if(newMetadata?.isLatest || deleteFields?.includes('isLatest')){
-                return reject(new Error("Cannot delete or change the type of 'isLatest' metadata property using this method" ))
-            }
-            if(changeForAllVersions){
-                if(newMetadata){
-                    const fields: any = {}
-                    Object.keys(newMetadata).forEach((field: string)=>{
-                        // @ts-ignore
-                        fields["metadata."+field] = newMetadata[field]
-                    })
-                    await this._db.collection(this._bucketName+".files").updateMany({"metadata.path":filePath},{$set:fields})
-                }
-                if(deleteFields){
-
-                    const fields: any = {}
-                    deleteFields.forEach((field: string)=>{
-                        // @ts-ignore
-                        fields["metadata."+field] = ""
-                    })
-                    await this._db.collection(this._bucketName+".files").updateMany({"metadata.path":filePath},{$unset:fields})
-                }
+    emptyTrash(): Promise<number>{
+        return new Promise<number>(async (resolve, reject)=>{
+            try{
+                this._checkTrusted("emptyTrash")
+                this._checkUnconfined("emptyTrash")
+                resolve(await this._purgeTrash())
             }
-            else{
-                if(newMetadata){
-                    const fields: any = {}
-                    Object.keys(newMetadata).forEach((field: string)=>{
-                        // @ts-ignore
-                        fields["metadata."+field] = newMetadata[field]
-                    })
-                    await this._db.collection(this._bucketName+".files").findOneAndUpdate({"metadata.isLatest":true,"metadata.path":filePath},{$set:fields})
-                }
-                if(deleteFields){
-
-                    const fields: any = {}
-                    deleteFields.forEach((field: string)=>{
-                        // @ts-ignore
-                        fields["metadata."+field] = ""
-                    })
-                    await this._db.collection(this._bucketName+".files").findOneAndUpdate({"metadata.isLatest":true,"metadata.path":filePath},{$unset:fields})
-                }
+            catch(e){
+                return reject(e)
             }
-            resolve()
         })
     }
     /**
-     * @description Update the metadata of a folder in the file tree, allowing users to add, change, or delete metadata properties from folders.
-     * Raises an error if the user tries to change or delete the 'path' and 'parentDirectory' properties from a folder.
-     * @param {string} folderPath Absolute path of the folder that you want to change the name of
-     * @param {MetadataOptions} newMetadata Metadata properties to add or change the value of. Can have any property except the ones listed above.
-     * @param {Array<string>} deleteFields Metadata properties to delete. Can have any property except the ones listed above.
-     * @since 1.0.0
+     * @description Permanently deletes the folders and files that have been in the trash for longer than the `trashRetention` option.
+     * Resolves to the number of items that were deleted. Expired items are otherwise only deleted when the trash is used,
+     * so this method can be called on a schedule to free their storage.
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
-     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.changeFolderMetadata("sample-folder/subfolder", {favorite:true}, ["sample-property"])
+     * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder", {useTrash:true})
+     * setInterval(()=>fileTree.purgeExpiredTrash(), 60*60*1000)
      */
-    changeFolderMetadata(folderPath: string, newMetadata?:MetadataOptions, deleteFields?:string[]): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-            
-            // @ts-ignore
-            if(newMetadata?.path || deleteFields?.includes('path')){
-                return reject(new Error("Cannot change or delete 'path' metadata property using this method" ))
-            }
-            // @ts-ignore
-            if(newMetadata?.parentDirectory|| deleteFields?.includes('parentDirectory')){
-                return reject(new Error("Cannot change or delete 'parentDirectory' metadata property using this method" ))
-            }
-            // @ts-ignore
-            if(newMetadata?.isLatest || deleteFields?.includes('isLatest')){
-                return reject(new Error("Cannot add or delete 'isLatest' metadata property for a folder" ))
-            }
-
-            if(newMetadata){
-                const fields: any = {}
-                Object.keys(newMetadata).forEach((field: string)=>{
-                    // @ts-ignore
-                    fields["customMetadata."+field] = newMetadata[field]
-                })
-                await this._db.collection(this._folderCollectionName).findOneAndUpdate({"path":folderPath},{$set:fields})
+    purgeExpiredTrash(): Promise<number>{
+        return new Promise<number>(async (resolve, reject)=>{
+            try{
+                this._checkTrusted("purgeExpiredTrash")
+                this._checkUnconfined("purgeExpiredTrash")
+                resolve(await this._purgeExpiredTrash())
             }
-
-            if(deleteFields){
-                const fields: any = {}
-                deleteFields.forEach((field: string)=>{
-                    fields["customMetadata."+field] = ""
-                })
-                await this._db.collection(this._folderCollectionName).findOneAndUpdate({"path":folderPath},{$unset:fields})
+            catch(e){
+                return reject(e)
             }
-            resolve()
-
         })
     }
-
     /**
-     * @description Change the name of a folder in the file tree. This also changes its `path` metadata property accordingly,
-     * and the `path` and `parentDirectory` metadata property of all subfolders and files in the folder. Raises an error
-     * if the specified folder does not exist.
-     * @param {string} newName New name for the file
-     * @param {string} folderPath Absolute path of the folder that you want to change the name of
-     * @since 1.0.0
+     * @description Locks a file for `ttl` milliseconds, so that only `owner` can upload new versions of it, rename, move, or delete it, or rename, move, or delete
+     * the folders containing it. Locking a file again with the same owner extends the lock. Raises an error if the file does not exist, or if it is already
+     * locked by another owner and that lock has not expired. Expired locks are also removed from the lock collection by MongoDB after a while,
+     * once the indexes of the file tree are created with the `ensureIndexes` or `migrate` method.
+     * @param {string} filePath Absolute path of the file
+     * @param {string} owner Owner of the lock, like the name of a user or of a process
+     * @param {number} ttl Number of milliseconds after which the lock expires, unless it is renewed with the `renewLock` method
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.changeFolderName("new-folder-name", "sample-folder/sample-folder-2")
+     * //{path:"sample-folder/sample.txt", owner:"sample-user", lockedAt:<Date>, expiresAt:<Date in 5 minutes>}
+     * let lock = await fileTree.lockFile("sample-folder/sample.txt", "sample-user", 5*60*1000)
+     * await fileTree.uploadFile(fs.createReadStream("sample.txt"), {name:"sample.txt", chunkSize:1048576, lockOwner:"sample-user"})
      */
-    changeFolderName(newName:string, folderPath:string): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-
-            if(folderPath === this._folderCollectionName){
-                return reject(new Error(`Cannot rename root directory of the file tree`))
-            }
-
-            const topFolder = await this._db.collection(this._folderCollectionName).findOne({"path":folderPath})
-
-            let newPath: string
+    lockFile(filePath: string, owner: string, ttl: number): Promise<FileLock>{
+        return new Promise<FileLock>(async (resolve, reject)=>{
+            try{
+                if(typeof owner !== "string" || owner === ""){
+                    return reject(new InvalidArgumentError("Argument for parameter owner must be a non-empty string"))
+                }
 
-            if(!topFolder && folderPath !== this._folderCollectionName){
-                return reject(new Error(`Folder with path ${folderPath} does not exist`))
-            }
+                if(typeof ttl !== "number" || !(ttl > 0)){
+                    return reject(new InvalidArgumentError("Argument for parameter ttl must be a positive number of milliseconds"))
+                }
 
-            const doesFolderExist = Boolean(await this._db.collection(this._folderCollectionName).findOne({"path":topFolder?.parentDirectory+`/${newName}`}))
+                const absolutePath = this._resolvePath(filePath)
 
-            if(doesFolderExist){
-                return reject(new Error(`Folder with name ${newName} already exists in the specified directory`))
-            }
+                if(!(await this._bucket.find(await this._fileFilter(absolutePath)).hasNext())){
+                    return reject(new NotFoundError(`File with path ${filePath} does not exist`))
+                }
 
-            newPath = topFolder?.parentDirectory+`/${newName}`
+                await this._checkPermission(absolutePath, "file", "write")
 
-            if(newName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)){
-                // @ts-ignore
-                const errSymbol = newName.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)[0]
-                return reject(new Error(`Character "${errSymbol}" cannot be used as part of a folder name`))
-            }
-
-            await this._db.collection(this._folderCollectionName).updateOne({"path":folderPath},{$set:{"path":newPath, "name":newName}})
-            await this._db.collection(this._folderCollectionName).updateMany({"parentDirectory":new RegExp("^"+folderPath)},
-            [{$set:{"path":
-            {$replaceOne:{
-                input:"$path",
-                find:folderPath,
-                replacement:newPath}},
-            "parentDirectory":
-            {$replaceOne:{
-                input:"$parentDirectory",
-                find:folderPath,
-                replacement:newPath}},
-            }}])
-
-            await this._db.collection(this._bucketName+'.files').updateMany({"metadata.parentDirectory":new RegExp("^"+folderPath)},
-            [{$set:{"metadata.path":
-            {$replaceOne:{
-                input:"$metadata.path",
-                find:folderPath,
-                replacement:newPath}},
-            "metadata.parentDirectory":
-            {$replaceOne:{
-                input:"$metadata.parentDirectory",
-                find:folderPath,
-                replacement:newPath}}
-            }}])
+                const now = new Date()
+                const lock: LockDocument = {_id:absolutePath, owner, lockedAt:now, expiresAt:new Date(now.getTime()+ttl)}
 
-            resolve()
+                try{
+                    // A lock held by another owner does not match, so the upsert tries to insert a second lock with the same path and fails
+                    await this._db.collection<LockDocument>(this._lockCollectionName).updateOne({"_id":absolutePath, $or:[{"owner":owner}, {"expiresAt":{$lte:now}}]},
+                        {$set:{owner:lock.owner, lockedAt:lock.lockedAt, expiresAt:lock.expiresAt}},{upsert:true})
+                }
+                catch(e: any){
+                    if(e?.code !== 11000){
+                        return reject(e)
+                    }
+                    const currentLock = await this._db.collection<LockDocument>(this._lockCollectionName).findOne({"_id":absolutePath})
+                    return reject(new LockedError(`File with path ${absolutePath} is locked by ${currentLock?.owner} until ${currentLock?.expiresAt.toISOString()}`))
+                }
 
+                resolve(toFileLock(lock))
+            }
+            catch(e){
+                return reject(e)
+            }
         })
     }
-
     /**
-     * @description Changes the current working directory of the file tree to the absolute path of the directory
-     * specified by the `path` parameter, which is the folder where files uploaded by the `uploadFile` method and where new folders
-     * created by the `createFolder` method will be located. Will raise an error if a directory with
-     * the specified path does not exist.
-     * @param {string} path If parameter `isRelative` is false, or not provided, `path` should be a
-     * string representing the absolute path of a directory that exists in the collection specified by the
-     * `folderCollectionName` property. If parameter `isRelative` is true, `path` is assumed to be relative
-     * to the current working directory. The 'root directory' will have the same name as the `folderCollectionName`
-     * property.
-     * @param {boolean} isRelative If true, parameter `path` must be relative to the current working directory. If false, which is the default value,
-     * parameter `path` must be the absolute path of a file.
-     * @since 1.0.0
+     * @description Extends a lock taken with the `lockFile` method so that it expires `ttl` milliseconds from now.
+     * Raises an error if the file is not locked by `owner`, including when the lock of `owner` has already expired.
+     * @param {string} filePath Absolute path of the file
+     * @param {string} owner Owner of the lock
+     * @param {number} ttl Number of milliseconds after which the lock expires, counted from now
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * //Absolute path, current working directory is now "sample-folder/subfolder-sample"
-     * await fileTree.changeDirectory("sample-folder/subfolder-sample")
-     * //Relative path; absolute path of current working directory is now "sample-folder/subfolder-sample/subfolder-sample-2"
-     * await fileTree.changeDirectory("subfolder-sample-2", true)
+     * let lock = await fileTree.renewLock("sample-folder/sample.txt", "sample-user", 5*60*1000)
      */
-    changeDirectory(path: string, isRelative: boolean = false): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
+    renewLock(filePath: string, owner: string, ttl: number): Promise<FileLock>{
+        return new Promise<FileLock>(async (resolve, reject)=>{
+            try{
+                if(typeof ttl !== "number" || !(ttl > 0)){
+                    return reject(new InvalidArgumentError("Argument for parameter ttl must be a positive number of milliseconds"))
+                }
 
-            let absolutePath
-            
-            if(!isRelative){
-                absolutePath = path
-            }
+                const absolutePath = this._resolvePath(filePath)
+                const now = new Date()
 
-            else{
-                absolutePath = this._currentWorkingDirectory+"/"+path
-            }
-            const folder = await this._db.collection(this._folderCollectionName).findOne({"path":absolutePath})
-            if(folder || absolutePath === this._folderCollectionName){
-                this._currentWorkingDirectory = absolutePath
-                resolve()
+                await this._checkPermission(absolutePath, "file", "write")
+
+                const result = await this._db.collection<LockDocument>(this._lockCollectionName).findOneAndUpdate({"_id":absolutePath, "owner":owner, "expiresAt":{$gt:now}},
+                    {$set:{expiresAt:new Date(now.getTime()+ttl)}},{returnDocument:"after"})
+
+                if(!result.value){
+                    return reject(new LockedError(`File with path ${filePath} is not locked by ${owner}`))
+                }
+
+                resolve(toFileLock(result.value))
             }
-            else{
-                return reject(new Error(`Folder with path ${absolutePath} does not exist`))
+            catch(e){
+                return reject(e)
             }
         })
     }
     /**
-     * @description Deletes a folder from the file tree, including all versions of the files in it and its subfolders.
-     * If current working directory is about to be deleted, and it is not the root directory, raises en error.
-     * @param {string} folderPath Absolute path of a folder that exists in the collection
-     * specified by the `folderCollectionName` property, or the name of the folder storage collection (`folderCollectionName`)
-     * If `folderPath` is the same as `folderCollectionName`, the collection is not deleted, but all documents in it and
-     * files in the associated GridFS bucket of the file tree will still be deleted.
-     * @since 1.0.0
+     * @description Releases a lock taken with the `lockFile` method. Does nothing if the file is not locked or if its lock has expired.
+     * Raises an error if the file is locked by an owner other than `owner`.
+     * @param {string} filePath Absolute path of the file
+     * @param {string} owner Owner of the lock
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.deleteFolder("sample-folder/subfolder-sample")
+     * await fileTree.unlockFile("sample-folder/sample.txt", "sample-user")
      */
-    deleteFolder(folderPath: string): Promise<void>{
+    unlockFile(filePath: string, owner: string): Promise<void>{
         return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-            
-            if(this._currentWorkingDirectory.match(folderPath) && folderPath !== this._folderCollectionName ){
-                return reject(new Error(`Cannot delete current working directory (${this._currentWorkingDirectory})`))
-            }
-
-            const topFolder = await this._db.collection(this._folderCollectionName).findOne({"path":folderPath})
-
-            if(!topFolder && folderPath !== this._folderCollectionName){
-                return reject(new Error(`Folder with path ${folderPath} does not exist`))
-            }
-
-            const allFiles: GridFSFile[] = await this._bucket.find({"metadata.isLatest":true, "metadata.parentDirectory":new RegExp("^"+folderPath)}).toArray()
+            try{
+                const absolutePath = this._resolvePath(filePath)
 
+                await this._checkPermission(absolutePath, "file", "write")
+                await this._checkLocks(absolutePath, owner)
 
-            for(const file of allFiles){
-                await this.deleteFile(file.metadata?.path)
+                await this._db.collection<LockDocument>(this._lockCollectionName).deleteOne({"_id":absolutePath})
+                resolve()
             }
-            await this._db.collection(this._folderCollectionName).deleteMany({"parentDirectory":new RegExp("^"+folderPath)})
-
-            if(folderPath !== this._folderCollectionName){
-                await this._db.collection(this._folderCollectionName).deleteOne({"path":folderPath})
+            catch(e){
+                return reject(e)
             }
-
-            resolve()
         })
     }
     /**
-     * @description Deletes all the versions of a file from the GridFS bucket of the file tree.
-     * @param {string} filePath Absolute path to a file that exists in the bucket specified by the `bucket`
-     * property on the `FileTree` class
-     * @since 1.0.0
+     * @description Lists the locks that have not expired on the files in a folder and in all of its subfolders, ordered by path.
+     * Locks on files that the principal cannot read are left out. Raises an error if the folder does not exist.
+     * @param {string} folderPath Absolute path of the folder. Defaults to the root directory.
+     * @since 1.1.0
      * @version 0.1.0
      * @example
      *
      * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
-     * await fileTree.deleteFile("sample-folder/sample.txt")
+     * let locks = await fileTree.listLocks("sample-folder/projects") //[{path:"sample-folder/projects/report.pdf", owner:"sample-user", lockedAt:<Date>, expiresAt:<Date>}]
      */
-    deleteFile(filePath: string): Promise<void>{
-        return new Promise<void>(async (resolve, reject)=>{
-            await this._client.connect()
-            const allFileVersions = this._bucket.find({"metadata.path":filePath})
-            if(!(await allFileVersions.hasNext())){
-                return reject(new Error(`File with path ${filePath} does not exist`))
-            }
+    listLocks(folderPath: string = this._basePath): Promise<FileLock[]>{
+        return new Promise<FileLock[]>(async (resolve, reject)=>{
+            try{
+                const absolutePath = this._resolvePath(folderPath)
+
+                const folder = await this._findFolder(absolutePath)
+
+                if(!folder && absolutePath !== this._folderCollectionName){
+                    return reject(new NotFoundError(`Folder with path ${folderPath} does not exist`))
+                }
 
-            const allFileVersionsArr = await allFileVersions.toArray()
-            for(const file of allFileVersionsArr){
-                await this._bucket.delete(file._id)
+                let canRead: ReadFilter
+                await this._checkPermission(absolutePath, "folder", "read")
+                canRead = await this._getReadFilter(absolutePath)
+
+                const locks = await this._db.collection<LockDocument>(this._lockCollectionName).find({"_id":subtreeRegExp(absolutePath), "expiresAt":{$gt:new Date()}})
+                    .sort({_id:1}).toArray()
+                const fileFilters = await Promise.all(locks.map((lock)=>this._fileFilter(lock._id)))
+                const lockedFiles: GridFSFile[] = locks.length === 0 ? []
+                    : await this._withPaths(await this._bucket.find({$or:fileFilters, "metadata.isLatest":true}).toArray())
+                const fileAcls = new Map(lockedFiles.map((file)=>[file.metadata?.path, file.metadata?.acl]))
+
+                resolve(locks.filter((lock)=>canRead(lock._id, fileAcls.get(lock._id))).map(toFileLock))
+            }
+            catch(e){
+                return reject(e)
             }
-            resolve()
         })
     }
 }
 
 export default MongoFileTree
-export {FileOptions, MetadataOptions}
\ No newline at end of file
+export {FileOptions, MetadataOptions, DirectoryEntry, ListDirectoryOptions, DirectoryListing, CopyOptions, MoveOptions, FileVersion, FileVersionOptions, RestoreVersionOptions, PruneOptions, ArchiveFormat, FolderStreamOptions, ArchiveUploadOptions, ArchiveUploadResult, SearchQuery, FolderUsageOptions, FolderUsage, FileTreeOptions, StorageMode, TreeIssue, RepairOptions, DeleteOptions, TrashEntry, RestoreOptions,
+    FileTreeEvents, FileTreeHooks, FileTreeHook, FileTreeWatcher, FileLock, ReadStreamOptions, FileStat, Permission, AccessControlEntry, Principal,
+    FileTreeErrorCode, FileTreeError, NotFoundError, ConflictError, PermissionError, LockedError, QuotaExceededError, InvalidArgumentError,
+    createRequestHandler, RequestHandlerOptions, RequestHandler, createWebDavHandler, WebDavHandlerOptions}
\ No newline at end of file
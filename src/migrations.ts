@@ -0,0 +1,146 @@
+/**
+ * Schema migrations of the collections of a file tree. Each migration upgrades the documents and indexes of an existing file tree from the
+ * previous schema version to its own version, and the `migrate` method of the file tree applies the ones that were not applied yet, in order.
+ * A migration can be applied again after a failure or by two processes at the same time, so it must give the same result when it runs twice.
+ */
+import {AnyBulkWriteOperation, Document, ObjectId} from "mongodb"
+import type MongoFileTree from "./index"
+
+/**
+ * Shape of each migration of the schema of a file tree.
+ */
+interface Migration{
+    /** Schema version of the file tree once the migration is applied. Versions start at 1 and follow each other. */
+    version: number,
+    /** What the migration changes */
+    description: string,
+    /** Applies the migration to a file tree */
+    up: (fileTree: MongoFileTree) => Promise<void>
+}
+
+/**
+ * Shape of each document of the schema collection of a file tree, which records the migrations applied to it.
+ */
+interface MigrationDocument{
+    /** Version of the migration */
+    _id: number,
+    description: string,
+    appliedAt: Date
+}
+
+/**
+ * Migrations of the schema of a file tree, in the order they are applied. New migrations are added at the end, with the next version.
+ */
+const migrations: Migration[] = [
+    {
+        version:1,
+        description:"Create the indexes of the folder storage collection, of the files collection of the GridFS bucket, and of the trash",
+        up:(fileTree)=>fileTree.ensureIndexes()
+    }
+]
+
+/**
+ * Converts the folders and files of a file tree that are stored in the other storage mode to the storage mode of the file tree:
+ * from their path and the path of their parent folder to the id of their parent folder, or back. Folders and files whose parent folder
+ * does not exist are left as they are. Resolves to the number of converted folders and file versions.
+ * Unlike migrations, the conversion depends on the options of the file tree, so it is applied by its `migrateStorageMode` method.
+ */
+const convertStorageMode = async (fileTree: MongoFileTree): Promise<number> =>{
+    const folders = fileTree.db.collection(fileTree.folderCollectionName)
+    const files = fileTree.db.collection(fileTree.bucketName+".files")
+    const rootPath = fileTree.folderCollectionName
+    const trashPath = fileTree.trashCollectionName
+
+    const folderDocuments = await folders.find({}, {projection:{"name":1, "path":1, "parentDirectory":1, "parentId":1}}).toArray()
+    const foldersById = new Map(folderDocuments.map((folder)=>[folder._id.toHexString(), folder]))
+
+    // Folders may be stored in either mode if a previous conversion failed part way through
+    const paths = new Map<string, string | undefined>()
+    const pathOf = (folder: Document, visited: Set<string> = new Set()): string | undefined =>{
+        const key = folder._id.toHexString()
+        if(!paths.has(key)){
+            let parentDirectory: string | undefined
+            if(folder.path !== undefined){
+                paths.set(key, folder.path)
+                return folder.path
+            }
+            if(folder.parentId === null){
+                parentDirectory = rootPath
+            }
+            else if(typeof folder.parentId === "string"){
+                parentDirectory = folder.parentId
+            }
+            else if(folder.parentId instanceof ObjectId && !visited.has(key)){
+                const parent = foldersById.get(folder.parentId.toHexString())
+                parentDirectory = parent && pathOf(parent, visited.add(key))
+            }
+            paths.set(key, parentDirectory === undefined ? undefined : parentDirectory+`/${folder.name}`)
+        }
+        return paths.get(key)
+    }
+
+    let count = 0
+
+    if(fileTree.storageMode === "parentId"){
+        const ids = new Map<string, ObjectId | string | null>([[rootPath, null], [trashPath, trashPath]])
+        for(const folder of folderDocuments){
+            const path = pathOf(folder)
+            if(path !== undefined){
+                ids.set(path, folder._id)
+            }
+        }
+
+        const operations: AnyBulkWriteOperation[] = folderDocuments
+            .filter((folder)=>folder.path !== undefined && ids.has(folder.parentDirectory))
+            .map((folder)=>({updateOne:{filter:{"_id":folder._id}, update:{$set:{"parentId":ids.get(folder.parentDirectory)}, $unset:{"path":"", "parentDirectory":""}}}}))
+        if(operations.length > 0){
+            count += (await folders.bulkWrite(operations)).modifiedCount
+        }
+
+        for(const parentDirectory of await files.distinct("metadata.parentDirectory", {"metadata.path":{$exists:true}})){
+            if(ids.has(parentDirectory)){
+                count += (await files.updateMany({"metadata.parentDirectory":parentDirectory, "metadata.path":{$exists:true}}, {
+                    $set:{"metadata.parentId":ids.get(parentDirectory)},
+                    $unset:{"metadata.path":"", "metadata.parentDirectory":""}
+                })).modifiedCount
+            }
+        }
+    }
+    else{
+        const parentPathOf = (parentId: ObjectId | string | null): string | undefined =>{
+            if(parentId === null){
+                return rootPath
+            }
+            if(typeof parentId === "string"){
+                return parentId
+            }
+            const parent = foldersById.get(parentId.toHexString())
+            return parent && pathOf(parent)
+        }
+
+        const operations: AnyBulkWriteOperation[] = []
+        for(const folder of folderDocuments){
+            const parentDirectory = folder.path === undefined && folder.parentId !== undefined ? parentPathOf(folder.parentId) : undefined
+            if(parentDirectory !== undefined){
+                operations.push({updateOne:{filter:{"_id":folder._id}, update:{$set:{"path":parentDirectory+`/${folder.name}`, "parentDirectory":parentDirectory}, $unset:{"parentId":""}}}})
+            }
+        }
+        if(operations.length > 0){
+            count += (await folders.bulkWrite(operations)).modifiedCount
+        }
+
+        for(const parentId of await files.distinct("metadata.parentId")){
+            const parentDirectory = parentPathOf(parentId)
+            if(parentDirectory !== undefined){
+                count += (await files.updateMany({"metadata.parentId":parentId}, [
+                    {$set:{"metadata.parentDirectory":{$literal:parentDirectory}, "metadata.path":{$concat:[{$literal:parentDirectory+"/"}, "$filename"]}}},
+                    {$unset:"metadata.parentId"}
+                ])).modifiedCount
+            }
+        }
+    }
+
+    return count
+}
+
+export {Migration, MigrationDocument, migrations, convertStorageMode}
@@ -0,0 +1,154 @@
+/**
+ * Functions for detecting the media type (MIME type) of files from their name and from the first bytes of their data.
+ */
+
+/**
+ * Number of bytes at the start of a file that are enough to detect its media type
+ */
+const sniffLength = 512
+
+/**
+ * Media types by file extension, in lower case
+ */
+const extensionTypes: {[extension: string]: string} = {
+    "txt":"text/plain", "log":"text/plain", "md":"text/markdown", "csv":"text/csv", "tsv":"text/tab-separated-values",
+    "html":"text/html", "htm":"text/html", "css":"text/css", "xml":"application/xml", "json":"application/json", "yaml":"application/yaml", "yml":"application/yaml",
+    "js":"text/javascript", "mjs":"text/javascript", "svg":"image/svg+xml",
+    "png":"image/png", "jpg":"image/jpeg", "jpeg":"image/jpeg", "gif":"image/gif", "webp":"image/webp", "bmp":"image/bmp", "ico":"image/vnd.microsoft.icon",
+    "tif":"image/tiff", "tiff":"image/tiff", "avif":"image/avif", "heic":"image/heic",
+    "mp3":"audio/mpeg", "wav":"audio/wav", "ogg":"audio/ogg", "flac":"audio/flac", "m4a":"audio/mp4",
+    "mp4":"video/mp4", "m4v":"video/mp4", "mov":"video/quicktime", "webm":"video/webm", "avi":"video/x-msvideo", "mkv":"video/x-matroska",
+    "pdf":"application/pdf", "zip":"application/zip", "gz":"application/gzip", "tgz":"application/gzip", "tar":"application/x-tar", "bz2":"application/x-bzip2",
+    "7z":"application/x-7z-compressed", "rar":"application/vnd.rar", "jar":"application/java-archive", "epub":"application/epub+zip", "wasm":"application/wasm",
+    "doc":"application/msword", "xls":"application/vnd.ms-excel", "ppt":"application/vnd.ms-powerpoint",
+    "docx":"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "xlsx":"application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "pptx":"application/vnd.openxmlformats-officedocument.presentationml.presentation",
+    "odt":"application/vnd.oasis.opendocument.text", "ods":"application/vnd.oasis.opendocument.spreadsheet", "odp":"application/vnd.oasis.opendocument.presentation"
+}
+
+/**
+ * Signatures of the first bytes of files and the media types they identify. A null byte in a signature matches any byte.
+ */
+const signatures: {offset: number, bytes: (number | null)[], type: string}[] = [
+    {offset:0, bytes:[0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A], type:"image/png"},
+    {offset:0, bytes:[0xFF, 0xD8, 0xFF], type:"image/jpeg"},
+    {offset:0, bytes:[0x47, 0x49, 0x46, 0x38], type:"image/gif"},
+    {offset:0, bytes:[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x45, 0x42, 0x50], type:"image/webp"},
+    {offset:0, bytes:[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x57, 0x41, 0x56, 0x45], type:"audio/wav"},
+    {offset:0, bytes:[0x52, 0x49, 0x46, 0x46, null, null, null, null, 0x41, 0x56, 0x49, 0x20], type:"video/x-msvideo"},
+    {offset:0, bytes:[0x42, 0x4D], type:"image/bmp"},
+    {offset:0, bytes:[0x49, 0x49, 0x2A, 0x00], type:"image/tiff"},
+    {offset:0, bytes:[0x4D, 0x4D, 0x00, 0x2A], type:"image/tiff"},
+    {offset:0, bytes:[0x00, 0x00, 0x01, 0x00], type:"image/vnd.microsoft.icon"},
+    {offset:0, bytes:[0x25, 0x50, 0x44, 0x46, 0x2D], type:"application/pdf"},
+    {offset:0, bytes:[0x50, 0x4B, 0x03, 0x04], type:"application/zip"},
+    {offset:0, bytes:[0x50, 0x4B, 0x05, 0x06], type:"application/zip"},
+    {offset:0, bytes:[0x1F, 0x8B], type:"application/gzip"},
+    {offset:0, bytes:[0x42, 0x5A, 0x68], type:"application/x-bzip2"},
+    {offset:0, bytes:[0x37, 0x7A, 0xBC, 0xAF, 0x27, 0x1C], type:"application/x-7z-compressed"},
+    {offset:0, bytes:[0x52, 0x61, 0x72, 0x21, 0x1A, 0x07], type:"application/vnd.rar"},
+    {offset:257, bytes:[0x75, 0x73, 0x74, 0x61, 0x72], type:"application/x-tar"},
+    {offset:0, bytes:[0xD0, 0xCF, 0x11, 0xE0, 0xA1, 0xB1, 0x1A, 0xE1], type:"application/x-ole-storage"},
+    {offset:0, bytes:[0x00, 0x61, 0x73, 0x6D], type:"application/wasm"},
+    {offset:0, bytes:[0x49, 0x44, 0x33], type:"audio/mpeg"},
+    {offset:0, bytes:[0xFF, 0xFB], type:"audio/mpeg"},
+    {offset:0, bytes:[0x4F, 0x67, 0x67, 0x53], type:"audio/ogg"},
+    {offset:0, bytes:[0x66, 0x4C, 0x61, 0x43], type:"audio/flac"},
+    {offset:4, bytes:[0x66, 0x74, 0x79, 0x70, 0x71, 0x74], type:"video/quicktime"},
+    {offset:4, bytes:[0x66, 0x74, 0x79, 0x70], type:"video/mp4"},
+    {offset:0, bytes:[0x1A, 0x45, 0xDF, 0xA3], type:"video/webm"}
+]
+
+/**
+ * Media types that are containers of more specific formats, and the more specific types that the extension of a file can refine them into
+ */
+const containerTypes: {[type: string]: string[]} = {
+    "application/zip":["docx", "xlsx", "pptx", "odt", "ods", "odp", "jar", "epub"].map((extension)=>extensionTypes[extension]),
+    "application/x-ole-storage":["doc", "xls", "ppt"].map((extension)=>extensionTypes[extension]),
+    "video/mp4":["m4a", "avif", "heic"].map((extension)=>extensionTypes[extension]),
+    "video/webm":["mkv"].map((extension)=>extensionTypes[extension])
+}
+
+/**
+ * Returns the media type matching the extension of a file name, or undefined if the extension is unknown.
+ * @param {string} name Name of the file
+ * @example
+ *
+ * contentTypeFromName("report.PDF") //"application/pdf"
+ */
+const contentTypeFromName = (name: string): string | undefined =>{
+    const extensionIndex = name.lastIndexOf(".")
+    return extensionIndex > 0 ? extensionTypes[name.slice(extensionIndex+1).toLowerCase()] : undefined
+}
+
+/**
+ * Returns the media type identified by the first bytes of a file, or undefined if they do not match a known signature.
+ * Data made of UTF-8 text without control characters is identified as 'text/plain'.
+ * @param {Buffer} bytes First bytes of the file. The first 512 bytes are enough.
+ * @example
+ *
+ * contentTypeFromBytes(Buffer.from("%PDF-1.7")) //"application/pdf"
+ */
+const contentTypeFromBytes = (bytes: Buffer): string | undefined =>{
+    const signature = signatures.find(({offset, bytes:signatureBytes})=>{
+        return bytes.length >= offset+signatureBytes.length && signatureBytes.every((byte, index)=>byte === null || bytes[offset+index] === byte)
+    })
+    if(signature){
+        return signature.type
+    }
+    return bytes.length > 0 && isText(bytes) ? "text/plain" : undefined
+}
+
+/**
+ * Returns the media type of a file from its first bytes and its name. The first bytes are trusted over the extension, unless the extension names
+ * a more specific format stored in the container format they identify, like a .docx file, which is a zip file.
+ * Unknown files are 'application/octet-stream'.
+ * @param {string} name Name of the file
+ * @param {Buffer} bytes First bytes of the file. The first 512 bytes are enough.
+ * @example
+ *
+ * detectContentType("sample.txt", fs.readFileSync("test.PNG")) //"image/png"
+ * detectContentType("report.docx", zipBytes) //"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+ */
+const detectContentType = (name: string, bytes: Buffer): string =>{
+    const nameType = contentTypeFromName(name)
+    const bytesType = contentTypeFromBytes(bytes)
+
+    if(bytesType === undefined){
+        return nameType ?? "application/octet-stream"
+    }
+    // Text formats cannot be told apart from their bytes, so the extension is more specific
+    if(bytesType === "text/plain" && nameType !== undefined){
+        return nameType
+    }
+    if(nameType !== undefined && containerTypes[bytesType]?.includes(nameType)){
+        return nameType
+    }
+    return bytesType === "application/x-ole-storage" ? "application/octet-stream" : bytesType
+}
+
+/**
+ * Returns true if `value` is a valid media type, like 'text/plain' or 'text/html; charset=utf-8'.
+ * @param {string} value Media type to check
+ */
+const isContentType = (value: unknown): boolean =>{
+    return typeof value === "string" && /^[\w.+-]+\/[\w.+-]+(\s*;\s*[\w.+-]+=("[^"]*"|[\w.+-]+))*$/.test(value)
+}
+
+/**
+ * Returns true if `bytes` is UTF-8 text without control characters other than whitespace. A character cut off at the end is allowed.
+ */
+const isText = (bytes: Buffer): boolean =>{
+    for(let index = 0; index < bytes.length; index++){
+        const byte = bytes[index]
+        if(byte < 0x20 && byte !== 0x09 && byte !== 0x0A && byte !== 0x0C && byte !== 0x0D){
+            return false
+        }
+    }
+    const text = bytes.toString("utf8")
+    const replacementIndex = text.indexOf("�")
+    return replacementIndex === -1 || replacementIndex >= text.length-3
+}
+
+export {sniffLength, contentTypeFromName, contentTypeFromBytes, detectContentType, isContentType}
@@ -0,0 +1,216 @@
+/**
+ * Functions for working with the paths of the folders and files of a file tree.
+ * Paths are made of names separated by '/', and the first name of an absolute path is always the name of the root directory
+ * (the name of the folder storage collection). `.` refers to the current folder and `..` to the parent folder.
+ */
+
+/**
+ * Splits a path into the names it is made of. Empty names caused by leading, trailing, or repeated '/' are left out.
+ * @param {string} path Path to split
+ * @example
+ *
+ * splitPath("sample-folder//subfolder/") //["sample-folder", "subfolder"]
+ */
+const splitPath = (path: string): string[] =>{
+    return path.split("/").filter((name)=>name !== "")
+}
+
+/**
+ * Normalizes a path by removing empty names and resolving `.` and `..`. Like in a filesystem, `..` at the start of a path is ignored,
+ * so a path can never go above its first name, or above its first `minLength` names.
+ * @param {string} path Path to normalize
+ * @param {number} minLength Number of names at the start of the path that `..` cannot remove. Defaults to 1.
+ * @example
+ *
+ * normalizePath("sample-folder/./subfolder/../other-folder/") //"sample-folder/other-folder"
+ * normalizePath("sample-folder/subfolder/../../other-folder", 2) //"sample-folder/subfolder/other-folder"
+ */
+const normalizePath = (path: string, minLength: number = 1): string =>{
+    const names: string[] = []
+    for(const name of splitPath(path)){
+        if(name === "."){
+            continue
+        }
+        if(name === ".."){
+            // The root directory is its own parent
+            if(names.length > minLength){
+                names.pop()
+            }
+            continue
+        }
+        names.push(name)
+    }
+    return names.join("/")
+}
+
+/**
+ * Joins paths together and normalizes the result.
+ * @param {string[]} paths Paths to join
+ * @example
+ *
+ * joinPath("sample-folder/subfolder", "../sample.txt") //"sample-folder/sample.txt"
+ */
+const joinPath = (...paths: string[]): string =>{
+    return normalizePath(paths.join("/"))
+}
+
+/**
+ * Resolves a path into an absolute path of a file tree. A path is treated as absolute if its first name is the name of the root directory,
+ * unless `isRelative` is true. Otherwise it is treated as relative to the current working directory, and `..` cannot go above `basePath`.
+ * @param {string} path Absolute path, or path relative to `currentWorkingDirectory`
+ * @param {string} currentWorkingDirectory Absolute path of the current working directory
+ * @param {string} root Name of the root directory
+ * @param {boolean} isRelative If true, `path` is always treated as relative to the current working directory. Defaults to false.
+ * @param {string} basePath Absolute path of a folder containing the current working directory. Defaults to the root directory.
+ * @example
+ *
+ * resolvePath("../sample.txt", "sample-folder/subfolder", "sample-folder") //"sample-folder/sample.txt"
+ * resolvePath("sample-folder/sample.txt", "sample-folder/subfolder", "sample-folder") //"sample-folder/sample.txt"
+ * resolvePath("../sample.txt", "sample-folder/subfolder", "sample-folder", false, "sample-folder/subfolder") //"sample-folder/subfolder/sample.txt"
+ */
+const resolvePath = (path: string, currentWorkingDirectory: string, root: string, isRelative: boolean = false, basePath: string = root): string =>{
+    if(!isRelative && splitPath(path)[0] === root){
+        return normalizePath(path)
+    }
+    return normalizePath(currentWorkingDirectory+"/"+path, splitPath(basePath).length)
+}
+
+/**
+ * Returns true if `path` is the folder at `folderPath` or is inside it.
+ * @param {string} folderPath Normalized absolute path of a folder
+ * @param {string} path Normalized absolute path of a folder or file
+ * @example
+ *
+ * isWithin("sample-folder/foo", "sample-folder/foo") //true
+ * isWithin("sample-folder/foo", "sample-folder/foobar") //false
+ */
+const isWithin = (folderPath: string, path: string): boolean =>{
+    return path === folderPath || isAncestor(folderPath, path)
+}
+
+/**
+ * Returns the path of the parent folder of `path`, or an empty string if `path` is the root directory.
+ * @param {string} path Normalized absolute path
+ */
+const parentPath = (path: string): string =>{
+    return path.slice(0, Math.max(path.lastIndexOf("/"), 0))
+}
+
+/**
+ * Returns the last name of `path`.
+ * @param {string} path Normalized path
+ */
+const baseName = (path: string): string =>{
+    return path.slice(path.lastIndexOf("/")+1)
+}
+
+/**
+ * Returns `path` and the paths of all the folders containing it, from the closest one to the root directory.
+ * @param {string} path Normalized absolute path
+ * @example
+ *
+ * ancestorPaths("sample-folder/foo/bar") //["sample-folder/foo/bar", "sample-folder/foo", "sample-folder"]
+ */
+const ancestorPaths = (path: string): string[] =>{
+    const names = splitPath(path)
+    return names.map((name, index)=>names.slice(0, names.length-index).join("/"))
+}
+
+/**
+ * Returns true if the folder at `ancestorPath` contains `path`, directly or in one of its subfolders.
+ * A path is not an ancestor of itself.
+ * @param {string} ancestorPath Normalized absolute path of a folder
+ * @param {string} path Normalized absolute path of a folder or file
+ * @example
+ *
+ * isAncestor("sample-folder/foo", "sample-folder/foo/bar") //true
+ * isAncestor("sample-folder/foo", "sample-folder/foobar") //false
+ */
+const isAncestor = (ancestorPath: string, path: string): boolean =>{
+    return path.startsWith(ancestorPath+"/")
+}
+
+/**
+ * Escapes the characters of `text` that have a special meaning in regular expressions.
+ * @param {string} text Text to escape
+ */
+const escapeRegExp = (text: string): string =>{
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Returns a regular expression that matches `folderPath` and the paths of all the folders inside it, and nothing else.
+ * Matching it against the `parentDirectory` property of folders and files finds every folder and file inside `folderPath`.
+ * @param {string} folderPath Normalized absolute path of a folder
+ * @example
+ *
+ * subtreeRegExp("sample-folder/foo").test("sample-folder/foo/bar") //true
+ * subtreeRegExp("sample-folder/foo").test("sample-folder/foobar") //false
+ */
+const subtreeRegExp = (folderPath: string): RegExp =>{
+    return new RegExp("^"+escapeRegExp(folderPath)+"(/|$)")
+}
+
+/**
+ * Converts a glob pattern into a regular expression that matches whole names. `*` matches any number of characters
+ * and `?` matches exactly one character. Every other character only matches itself.
+ * @param {string} pattern Glob pattern
+ * @example
+ *
+ * globToRegExp("*.pdf").test("report.pdf") //true
+ * globToRegExp("report-?.pdf").test("report-10.pdf") //false
+ */
+const globToRegExp = (pattern: string): RegExp =>{
+    const source = pattern.split("").map((character)=>{
+        if(character === "*"){
+            return ".*"
+        }
+        if(character === "?"){
+            return "."
+        }
+        return escapeRegExp(character)
+    }).join("")
+    return new RegExp("^"+source+"$")
+}
+
+/**
+ * Checks that `name` can be used as the name of a file or folder. Returns the message of the error to raise if it cannot, or undefined if it can.
+ * @param {string} name Name of the file or folder
+ * @param {string} kind Whether the name is the name of a file or of a folder
+ * @example
+ *
+ * validateName("sample.txt", "file") //undefined
+ * validateName("sample?.txt", "file") //'Character "?" cannot be used as part of a file name'
+ * validateName("", "folder") //'"" cannot be used as a folder name'
+ */
+const validateName = (name: string, kind: "file" | "folder"): string | undefined =>{
+    const invalidCharacter = name.match(/\\|[/$%?@"'!$><\s*&{}#=`|:+]/)
+    if(invalidCharacter){
+        return `Character "${invalidCharacter[0]}" cannot be used as part of a ${kind} name`
+    }
+    if(name === "" || name === "." || name === ".."){
+        return `"${name}" cannot be used as a ${kind} name`
+    }
+    return undefined
+}
+
+/**
+ * Adds a number to a name to make a new name, like when a folder or file is restored next to one with the same name.
+ * The number is added before the extension of file names.
+ * @param {string} name Name of the file or folder
+ * @param {number} number Number to add to the name
+ * @param {string} kind Whether the name is the name of a file or of a folder
+ * @example
+ *
+ * numberedName("sample.txt", 1, "file") //"sample-1.txt"
+ * numberedName("sample.folder", 2, "folder") //"sample.folder-2"
+ */
+const numberedName = (name: string, number: number, kind: "file" | "folder"): string =>{
+    const extensionIndex = kind === "file" ? name.lastIndexOf(".") : -1
+    if(extensionIndex > 0){
+        return name.slice(0, extensionIndex)+`-${number}`+name.slice(extensionIndex)
+    }
+    return name+`-${number}`
+}
+
+export {splitPath, normalizePath, joinPath, resolvePath, isWithin, parentPath, baseName, ancestorPaths, isAncestor, escapeRegExp, subtreeRegExp, validateName, numberedName, globToRegExp}
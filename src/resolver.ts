@@ -0,0 +1,221 @@
+/**
+ * Resolution of paths for file trees stored with folder id references, where folders and files do not store their path,
+ * but the id of their parent folder in their `parentId` property (`metadata.parentId` for files).
+ */
+import {Collection, Document, ObjectId} from "mongodb"
+import {splitPath} from "./path"
+
+/**
+ * Parent of a folder or file stored with folder id references: the id of the folder containing it, null in the root directory,
+ * or the name of the trash collection for the folders and files moved to the trash.
+ */
+type ParentId = ObjectId | string | null
+
+/**
+ * Shape of each folder kept in the cache of a FolderResolver.
+ */
+interface CachedFolder{
+    id: ObjectId,
+    name: string,
+    parentId: ParentId,
+    /** Time at which the folder was read, in milliseconds */
+    cachedAt: number
+}
+
+/** Returns a string identifying `parentId`, to key maps with */
+const keyOf = (parentId: ParentId): string =>{
+    return parentId instanceof ObjectId ? parentId.toHexString() : String(parentId)
+}
+
+/**
+ * Resolves the paths of a file tree stored with folder id references into the ids of its folders and back. Folders are cached once read,
+ * so resolving the paths of many folders and files in the same folders reads each folder once, and resolving the path of a folder that is
+ * not cached reads all of its ancestors in a single query. Cached folders expire after `ttl` milliseconds, after which renames and moves made
+ * by other processes are seen; the cache must be cleared after each rename, move, or deletion of a folder made by this process.
+ */
+class FolderResolver{
+
+    private _folders: Collection
+    private _rootPath: string
+    private _trashPath: string
+    private _ttl: number
+    private _byId: Map<string, CachedFolder>
+    private _byName: Map<string, CachedFolder>
+
+    constructor(folders: Collection, rootPath: string, trashPath: string, ttl: number){
+        this._folders = folders
+
+        this._rootPath = rootPath
+
+        this._trashPath = trashPath
+
+        this._ttl = ttl
+
+        this._byId = new Map()
+
+        this._byName = new Map()
+    }
+
+    /**
+     * Forgets every cached folder.
+     */
+    clear(): void{
+        this._byId.clear()
+        this._byName.clear()
+    }
+
+    /**
+     * Resolves to the parent id that folders and files inside the folder at `path` have, or to undefined if no folder has that path.
+     * The root directory and the trash have no folder document, and resolve to null and to the name of the trash collection.
+     */
+    async idOf(path: string): Promise<ParentId | undefined>{
+        const [topName, ...names] = splitPath(path)
+        let parentId: ParentId
+
+        if(topName === this._rootPath){
+            parentId = null
+        }
+        else if(topName === this._trashPath){
+            parentId = this._trashPath
+        }
+        else{
+            return undefined
+        }
+
+        for(const name of names){
+            let folder = this._getFresh(this._byName, keyOf(parentId)+"/"+name)
+            if(!folder){
+                const folderDocument = await this._folders.findOne({"parentId":parentId, "name":name})
+                if(!folderDocument){
+                    return undefined
+                }
+                folder = this._cache(folderDocument)
+            }
+            parentId = folder.id
+        }
+        return parentId
+    }
+
+    /**
+     * Resolves to the path of the folder that `parentId` stands for, or to undefined if that folder or one of its ancestors does not exist.
+     */
+    async pathOf(parentId: ParentId): Promise<string | undefined>{
+        return (await this.pathsOf([parentId])).get(keyOf(parentId))
+    }
+
+    /**
+     * Resolves to the paths of the folders that `parentIds` stand for, keyed by the hex string of their id, or by the value of `parentId`
+     * if it is not an id. The folders that are not cached are read with all of their ancestors in a single query.
+     */
+    async pathsOf(parentIds: ParentId[]): Promise<Map<string, string | undefined>>{
+        const missingIds = parentIds.filter((parentId)=>this._getCachedPath(parentId) === undefined) as ObjectId[]
+
+        // Folders read by this call are used even if the cache expires immediately
+        const readAt = Date.now()
+        if(missingIds.length > 0){
+            const folders = await this._folders.aggregate([
+                {$match:{"_id":{$in:missingIds}}},
+                {$graphLookup:{from:this._folders.collectionName, startWith:"$parentId", connectFromField:"parentId", connectToField:"_id", as:"ancestors"}}
+            ]).toArray()
+            for(const folder of folders){
+                this._cache(folder)
+                folder.ancestors.forEach((ancestor: Document)=>this._cache(ancestor))
+            }
+        }
+
+        return new Map(parentIds.map((parentId)=>[keyOf(parentId), this._getCachedPath(parentId, readAt)]))
+    }
+
+    /**
+     * Resolves to the folders inside the folder at `path`, at any depth, with their `path` and `parentDirectory` properties set,
+     * or to an empty array if no folder has that path. The folders are read in a single query.
+     */
+    async subtreeOf(path: string): Promise<Document[]>{
+        const parentId = await this.idOf(path)
+
+        if(parentId === undefined){
+            return []
+        }
+
+        const subfolders = await this._folders.aggregate([
+            {$match:{"parentId":parentId}},
+            {$graphLookup:{from:this._folders.collectionName, startWith:"$_id", connectFromField:"_id", connectToField:"parentId", as:"descendants", depthField:"depth"}}
+        ]).toArray()
+
+        const folders: Document[] = []
+        for(const {descendants, ...subfolder} of subfolders){
+            folders.push(subfolder, ...descendants.sort((a: Document, b: Document)=>a.depth-b.depth).map(({depth, ...descendant}: Document)=>descendant))
+        }
+
+        // Each folder comes after its parent, so the path of its parent is always known
+        const paths = new Map<string, string>([[keyOf(parentId), path]])
+        for(const folder of folders){
+            this._cache(folder)
+            folder.parentDirectory = paths.get(keyOf(folder.parentId))
+            folder.path = folder.parentDirectory+"/"+folder.name
+            paths.set(keyOf(folder._id), folder.path)
+        }
+        return folders
+    }
+
+    /**
+     * Sets the `path` and `parentDirectory` properties of folder documents, or the `metadata.path` and `metadata.parentDirectory` properties
+     * of GridFS file documents, from their parent id. Documents whose parent folder does not exist get no path.
+     */
+    async setPaths<T extends Document>(documents: T[], kind: "folder" | "file"): Promise<T[]>{
+        const parentIdOf = (document: Document): ParentId => kind === "folder" ? document.parentId : document.metadata?.parentId
+        const parentPaths = await this.pathsOf(documents.map(parentIdOf))
+
+        for(const document of documents){
+            const parentDirectory = parentPaths.get(keyOf(parentIdOf(document)))
+            const target: Document = kind === "folder" ? document : document.metadata
+            target.parentDirectory = parentDirectory
+            target.path = parentDirectory === undefined ? undefined : parentDirectory+"/"+(kind === "folder" ? document.name : document.filename)
+        }
+        return documents
+    }
+
+    /**
+     * Returns the path of the folder that `parentId` stands for if it and all of its ancestors are cached and have not expired,
+     * or were cached since `readSince`.
+     */
+    private _getCachedPath(parentId: ParentId, readSince: number = Infinity): string | undefined{
+        const names: string[] = []
+
+        while(parentId instanceof ObjectId){
+            const folder = this._getFresh(this._byId, parentId.toHexString(), readSince)
+            // A folder cannot contain itself, but a corrupted tree could
+            if(!folder || names.length > this._byId.size){
+                return undefined
+            }
+            names.unshift(folder.name)
+            parentId = folder.parentId
+        }
+
+        if(parentId !== null && parentId !== this._trashPath){
+            return undefined
+        }
+        return [parentId ?? this._rootPath, ...names].join("/")
+    }
+
+    /**
+     * Returns the cached folder of `map` under `key` if it has not expired, or was cached since `readSince`.
+     */
+    private _getFresh(map: Map<string, CachedFolder>, key: string, readSince: number = Infinity): CachedFolder | undefined{
+        const folder = map.get(key)
+        return folder && (Date.now()-folder.cachedAt < this._ttl || folder.cachedAt >= readSince) ? folder : undefined
+    }
+
+    /**
+     * Caches a folder document, by id and by parent and name.
+     */
+    private _cache(folderDocument: Document): CachedFolder{
+        const folder: CachedFolder = {id:folderDocument._id, name:folderDocument.name, parentId:folderDocument.parentId ?? null, cachedAt:Date.now()}
+        this._byId.set(keyOf(folder.id), folder)
+        this._byName.set(keyOf(folder.parentId)+"/"+folder.name, folder)
+        return folder
+    }
+}
+
+export default FolderResolver
+export {ParentId}
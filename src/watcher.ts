@@ -0,0 +1,203 @@
+import {Db, ObjectId, ChangeStream, ChangeStreamDocument, Document} from "mongodb"
+import {EventEmitter} from "events"
+import {isDeepStrictEqual} from "util"
+import {subtreeRegExp} from "./path"
+import type FolderResolver from "./resolver"
+
+/**
+ * Payloads of the events emitted by the MongoFileTree class after each change to the file tree, and by the watcher returned by its `watch` method,
+ * by name of the event. Ids of files are the ids of their latest version.
+ */
+interface FileTreeEvents{
+    /** A file was uploaded, copied, or restored from the trash to a path where no file existed */
+    fileUploaded: {id: ObjectId, path: string},
+    /** A new latest version of an existing file was uploaded or restored */
+    fileVersioned: {id: ObjectId, path: string, previousId: ObjectId | null},
+    /** A file was renamed or moved from `oldPath` to `path` */
+    fileRenamed: {id: ObjectId, path: string, oldPath: string},
+    /** A file was deleted, or moved to the trash if `toTrash` is true */
+    fileDeleted: {id: ObjectId, path: string, toTrash: boolean},
+    /** A folder was created, copied, or restored from the trash */
+    folderCreated: {id: ObjectId, path: string},
+    /** A folder was renamed or moved from `oldPath` to `path` */
+    folderRenamed: {id: ObjectId, path: string, oldPath: string},
+    /** A folder was deleted, or moved to the trash if `toTrash` is true. `id` is null when the root directory is emptied. */
+    folderDeleted: {id: ObjectId | null, path: string, toTrash: boolean},
+    /** The custom metadata of a folder or file was changed */
+    metadataChanged: {kind: "folder" | "file", id: ObjectId, path: string},
+    /** Older versions of a file were deleted by the `pruneFileVersions` method. Not emitted by the watcher, which cannot tell pruning from other deletions. */
+    fileVersionsPruned: {id: ObjectId, path: string, deletedIds: ObjectId[]}
+}
+
+/**
+ * EventEmitter whose events and payloads are the properties of `Events`.
+ */
+interface TypedEventEmitter<Events> extends Omit<EventEmitter, "on" | "once" | "off" | "emit">{
+    on<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): this
+    once<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): this
+    off<E extends keyof Events>(event: E, listener: (payload: Events[E]) => void): this
+    emit<E extends keyof Events>(event: E, payload: Events[E]): boolean
+}
+
+/**
+ * Returns the EventEmitter class, typed to only emit the events of `Events`.
+ */
+const typedEventEmitter = <Events>() => EventEmitter as new () => TypedEventEmitter<Events>
+
+/**
+ * Emits the events of `FileTreeEvents` for the changes made to a file tree by any process, using MongoDB change streams on the folder storage
+ * collection and on the files collection of the GridFS bucket. Unlike the events emitted by the MongoFileTree class, changes are reported
+ * document by document: renaming, moving, or deleting a folder also emits an event for each of its subfolders and files.
+ * Change streams require a replica set or a sharded cluster, and the watcher enables the pre- and post-images of both collections
+ * (MongoDB 6.0 or later) to know the paths of folders and files before they changed. Errors are emitted as `error` events.
+ * With the 'parentId' storage mode, the paths of folders and files are resolved from the ids of their parent folders with `resolver`: renaming or moving
+ * a folder only emits an event for the folder itself, and the folders and files deleted along with a folder emit no event if the folder containing them
+ * is deleted first.
+ */
+class FileTreeWatcher extends typedEventEmitter<FileTreeEvents & {error: Error}>(){
+
+    private _db: Db
+    private _bucketName: string
+    private _folderCollectionName: string
+    private _changeStreams: ChangeStream[]
+    private _resolver?: FolderResolver
+
+    constructor(db: Db, bucketName: string, folderCollectionName: string, resolver?: FolderResolver){
+        super()
+
+        this._db = db
+
+        this._bucketName = bucketName
+
+        this._folderCollectionName = folderCollectionName
+
+        this._changeStreams = []
+
+        this._resolver = resolver
+    }
+
+    /**
+     * Enables the pre- and post-images of the folder storage collection and of the files collection, and opens a change stream on each of them.
+     */
+    async start(): Promise<void>{
+        for(const collectionName of [this._folderCollectionName, this._bucketName+".files"]){
+            const exists = await this._db.listCollections({name:collectionName}).hasNext()
+            await this._db.command(exists ? {collMod:collectionName, changeStreamPreAndPostImages:{enabled:true}}
+                : {create:collectionName, changeStreamPreAndPostImages:{enabled:true}})
+
+            const changeStream = this._db.collection(collectionName).watch([], {fullDocument:"whenAvailable", fullDocumentBeforeChange:"whenAvailable"})
+            const isFolderCollection = collectionName === this._folderCollectionName
+            changeStream.on("change", (change)=>{
+                (isFolderCollection ? this._onFolderChange(change) : this._onFileChange(change)).catch((e)=>this.emit("error", e))
+            })
+            changeStream.on("error", (e)=>this.emit("error", e))
+            this._changeStreams.push(changeStream)
+        }
+    }
+
+    /**
+     * Closes the change streams. No event is emitted afterwards.
+     */
+    async close(): Promise<void>{
+        await Promise.all(this._changeStreams.map((changeStream)=>changeStream.close()))
+        this._changeStreams = []
+    }
+
+    /**
+     * Returns true if `path` is the path of a folder or file of the file tree, and not of an item in the trash.
+     */
+    private _isInTree(path?: string): boolean{
+        return path !== undefined && subtreeRegExp(this._folderCollectionName).test(path)
+    }
+
+    /**
+     * Sets the paths of the images of a change from the ids of their parent folders, with the 'parentId' storage mode.
+     */
+    private async _setPaths(images: (Document | undefined)[], kind: "folder" | "file"): Promise<void>{
+        if(this._resolver){
+            await this._resolver.setPaths(images.filter((image): image is Document => image !== undefined && (kind === "folder" || image.metadata)), kind)
+        }
+    }
+
+    private async _onFolderChange(change: ChangeStreamDocument): Promise<void>{
+        const [before, after] = imagesOf(change)
+        // The change may have renamed, moved, or deleted a cached folder
+        this._resolver?.clear()
+        await this._setPaths([before, after], "folder")
+        const wasInTree = this._isInTree(before?.path)
+        const isInTree = this._isInTree(after?.path)
+
+        if(!wasInTree && isInTree){
+            this.emit("folderCreated", {id:after?._id, path:after?.path})
+        }
+        else if(wasInTree && !isInTree){
+            this.emit("folderDeleted", {id:before?._id, path:before?.path, toTrash:Boolean(after)})
+        }
+        else if(wasInTree && isInTree && before?.path !== after?.path){
+            this.emit("folderRenamed", {id:after?._id, path:after?.path, oldPath:before?.path})
+        }
+        else if(wasInTree && isInTree && !isDeepStrictEqual(before?.customMetadata, after?.customMetadata)){
+            this.emit("metadataChanged", {kind:"folder", id:after?._id, path:after?.path})
+        }
+    }
+
+    private async _onFileChange(change: ChangeStreamDocument): Promise<void>{
+        const [before, after] = imagesOf(change)
+        await this._setPaths([before, after], "file")
+        // Only the latest version of a file stands for the file, older versions are only history
+        const wasVisible = this._isInTree(before?.metadata?.path) && Boolean(before?.metadata?.isLatest)
+        const isVisible = this._isInTree(after?.metadata?.path) && Boolean(after?.metadata?.isLatest)
+
+        if(!wasVisible && isVisible){
+            // A file moved into the file tree from elsewhere, like the trash, is new even if it has older versions
+            const isRelocated = Boolean(before) && before?.metadata?.path !== after?.metadata?.path
+            const previousVersion = isRelocated ? undefined : (await this._db.collection(this._bucketName+".files")
+                .find({...(this._resolver ? {"metadata.parentId":after?.metadata?.parentId, "filename":after?.filename} : {"metadata.path":after?.metadata?.path}), "_id":{$ne:after?._id}}).sort({uploadDate:-1, _id:-1}).limit(1).toArray())[0]
+
+            if(previousVersion){
+                this.emit("fileVersioned", {id:after?._id, path:after?.metadata?.path, previousId:previousVersion._id})
+            }
+            else{
+                this.emit("fileUploaded", {id:after?._id, path:after?.metadata?.path})
+            }
+        }
+        // A version that stops being the latest without moving was replaced by a new version, which emits its own event
+        else if(wasVisible && !isVisible && before?.metadata?.path !== after?.metadata?.path){
+            this.emit("fileDeleted", {id:before?._id, path:before?.metadata?.path, toTrash:Boolean(after)})
+        }
+        else if(wasVisible && isVisible && before?.metadata?.path !== after?.metadata?.path){
+            this.emit("fileRenamed", {id:after?._id, path:after?.metadata?.path, oldPath:before?.metadata?.path})
+        }
+        else if(wasVisible && isVisible && !isDeepStrictEqual(customMetadataOf(before), customMetadataOf(after))){
+            this.emit("metadataChanged", {kind:"file", id:after?._id, path:after?.metadata?.path})
+        }
+    }
+}
+
+/**
+ * Returns the document changed by `change` as it was before and after the change. Either is undefined if the document did not exist then.
+ */
+const imagesOf = (change: ChangeStreamDocument): [Document | undefined, Document | undefined] =>{
+    switch(change.operationType){
+        case "insert":
+            return [undefined, change.fullDocument]
+        case "update":
+        case "replace":
+            return [change.fullDocumentBeforeChange ?? undefined, change.fullDocument ?? undefined]
+        case "delete":
+            return [change.fullDocumentBeforeChange ?? undefined, undefined]
+        default:
+            return [undefined, undefined]
+    }
+}
+
+/**
+ * Returns the metadata properties of a GridFS file document that were added by users.
+ */
+const customMetadataOf = (file?: Document): Document =>{
+    const {path, parentDirectory, parentId, isLatest, sha256, contentId, acl, contentType, ...customMetadata} = file?.metadata ?? {}
+    return customMetadata
+}
+
+export default FileTreeWatcher
+export {FileTreeEvents, typedEventEmitter}
@@ -0,0 +1,495 @@
+import {IncomingMessage, ServerResponse} from "http"
+import {Readable} from "stream"
+import crypto from "crypto"
+import type MongoFileTree from "./index"
+import type {DirectoryEntry, FileLock} from "./index"
+import {HttpError, RequestHandler, requestTree, sendFile, isFolder, contentTypeOf, statusOf, readBody} from "./http"
+import type {Principal} from "./acl"
+import {joinPath, parentPath, baseName, isAncestor} from "./path"
+
+/**
+ * Shape of the object to be provided as an argument for the `options` parameter of the `createWebDavHandler` function. All properties are optional.
+ */
+interface WebDavHandlerOptions{
+    /** Path under which the file tree is served. The rest of the path of a request is the path of a folder or file relative to the root directory. Defaults to '/webdav'. */
+    basePath?: string,
+    /** Size of the GridFS chunks of uploaded files in bytes. Defaults to 261120 (255 KiB). */
+    chunkSize?: number,
+    /** Longest time a lock is held for in milliseconds, also used for clients asking for locks without a timeout. Defaults to 3600000 (1 hour). */
+    maxLockTimeout?: number,
+    /**
+     * Returns the user on whose behalf a request is handled, checked against the access control lists of the file tree. Requests for which it returns
+     * undefined are answered with a 403 status. If it is not provided, requests are not checked.
+     */
+    getPrincipal?: (req: IncomingMessage) => Principal | undefined | Promise<Principal | undefined>
+}
+
+/**
+ * Largest XML request body accepted by `PROPFIND` and `LOCK` requests in bytes
+ */
+const maxXmlBodySize = 1048576
+
+/**
+ * @description Returns a handler serving a file tree over WebDAV (class 1 and 2), so it can be mounted as a network drive by the file managers of
+ * most operating systems. It has the signature of the handler returned by the `createRequestHandler` function:
+ *
+ * - `PROPFIND` describes a folder and its folders and files, or a file, with a depth of 0 or 1. Requests without a `Depth` header use a depth of 1.
+ *   Every request gets all the properties of the folders and files.
+ * - `GET` and `HEAD` read a file, and `PUT` uploads a new version of it, so every save of a file keeps the previous version.
+ * - `MKCOL` creates a folder, `DELETE` deletes a folder or file, and `MOVE` and `COPY` move, rename, and copy them.
+ * - `LOCK` and `UNLOCK` lock and unlock files with the `lockFile` and `unlockFile` methods, using the lock token as the owner of the lock.
+ *   Locking a path where no file exists creates an empty file, which is deleted if the lock is not granted. Folders cannot be locked.
+ *
+ * The file tree can be a handle returned by its `at` method, to serve only the folder the handle is confined to.
+ * The lock token of the `If` header is used as the owner of the lock of the file written to by a request. Errors are answered with their message as
+ * plain text and the same status as the handler returned by the `createRequestHandler` function, besides the statuses required by WebDAV.
+ * @param {MongoFileTree} fileTree File tree to serve
+ * @param {WebDavHandlerOptions} options Options of the handler. Is optional.
+ * @since 1.1.0
+ * @version 0.1.0
+ * @example
+ *
+ * const fileTree = new MongoFileTree("mongodb://localhost:27017", "GridFS-file-tree-management-sample", "sample-bucket", "sample-folder")
+ * //The file tree can be mounted at http://localhost:8080/webdav/
+ * http.createServer(createWebDavHandler(fileTree)).listen(8080)
+ */
+const createWebDavHandler = (fileTree: MongoFileTree, options: WebDavHandlerOptions = {}): RequestHandler =>{
+    const basePath = "/"+joinPath(options.basePath ?? "/webdav")
+    const chunkSize = options.chunkSize ?? 261120
+    const maxLockTimeout = options.maxLockTimeout ?? 3600000
+
+    return async (req, res, next)=>{
+        let path: string | undefined
+        try{
+            path = treePathOf(req.url ?? "/", basePath, fileTree.basePath)
+        }
+        catch(e){
+            return sendText(res, 400, `Path ${req.url} is not a valid URI`)
+        }
+
+        if(path === undefined){
+            if(next){
+                return next()
+            }
+            return sendText(res, 404, `Path ${req.url} is not served by the file tree`)
+        }
+
+        try{
+            const tree = await requestTree(fileTree, req, options.getPrincipal)
+            const context = {tree, req, res, path, basePath, chunkSize, maxLockTimeout}
+
+            switch(req.method){
+                case "OPTIONS":
+                    res.setHeader("DAV", "1, 2")
+                    res.setHeader("MS-Author-Via", "DAV")
+                    res.setHeader("Allow", allowedMethods)
+                    return sendText(res, 200, "")
+                case "PROPFIND":
+                    return await handlePropfind(context)
+                case "GET":
+                case "HEAD":
+                    if(await isFolder(tree, path)){
+                        res.setHeader("Allow", allowedMethods)
+                        throw new HttpError(405, `Method ${req.method} is not allowed on a folder`)
+                    }
+                    return await sendFile(tree, req, res, path)
+                case "PUT":
+                    return await handlePut(context)
+                case "MKCOL":
+                    return await handleMkcol(context)
+                case "DELETE":
+                    return await handleDelete(context)
+                case "MOVE":
+                case "COPY":
+                    return await handleTransfer(context)
+                case "LOCK":
+                    return await handleLock(context)
+                case "UNLOCK":
+                    return await handleUnlock(context)
+                default:
+                    res.setHeader("Allow", allowedMethods)
+                    throw new HttpError(405, `Method ${req.method} is not allowed`)
+            }
+        }
+        catch(e){
+            if(res.headersSent){
+                res.destroy(e instanceof Error ? e : undefined)
+                return
+            }
+            const message = e instanceof Error ? e.message : String(e)
+            sendText(res, e instanceof HttpError ? e.status : statusOf(e), message)
+        }
+    }
+}
+
+const allowedMethods = "OPTIONS, PROPFIND, GET, HEAD, PUT, MKCOL, DELETE, MOVE, COPY, LOCK, UNLOCK"
+
+/**
+ * Request being handled by the WebDAV handler, with the view of the file tree it is handled with and the options of the handler.
+ */
+interface WebDavContext{
+    tree: MongoFileTree,
+    req: IncomingMessage,
+    res: ServerResponse,
+    /** Absolute path of the folder or file the request is made on */
+    path: string,
+    basePath: string,
+    chunkSize: number,
+    maxLockTimeout: number
+}
+
+/**
+ * Answers `PROPFIND` requests with the properties of a folder and of its folders and files, or of a file.
+ */
+const handlePropfind = async ({tree, req, res, path, basePath}: WebDavContext): Promise<void> =>{
+    const depth = req.headers.depth ?? "1"
+    if(depth !== "0" && depth !== "1"){
+        return sendXml(res, 403, `<D:error xmlns:D="DAV:"><D:propfind-finite-depth/></D:error>`)
+    }
+    // The properties asked for are not read: every property is always returned
+    await readBody(req, maxXmlBodySize)
+
+    const root = tree.basePath
+    let responses: string[]
+
+    if(await isFolder(tree, path)){
+        responses = [propResponse(basePath, root, path, folderProps(path, root))]
+
+        if(depth === "1"){
+            const {entries} = await tree.listDirectory(path)
+            const locks = await tree.listLocks(path)
+            responses.push(...entries.map((entry)=>propResponse(basePath, root, entry.path, entry.kind === "folder" ? folderProps(entry.path, root) : fileProps(entry, locks))))
+        }
+    }
+    else{
+        const stat = await tree.statFile(path)
+        const locks = await tree.listLocks(parentPath(path))
+        const entry = {path, name:baseName(path), size:stat.length, uploadDate:stat.uploadDate, sha256:stat.sha256, id:stat.id, contentType:stat.contentType}
+        responses = [propResponse(basePath, root, path, fileProps(entry, locks))]
+    }
+
+    sendXml(res, 207, `<D:multistatus xmlns:D="DAV:">${responses.join("")}</D:multistatus>`)
+}
+
+/**
+ * Answers `PUT` requests by uploading the request body as a new version of a file.
+ */
+const handlePut = async ({tree, req, res, path, chunkSize}: WebDavContext): Promise<void> =>{
+    if(await isFolder(tree, path)){
+        res.setHeader("Allow", allowedMethods)
+        throw new HttpError(405, `Method PUT is not allowed on a folder`)
+    }
+    await checkParentExists(tree, path)
+
+    const doesFileExist = (await tree.getEntryKind(path)) === "file"
+    await tree.uploadFile(req, {name:baseName(path), chunkSize, lockOwner:lockTokenOf(req), contentType:contentTypeOf(req), targetPath:parentPath(path)})
+
+    sendText(res, doesFileExist ? 204 : 201, "")
+}
+
+/**
+ * Answers `MKCOL` requests by creating a folder.
+ */
+const handleMkcol = async ({tree, req, res, path}: WebDavContext): Promise<void> =>{
+    if((await readBody(req, maxXmlBodySize)) !== ""){
+        throw new HttpError(415, "Method MKCOL does not accept a request body")
+    }
+    if((await tree.getEntryKind(path)) !== null){
+        res.setHeader("Allow", allowedMethods)
+        throw new HttpError(405, `Folder or file with path ${path} already exists`)
+    }
+    await checkParentExists(tree, path)
+
+    await tree.createFolder(baseName(path), {}, parentPath(path))
+
+    sendText(res, 201, "")
+}
+
+/**
+ * Answers `DELETE` requests by deleting a folder or file.
+ */
+const handleDelete = async ({tree, req, res, path}: WebDavContext): Promise<void> =>{
+    await deleteEntry(tree, path, lockTokenOf(req))
+    sendText(res, 204, "")
+}
+
+/**
+ * Answers `MOVE` and `COPY` requests. Moving a folder or file to another folder uses the `moveFolder` or `moveFile` method, and changing its name
+ * uses the `changeFolderName` or `changeFileName` method. Copying a folder or file to another folder with the same name uses the `copyFolder` or
+ * `copyFile` method. Copying it with another name creates a new folder and copies what is inside, or uploads the data of the file again.
+ */
+const handleTransfer = async ({tree, req, res, path, basePath, chunkSize}: WebDavContext): Promise<void> =>{
+    const isCopy = req.method === "COPY"
+    const destinationHeader = req.headers.destination
+    if(typeof destinationHeader !== "string"){
+        throw new HttpError(400, "Missing 'Destination' header")
+    }
+
+    let destinationPath: string | undefined
+    try{
+        destinationPath = treePathOf(destinationHeader, basePath, tree.basePath)
+    }
+    catch(e){
+        throw new HttpError(400, `Destination ${destinationHeader} is not a valid URI`)
+    }
+    if(destinationPath === undefined){
+        throw new HttpError(502, `Destination ${destinationHeader} is not served by the file tree`)
+    }
+
+    const isFolderPath = await isFolder(tree, path)
+    const lockOwner = lockTokenOf(req)
+
+    if(path === tree.basePath){
+        throw new HttpError(403, `Cannot ${isCopy ? "copy" : "move"} root directory of the file tree`)
+    }
+    if(destinationPath === path || (isFolderPath && isAncestor(path, destinationPath))){
+        throw new HttpError(403, `Cannot ${isCopy ? "copy" : "move"} folder or file with path ${path} onto itself or into one of its subfolders`)
+    }
+    if(!isFolderPath && (await tree.getEntryKind(path)) !== "file"){
+        throw new HttpError(404, `File with path ${path} does not exist`)
+    }
+    await checkParentExists(tree, destinationPath)
+
+    const doesDestinationExist = (await tree.getEntryKind(destinationPath)) !== null
+    if(doesDestinationExist && String(req.headers.overwrite ?? "T").toUpperCase() === "F"){
+        throw new HttpError(412, `Folder or file with path ${destinationPath} already exists`)
+    }
+
+    const destinationFolderPath = parentPath(destinationPath)
+    const name = baseName(destinationPath)
+
+    if(isCopy){
+        if(doesDestinationExist){
+            await deleteEntry(tree, destinationPath, lockOwner)
+        }
+        await copyEntry(tree, path, isFolderPath, destinationFolderPath, name, req.headers.depth !== "0", chunkSize)
+    }
+    else{
+        // Moving and renaming at once leaves the destination in place if the move is not allowed
+        const moveOptions = {newName:name, overwrite:doesDestinationExist}
+        await (isFolderPath ? tree.moveFolder(path, destinationFolderPath, lockOwner, moveOptions) : tree.moveFile(path, destinationFolderPath, lockOwner, moveOptions))
+    }
+
+    sendText(res, doesDestinationExist ? 204 : 201, "")
+}
+
+/**
+ * Answers `LOCK` requests by locking a file, or by renewing the lock of the lock token of the `If` header if the request has no body.
+ */
+const handleLock = async ({tree, req, res, path, chunkSize, maxLockTimeout}: WebDavContext): Promise<void> =>{
+    const body = await readBody(req, maxXmlBodySize)
+    const ttl = lockTimeoutOf(req, maxLockTimeout)
+
+    if(await isFolder(tree, path)){
+        throw new HttpError(403, `Folder with path ${path} cannot be locked`)
+    }
+
+    if(body.trim() === ""){
+        const token = lockTokenOf(req)
+        if(!token){
+            throw new HttpError(400, "Missing lock token in 'If' header to refresh a lock")
+        }
+        const lock = await tree.renewLock(path, token, ttl)
+        return sendXml(res, 200, lockDiscovery([lock]))
+    }
+
+    let status = 200
+    if((await tree.getEntryKind(path)) !== "file"){
+        await checkParentExists(tree, path)
+        await tree.uploadFile(Readable.from([]), {name:baseName(path), chunkSize, targetPath:parentPath(path)})
+        status = 201
+    }
+
+    const token = `opaquelocktoken:${crypto.randomUUID()}`
+    let lock: FileLock
+    try{
+        lock = await tree.lockFile(path, token, ttl)
+    }
+    catch(e){
+        // The empty file only exists to be locked
+        if(status === 201){
+            await tree.deleteFile(path, {permanent:true})
+        }
+        throw e
+    }
+    const owner = body.match(/<(?:[\w-]+:)?owner[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?owner>/)?.[1]
+
+    res.setHeader("Lock-Token", `<${token}>`)
+    sendXml(res, status, lockDiscovery([lock], owner))
+}
+
+/**
+ * Answers `UNLOCK` requests by removing the lock of the lock token of the `Lock-Token` header.
+ */
+const handleUnlock = async ({tree, req, res, path}: WebDavContext): Promise<void> =>{
+    const token = headerOf(req, "lock-token")?.match(/<([^>]+)>/)?.[1]
+    if(!token){
+        throw new HttpError(400, "Missing 'Lock-Token' header")
+    }
+    await tree.unlockFile(path, token)
+    sendText(res, 204, "")
+}
+
+/**
+ * Deletes the folder or file at `path`.
+ */
+const deleteEntry = async (tree: MongoFileTree, path: string, lockOwner?: string): Promise<void> =>{
+    if(await isFolder(tree, path)){
+        await tree.deleteFolder(path, {lockOwner})
+    }
+    else{
+        await tree.deleteFile(path, {lockOwner})
+    }
+}
+
+/**
+ * Copies the folder or file at `path` into the folder at `destinationFolderPath` under the name `name`. With `recursive` set to false,
+ * only the folder itself is copied, without what is inside it.
+ */
+const copyEntry = async (tree: MongoFileTree, path: string, isFolderPath: boolean, destinationFolderPath: string, name: string, recursive: boolean, chunkSize: number): Promise<void> =>{
+    if(baseName(path) === name && recursive){
+        await (isFolderPath ? tree.copyFolder(path, destinationFolderPath) : tree.copyFile(path, destinationFolderPath))
+        return
+    }
+
+    if(!isFolderPath){
+        const stat = await tree.statFile(path)
+        await tree.uploadFile(await tree.getFileReadStream(path), {name, chunkSize:stat.chunkSize ?? chunkSize, contentType:stat.contentType, targetPath:destinationFolderPath})
+        return
+    }
+
+    await tree.createFolder(name, {}, destinationFolderPath)
+    if(recursive){
+        const copyPath = destinationFolderPath+"/"+name
+        for(const entry of (await tree.listDirectory(path)).entries){
+            await (entry.kind === "folder" ? tree.copyFolder(entry.path, copyPath) : tree.copyFile(entry.path, copyPath))
+        }
+    }
+}
+
+/**
+ * Throws an error with the 409 status required by WebDAV if the folder that would contain `path` does not exist.
+ */
+const checkParentExists = async (tree: MongoFileTree, path: string): Promise<void> =>{
+    if(path === tree.basePath || !(await isFolder(tree, parentPath(path)))){
+        throw new HttpError(409, `Folder with path ${parentPath(path)} does not exist`)
+    }
+}
+
+/**
+ * Returns the absolute path in the file tree of the path of a URL, or undefined if the URL is not under the base path.
+ * Throws an error if the path of the URL is not a valid URI.
+ */
+const treePathOf = (url: string, basePath: string, root: string): string | undefined =>{
+    const pathname = decodeURIComponent(new URL(url, "http://localhost").pathname)
+    if(pathname !== basePath && !pathname.startsWith(basePath === "/" ? "/" : basePath+"/")){
+        return undefined
+    }
+    return joinPath(root, pathname.slice(basePath.length))
+}
+
+/**
+ * Returns the URL path of a folder or file of the file tree. Paths of folders end with '/'.
+ */
+const hrefOf = (basePath: string, root: string, path: string, isFolderPath: boolean): string =>{
+    const relativePath = path.slice(root.length+1).split("/").filter((name)=>name !== "").map(encodeURIComponent).join("/")
+    return (basePath === "/" ? "" : basePath)+"/"+relativePath+(isFolderPath && relativePath !== "" ? "/" : "")
+}
+
+/**
+ * Returns the value of a header of a request, or the value of its first occurrence if it occurs more than once.
+ */
+const headerOf = (req: IncomingMessage, name: string): string | undefined =>{
+    const value = req.headers[name]
+    return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * Returns the lock token of the `If` header of a request.
+ */
+const lockTokenOf = (req: IncomingMessage): string | undefined =>{
+    return headerOf(req, "if")?.match(/<(opaquelocktoken:[^>]+)>/)?.[1]
+}
+
+/**
+ * Returns the time a lock is asked for by the `Timeout` header of a request in milliseconds, at most `maxLockTimeout`.
+ */
+const lockTimeoutOf = (req: IncomingMessage, maxLockTimeout: number): number =>{
+    const seconds = headerOf(req, "timeout")?.match(/Second-(\d+)/i)?.[1]
+    return seconds === undefined ? maxLockTimeout : Math.min(Math.max(Number(seconds), 1)*1000, maxLockTimeout)
+}
+
+/**
+ * Returns the properties of a folder.
+ */
+const folderProps = (path: string, root: string): string =>{
+    return `<D:displayname>${escapeXml(path === root ? root : baseName(path))}</D:displayname><D:resourcetype><D:collection/></D:resourcetype>`
+}
+
+/**
+ * Returns the properties of a file, with the locks of `locks` that are on it.
+ */
+const fileProps = (file: Pick<DirectoryEntry, "id" | "path" | "name" | "size" | "uploadDate" | "sha256" | "contentType">, locks: FileLock[]): string =>{
+    return `<D:displayname>${escapeXml(file.name)}</D:displayname><D:resourcetype/>`
+        +`<D:getcontentlength>${file.size}</D:getcontentlength>`
+        +`<D:getlastmodified>${file.uploadDate?.toUTCString()}</D:getlastmodified>`
+        +`<D:getetag>"${file.sha256 ?? file.id.toHexString()}"</D:getetag>`
+        +`<D:getcontenttype>${escapeXml(file.contentType ?? "application/octet-stream")}</D:getcontenttype>`
+        +`<D:supportedlock><D:lockentry><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockentry></D:supportedlock>`
+        +lockDiscovery(locks.filter((lock)=>lock.path === file.path), undefined, false)
+}
+
+/**
+ * Returns the `lockdiscovery` property describing `locks`, inside a `prop` element for the body of a `LOCK` response if `isResponseBody` is true.
+ */
+const lockDiscovery = (locks: FileLock[], owner?: string, isResponseBody: boolean = true): string =>{
+    const activeLocks = locks.map((lock)=>{
+        const seconds = Math.max(Math.round((lock.expiresAt.getTime()-Date.now())/1000), 0)
+        return `<D:activelock><D:locktype><D:write/></D:locktype><D:lockscope><D:exclusive/></D:lockscope><D:depth>0</D:depth>`
+            +(owner !== undefined ? `<D:owner>${owner}</D:owner>` : "")
+            +`<D:timeout>Second-${seconds}</D:timeout>`
+            +(lock.owner.startsWith("opaquelocktoken:") ? `<D:locktoken><D:href>${escapeXml(lock.owner)}</D:href></D:locktoken>` : "")
+            +`</D:activelock>`
+    })
+    const property = `<D:lockdiscovery>${activeLocks.join("")}</D:lockdiscovery>`
+    return isResponseBody ? `<D:prop xmlns:D="DAV:">${property}</D:prop>` : property
+}
+
+/**
+ * Returns the `response` element of a `PROPFIND` response for a folder or file.
+ */
+const propResponse = (basePath: string, root: string, path: string, props: string): string =>{
+    const isFolderPath = props.includes("<D:collection/>")
+    return `<D:response><D:href>${escapeXml(hrefOf(basePath, root, path, isFolderPath))}</D:href>`
+        +`<D:propstat><D:prop>${props}</D:prop><D:status>HTTP/1.1 200 OK</D:status></D:propstat></D:response>`
+}
+
+/**
+ * Escapes the characters of `text` that have a special meaning in XML.
+ */
+const escapeXml = (text: string): string =>{
+    return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&apos;")
+}
+
+/**
+ * Answers a request with an XML body.
+ */
+const sendXml = (res: ServerResponse, status: number, xml: string): void =>{
+    const body = `<?xml version="1.0" encoding="utf-8"?>\n`+xml
+    res.statusCode = status
+    res.setHeader("Content-Type", "application/xml; charset=utf-8")
+    res.setHeader("Content-Length", Buffer.byteLength(body))
+    res.end(body)
+}
+
+/**
+ * Answers a request with a plain text body.
+ */
+const sendText = (res: ServerResponse, status: number, text: string): void =>{
+    res.statusCode = status
+    res.setHeader("Content-Type", "text/plain; charset=utf-8")
+    res.setHeader("Content-Length", Buffer.byteLength(text))
+    res.end(text)
+}
+
+export {createWebDavHandler, WebDavHandlerOptions}
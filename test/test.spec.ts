@@ -2,10 +2,16 @@ import chai from "chai"
 
 const expect = chai.expect
 import fs from "fs"
-import MongoFileTree from "../src/index"
-import {MongoClient, GridFSBucket} from "mongodb"
-import {Readable} from "stream"
+import zlib from "zlib"
+import crypto from "crypto"
+import http from "http"
+import {AddressInfo} from "net"
+import MongoFileTree, {createRequestHandler, createWebDavHandler, NotFoundError, LockedError} from "../src/index"
+import {runCli} from "../src/cli"
+import {MongoClient, GridFSBucket, ObjectId} from "mongodb"
+import {Readable, Writable} from "stream"
 import extract from "extract-zip"
+import JSZip from "jszip"
 const client = new MongoClient("mongodb://localhost:27017")
 
 const dbName = "GridFS-file-tree-management-test"
@@ -18,9 +24,10 @@ const folderSystem = new MongoFileTree("mongodb://localhost:27017", dbName, buck
 
 describe("MongoFileTree", function(){
     it('should allow users to upload files', async ()=>{
+        await folderSystem.connect()
         const fileId = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, customMetadata:{starred:false}})
 
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
 
         const file1 = (await folderSystem.bucket.find({_id:fileId}).toArray())[0]
         expect(file1.filename).to.be.equal("test.txt")
@@ -29,13 +36,14 @@ describe("MongoFileTree", function(){
         expect(file1.metadata?.parentDirectory).to.be.equal(folderCollectionName)
         expect(file1.metadata?.starred).to.be.equal(false)
 
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should track which version of a file is the latest', async ()=>{
+        await folderSystem.connect()
         const fileId1 = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
 
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
 
 
         const fileId2 = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
@@ -52,10 +60,35 @@ describe("MongoFileTree", function(){
         expect(file1.metadata?.path).to.be.equal("folder-test/test.txt")
         expect(file1.metadata?.parentDirectory).to.be.equal(folderCollectionName)
 
-        folderSystem.client.close()
+        folderSystem.client?.close()
+    })
+
+    it('should keep the previous version of a file as the latest version if an upload fails', async ()=>{
+        await folderSystem.client?.connect()
+        const latestId = (await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt", "metadata.isLatest":true}).toArray())[0]._id
+        const versionCount = (await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt"}).toArray()).length
+        let err: any
+
+        try{
+            await folderSystem.uploadFile(new Readable({read(){
+                this.destroy(new Error("Read failed"))
+            }}), {name:"test.txt", chunkSize:1048576})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Read failed")
+        const latestFiles = await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt", "metadata.isLatest":true}).toArray()
+        expect(latestFiles.length).to.be.equal(1)
+        expect(latestFiles[0]._id.equals(latestId)).to.be.equal(true)
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt"}).toArray()).length).to.be.equal(versionCount)
+        folderSystem.client?.close()
     })
 
     it('should throw error when uploading if user does not provide valid readable stream, the file name contains invalid characters, or the user is missing properties from the "options" parameter', async ()=>{
+        await folderSystem.connect()
         let err: any
 
         try{
@@ -105,11 +138,11 @@ describe("MongoFileTree", function(){
 
         expect(err.message).to.be.equal(`Missing 'chunkSize' property for 'options' parameter.`)
         
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to create folders', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         const folderId = (await folderSystem.createFolder("subfolder-test")).insertedId
         const folder = (await folderSystem.db.collection(folderSystem.folderCollectionName).find({_id:folderId}).toArray())[0]
 
@@ -117,11 +150,11 @@ describe("MongoFileTree", function(){
         expect(folder.path).to.be.equal("folder-test/subfolder-test")
         expect(folder.name).to.be.equal("subfolder-test")
 
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should throw an error if the user tries to create a folder with a name that already exists in the current directory or has invalid characters in its name', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         let err: any
 
         try{
@@ -142,20 +175,20 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal(`Character " " cannot be used as part of a folder name`)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to set the current working directory', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         await folderSystem.changeDirectory("subfolder-test", true)
         expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test/subfolder-test")
         await folderSystem.changeDirectory("folder-test")
         expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should throw an error if the user tries to set the current working directory to a folder that does not exist', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         let err: any
 
         try{
@@ -167,21 +200,21 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("Folder with path invalid-path does not exist")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to change the name of a file', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test-2.txt", chunkSize:1048576})
         await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test-2.txt", chunkSize:1048576})
         await folderSystem.changeFileName("new-file-name.txt", "folder-test/test-2.txt")
         expect((await folderSystem.bucket.find({"metadata.path":"folder-test/new-file-name.txt"}).toArray()).length).to.be.equal(2)
         expect((await folderSystem.bucket.find({"metadata.path":"folder-test/test-2.txt"}).toArray()).length).to.be.equal(0)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
-    it('should throw an error if the user tries to change the name of a file that does not exist or the new name contains invalid characters', async ()=>{
-        await folderSystem.client.connect()
+    it('should throw an error if the user tries to change the name of a file that does not exist, the new name contains invalid characters, or a file with the new name already exists in the specified directory', async ()=>{
+        await folderSystem.client?.connect()
         let err: any
 
         try{
@@ -204,11 +237,23 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal(`Character "/" cannot be used as part of a file name`)
-        folderSystem.client.close()
+        err = undefined
+
+        try{
+            await folderSystem.changeFileName("test.txt", "folder-test/new-file-name.txt")
+        }
+
+        catch(e: any){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("File with name test.txt already exists in the specified directory")
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/new-file-name.txt"}).toArray()).length).to.be.equal(2)
+        folderSystem.client?.close()
     })
 
     it('should allow users to download files', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         const fileDataStream = await folderSystem.getFileReadStream("folder-test/test.txt")
         let data = ""
 
@@ -223,10 +268,11 @@ describe("MongoFileTree", function(){
         })
 
         expect(data).to.be.equal("Hello world")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should throw an error if a user tries to download a file that does not exist', async ()=>{
+        await folderSystem.connect()
 
         let err: any
 
@@ -239,10 +285,11 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("File with path invalid-file-path does not exist")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to change the metadata of files', async ()=>{
+        await folderSystem.connect()
         await folderSystem.changeFileMetadata("folder-test/test.txt", {favourite:true, encoding:"UTF-8"})
         expect((await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt", "metadata.favourite":true, "metadata.encoding":"UTF-8"}).toArray()).length).to.be.equal(1)
         await folderSystem.changeFileMetadata("folder-test/test.txt", {}, ["encoding"])
@@ -250,11 +297,11 @@ describe("MongoFileTree", function(){
         await folderSystem.changeFileMetadata("folder-test/test.txt", {encoding:"UTF-8"}, ["favourite"], true)
         expect((await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt", "metadata.encoding":"UTF-8"}).toArray()).length).to.be.equal(3)
         expect(await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt", "metadata.favourite":true}).hasNext()).to.be.equal(false)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it("should raise an error if the user tries to change the 'isLatest', 'path', or 'parentDirectory' metadata properties on files", async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         let err: any
 
         try{
@@ -288,20 +335,21 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("Cannot delete or change the type of 'isLatest' metadata property using this method")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to change the metadata of folders', async ()=>{
+        await folderSystem.connect()
         await folderSystem.changeFolderMetadata("folder-test/subfolder-test", {favourite:true})
         expect((await folderSystem.db.collection(folderCollectionName).find({"path":"folder-test/subfolder-test", "customMetadata.favourite":true}).toArray()).length).to.be.equal(1)
         await folderSystem.changeFolderMetadata("folder-test/subfolder-test", {folderType:"work"}, ["favourite"])
         expect((await folderSystem.db.collection(folderCollectionName).find({"path":"folder-test/subfolder-test", "customMetadata.folderType":"work"}).toArray()).length).to.be.equal(1)
         expect(await folderSystem.bucket.find({"path":"folder-test/subfolder-test", "customMetadata.favourite":true}).hasNext()).to.be.equal(false)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it("should raise an error if the user tries to change the 'isLatest', 'path', or 'parentDirectory' metadata properties on folders", async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         let err: any
 
         try{
@@ -335,17 +383,18 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("Cannot add or delete 'isLatest' metadata property for a folder")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to delete files', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         await folderSystem.deleteFile("folder-test/test.txt")
         expect(await folderSystem.bucket.find({"metadata.path":"folder-test/test.txt"}).hasNext()).to.be.equal(false)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should throw an error if a user tries to delete a file that does not exist', async ()=>{
+        await folderSystem.connect()
         let err: any
 
         try{
@@ -357,11 +406,11 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("File with path invalid-file-path does not exist")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should allow users to download folders', async ()=>{
-        await folderSystem.client.connect()
+        await folderSystem.client?.connect()
         await folderSystem.changeDirectory("subfolder-test", true)
         await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:'test.txt', chunkSize:1048576})
         await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:'test.PNG', chunkSize:1048576})
@@ -416,10 +465,126 @@ describe("MongoFileTree", function(){
         expect(fs.readFileSync(process.cwd()+"/test_output_2/subfolder-test/subfolder-test-2/subfolder-test-3/test.txt").equals(fs.readFileSync(process.cwd()+"/test/test.txt"))).to.be.equal(true)
 
 
-        folderSystem.client.close()
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to download folders as a stream', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.changeDirectory("folder-test/subfolder-test/subfolder-test-2")
+        await folderSystem.createFolder("empty-folder")
+        await folderSystem.changeDirectory("folder-test")
+
+        const zipStream = await folderSystem.downloadFolderStream("folder-test/subfolder-test")
+        const writeStream = fs.createWriteStream(process.cwd()+"/test_output/stream-test.zip")
+
+        zipStream.pipe(writeStream)
+
+        await new Promise<void>((resolve)=>{
+            writeStream.on("finish",()=>{
+                resolve()
+            })
+        })
+
+        await extract(process.cwd()+"/test_output/stream-test.zip", {dir:process.cwd()+"/test_output/stream-test"})
+
+        expect(fs.readFileSync(process.cwd()+"/test_output/stream-test/test.txt").equals(fs.readFileSync(process.cwd()+"/test/test.txt"))).to.be.equal(true)
+        expect(fs.readFileSync(process.cwd()+"/test_output/stream-test/test.PNG").equals(fs.readFileSync(process.cwd()+"/test/test.PNG"))).to.be.equal(true)
+        expect(fs.readFileSync(process.cwd()+"/test_output/stream-test/subfolder-test-2/subfolder-test-3/test.txt").equals(fs.readFileSync(process.cwd()+"/test/test.txt"))).to.be.equal(true)
+        expect(fs.statSync(process.cwd()+"/test_output/stream-test/subfolder-test-2/empty-folder").isDirectory()).to.be.equal(true)
+
+        const tarStream = await folderSystem.downloadFolderStream("folder-test/subfolder-test", {format:"tar.gz"})
+        const tarChunks: Buffer[] = []
+        for await (const chunk of tarStream){
+            tarChunks.push(chunk)
+        }
+        const tar = zlib.gunzipSync(Buffer.concat(tarChunks)).toString("latin1")
+        expect(tar.includes("subfolder-test-2/empty-folder/")).to.be.equal(true)
+        expect(tar.includes("Hello world")).to.be.equal(true)
+
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to upload folders from a zip file', async ()=>{
+        await folderSystem.client?.connect()
+        const zip = new JSZip()
+        zip.file("archive-test/test.txt", fs.readFileSync(process.cwd()+"/test/test.txt"))
+        zip.file("archive-test/bad name.txt", "Hello world")
+        zip.folder("archive-test/empty-folder")
+        const zipBuffer = await zip.generateAsync({type:"nodebuffer"})
+
+        const result = await folderSystem.uploadArchive(zipBuffer, {targetPath:"folder-test", chunkSize:1048576})
+        expect(result.created).to.include.members(["folder-test/archive-test", "folder-test/archive-test/empty-folder", "folder-test/archive-test/test.txt"])
+        expect(result.rejected.map((entry)=>entry.name)).to.be.deep.equal(["archive-test/bad name.txt"])
+        expect(result.rejected[0].reason).to.be.equal(`Character " " cannot be used as part of a file name`)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/archive-test/empty-folder", "parentDirectory":"folder-test/archive-test"}))).to.be.equal(true)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/archive-test/test.txt", "metadata.isLatest":true}).hasNext()).to.be.equal(true)
+
+        const versionResult = await folderSystem.uploadArchive(Readable.from(zipBuffer), {targetPath:"folder-test", chunkSize:1048576})
+        expect(versionResult.created).to.be.deep.equal([])
+        expect(versionResult.versioned).to.be.deep.equal(["folder-test/archive-test/test.txt"])
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/archive-test/test.txt"}).toArray()).length).to.be.equal(2)
+
+        const skipResult = await folderSystem.uploadArchive(zipBuffer, {targetPath:"folder-test", chunkSize:1048576, onConflict:"skip"})
+        expect(skipResult.skipped).to.be.deep.equal(["folder-test/archive-test/test.txt"])
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/archive-test/test.txt"}).toArray()).length).to.be.equal(2)
+
+        let err: any
+
+        try{
+            await folderSystem.uploadArchive(zipBuffer, {targetPath:"folder-test", chunkSize:1048576, onConflict:"error"})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("File with path folder-test/archive-test/test.txt already exists")
+
+        await folderSystem.deleteFolder("folder-test/archive-test")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to import and export local directories', async ()=>{
+        await folderSystem.client?.connect()
+        const localPath = process.cwd()+"/test_output/local-sync"
+        const exportPath = process.cwd()+"/test_output/export-sync"
+        fs.mkdirSync(localPath+"/sub", {recursive:true})
+        fs.mkdirSync(localPath+"/empty-folder", {recursive:true})
+        fs.copyFileSync(process.cwd()+"/test/test.txt", localPath+"/test.txt")
+        fs.copyFileSync(process.cwd()+"/test/test.PNG", localPath+"/sub/test.PNG")
+        await folderSystem.createFolder("sync-test")
+
+        const plannedActions = await folderSystem.importLocalDirectory(localPath, "folder-test/sync-test", {dryRun:true})
+        expect(plannedActions.map((action)=>action.type+":"+action.relativePath)).to.be.deep.equal(["create:empty-folder", "create:sub", "create:sub/test.PNG", "create:test.txt"])
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/sync-test/test.txt"}).hasNext()).to.be.equal(false)
+
+        await folderSystem.importLocalDirectory(localPath, "folder-test/sync-test")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/sync-test/empty-folder", "parentDirectory":"folder-test/sync-test"}))).to.be.equal(true)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/sync-test/sub/test.PNG", "metadata.parentDirectory":"folder-test/sync-test/sub"}).hasNext()).to.be.equal(true)
+
+        const unchangedActions = await folderSystem.importLocalDirectory(localPath, "folder-test/sync-test", {sync:true})
+        expect(unchangedActions.filter((action)=>action.kind === "file").map((action)=>action.type)).to.be.deep.equal(["skip", "skip"])
+
+        fs.writeFileSync(localPath+"/test.txt", "Hello world!")
+        fs.rmdirSync(localPath+"/empty-folder")
+        const changedActions = await folderSystem.importLocalDirectory(localPath, "folder-test/sync-test", {sync:true, mirrorDeletions:true})
+        expect(changedActions.map((action)=>action.type+":"+action.relativePath)).to.be.deep.equal(["skip:sub/test.PNG", "update:test.txt", "delete:empty-folder"])
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/sync-test/test.txt"}).toArray()).length).to.be.equal(2)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/sync-test/empty-folder"}))).to.be.equal(false)
+
+        await folderSystem.exportToLocalDirectory("folder-test/sync-test", exportPath)
+        expect(fs.readFileSync(exportPath+"/test.txt").toString()).to.be.equal("Hello world!")
+        expect(fs.readFileSync(exportPath+"/sub/test.PNG").equals(fs.readFileSync(process.cwd()+"/test/test.PNG"))).to.be.equal(true)
+
+        const exportActions = await folderSystem.exportToLocalDirectory("folder-test/sync-test", exportPath, {sync:true})
+        expect(exportActions.filter((action)=>action.kind === "file").map((action)=>action.type)).to.be.deep.equal(["skip", "skip"])
+
+        await folderSystem.deleteFolder("folder-test/sync-test")
+        folderSystem.client?.close()
     })
 
     it('should throw an error if the user tries to download a folder that does not exist', async ()=>{
+        await folderSystem.connect()
         let err: any
 
         try{
@@ -431,10 +596,11 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
     it('should throw an error if the user provides an invalid argument for returnType when trying to download a folder', async ()=>{
+        await folderSystem.connect()
         let err: any
 
         try{
@@ -447,124 +613,1515 @@ describe("MongoFileTree", function(){
         }
 
         expect(err.message).to.be.equal(`Invalid argument for parameter returnType. Argument must either be 'base64','nodebuffer', 'array', 'uint8array','arraybuffer', 'blob', or 'binarystring'.`)
-        folderSystem.client.close()
+        folderSystem.client?.close()
     })
 
-    it('should allow users to rename folders', async ()=>{
-        await folderSystem.client.connect()
-        await folderSystem.changeFolderName("new-folder-name", "folder-test/subfolder-test")
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name", "name":"new-folder-name"}))).to.be.equal(true)
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2"}))).to.be.equal(true)
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3"}))).to.be.equal(true)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.txt"}).hasNext()).to.be.equal(true)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.PNG"}).hasNext()).to.be.equal(true)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/test.txt"}).hasNext()).to.be.equal(true)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(true)
-        folderSystem.client.close()
+    it('should allow users to list the contents of a folder', async ()=>{
+        await folderSystem.client?.connect()
+        const listing = await folderSystem.listDirectory("folder-test")
+        expect(listing.entries.map((entry)=>entry.name)).to.be.deep.equal(["new-file-name.txt", "subfolder-test", "test.txt"])
+        expect(listing.entries.map((entry)=>entry.kind)).to.be.deep.equal(["file", "folder", "file"])
+        expect(listing.entries[0].size).to.be.equal(fs.statSync(process.cwd()+"/test/test.txt").size)
+        expect(listing.entries[1].size).to.be.equal(null)
+        expect(listing.nextCursor).to.be.equal(null)
+
+        const allVersions = await folderSystem.listDirectory("folder-test", {includeAllVersions:true})
+        expect(allVersions.entries.filter((entry)=>entry.path === "folder-test/new-file-name.txt").length).to.be.equal(2)
+
+        const firstPage = await folderSystem.listDirectory("folder-test", {sortBy:"kind", limit:2})
+        expect(firstPage.entries.length).to.be.equal(2)
+        expect(firstPage.nextCursor).to.not.be.equal(null)
+        const secondPage = await folderSystem.listDirectory("folder-test", {sortBy:"kind", limit:2, cursor:firstPage.nextCursor as string})
+        expect(secondPage.entries.map((entry)=>entry.name)).to.be.deep.equal(["subfolder-test"])
+        expect(secondPage.nextCursor).to.be.equal(null)
+
+        const relativeListing = await folderSystem.listDirectory("subfolder-test", {isRelative:true, sortBy:"name", sortOrder:"descending"})
+        expect(relativeListing.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/subfolder-test/test.txt", "folder-test/subfolder-test/test.PNG", "folder-test/subfolder-test/subfolder-test-2"])
+        folderSystem.client?.close()
     })
 
-    it('should throw an error if the user tries to change the name of a folder that does not exist, the new folder name contains invalid characters, a folder with the new name already exists in the specified directory, or the user attempts to rename the root directory', async ()=>{
-        await folderSystem.client.connect()
+    it('should throw an error if the user tries to list a folder that does not exist', async ()=>{
+        await folderSystem.connect()
         let err: any
 
         try{
-            await folderSystem.changeFolderName("new-file-name.txt", "invalid-path")
+            await folderSystem.listDirectory("invalid-folder-path")
         }
 
-        catch(e: any){
+        catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal("Folder with path invalid-path does not exist")
+        expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to search a folder and its subfolders', async ()=>{
+        await folderSystem.connect()
+        const folders = await folderSystem.search("folder-test/subfolder-test", {name:"subfolder-test-?", kind:"folder"})
+        expect(folders.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/subfolder-test/subfolder-test-2", "folder-test/subfolder-test/subfolder-test-2/subfolder-test-3"])
+
+        const textFiles = await folderSystem.search("subfolder-test", {name:"*.txt", limit:2})
+        expect(textFiles.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/subfolder-test/subfolder-test-2/subfolder-test-3/test.txt", "folder-test/subfolder-test/subfolder-test-2/test.txt"])
+        const nextPage = await folderSystem.search("subfolder-test", {name:"*.txt", limit:2, cursor:textFiles.nextCursor as string})
+        expect(nextPage.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/subfolder-test/test.txt"])
+
+        const images = await folderSystem.search("folder-test", {name:/\.png$/i, minSize:fs.statSync(process.cwd()+"/test/test.txt").size+1})
+        expect(images.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/subfolder-test/test.PNG"])
+
+        expect((await folderSystem.search("folder-test", {metadata:{encoding:"UTF-8"}})).entries.length).to.be.equal(0)
+        const versions = await folderSystem.search("folder-test", {metadata:{encoding:"UTF-8"}, includeAllVersions:true, uploadedBefore:new Date()})
+        expect(versions.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/test.txt", "folder-test/test.txt", "folder-test/test.txt"])
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to move and copy files and folders', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.createFolder("move-test")
+
+        const copyId = await folderSystem.copyFile("folder-test/new-file-name.txt", "folder-test/move-test", {includeAllVersions:true})
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/new-file-name.txt"}).toArray()).length).to.be.equal(2)
+        expect((await folderSystem.bucket.find({_id:copyId, "metadata.isLatest":true, "metadata.parentDirectory":"folder-test/move-test"}).toArray()).length).to.be.equal(1)
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/new-file-name.txt"}).toArray()).length).to.be.equal(2)
+
+        await folderSystem.copyFolder("folder-test/subfolder-test", "folder-test/move-test")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/move-test/subfolder-test/subfolder-test-2/subfolder-test-3", "parentDirectory":"folder-test/move-test/subfolder-test/subfolder-test-2"}))).to.be.equal(true)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/subfolder-test/subfolder-test-2/subfolder-test-3/test.txt", "metadata.isLatest":true}).hasNext()).to.be.equal(true)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/subfolder-test/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(true)
+
+        await folderSystem.moveFile("folder-test/move-test/new-file-name.txt", "folder-test/move-test/subfolder-test")
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/subfolder-test/new-file-name.txt", "metadata.parentDirectory":"folder-test/move-test/subfolder-test"}).toArray()).length).to.be.equal(2)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/new-file-name.txt"}).hasNext()).to.be.equal(false)
+
+        await folderSystem.moveFolder("folder-test/move-test/subfolder-test/subfolder-test-2", "folder-test/move-test")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/move-test/subfolder-test-2", "parentDirectory":"folder-test/move-test"}))).to.be.equal(true)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/move-test/subfolder-test-2/subfolder-test-3"}))).to.be.equal(true)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(true)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/move-test/subfolder-test/subfolder-test-2"}))).to.be.equal(false)
+
+        await folderSystem.moveFile("folder-test/move-test/subfolder-test/new-file-name.txt", "folder-test/move-test/subfolder-test-2", undefined, {newName:"test.txt", overwrite:true})
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/subfolder-test-2/test.txt"}).toArray()).length).to.be.equal(2)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/move-test/subfolder-test/new-file-name.txt"}).hasNext()).to.be.equal(false)
+
+        await folderSystem.deleteFolder("folder-test/move-test")
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to move a folder into one of its subfolders or to a folder where an entry with the same name already exists', async ()=>{
+        await folderSystem.client?.connect()
+        let err: any
+
+        try{
+            await folderSystem.moveFolder("folder-test/subfolder-test", "folder-test/subfolder-test/subfolder-test-2")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Cannot move folder with path folder-test/subfolder-test into itself or one of its subfolders")
         err = undefined
 
         try{
-            await folderSystem.changeFolderName("invalid-name$", "folder-test/new-folder-name")
+            await folderSystem.moveFile("folder-test/subfolder-test/test.txt", "folder-test")
         }
 
-        catch(e: any){
+        catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal(`Character "$" cannot be used as part of a folder name`)
+        expect(err.message).to.be.equal("File with name test.txt already exists in the specified directory")
         err = undefined
 
         try{
-            await folderSystem.changeFolderName("new-root-name", "folder-test")
+            await folderSystem.copyFolder("folder-test/subfolder-test", "folder-test")
         }
 
-        catch(e: any){
+        catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal("Cannot rename root directory of the file tree")
+        expect(err.message).to.be.equal("Folder with name subfolder-test already exists in the specified directory")
+        err = undefined
+
+        try{
+            await folderSystem.copyFile("folder-test/test.txt", "invalid-folder-path")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to list, read, restore, and prune the versions of a file', async ()=>{
+        await folderSystem.client?.connect()
+        const readStream = async (stream: Readable): Promise<Buffer> =>{
+            const chunks: Buffer[] = []
+            for await (const chunk of stream){
+                chunks.push(chunk)
+            }
+            return Buffer.concat(chunks)
+        }
+
+        const firstId = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"version-test.txt", chunkSize:1048576})
+        const secondId = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:"version-test.txt", chunkSize:1048576})
+
+        const versions = await folderSystem.listFileVersions("folder-test/version-test.txt")
+        expect(versions.map((version)=>version.version)).to.be.deep.equal([1, 2])
+        expect(versions[0].id.equals(firstId)).to.be.equal(true)
+        expect(versions[0].isLatest).to.be.equal(false)
+        expect(versions[1].isLatest).to.be.equal(true)
+        expect(versions[1].size).to.be.equal(fs.statSync(process.cwd()+"/test/test.PNG").size)
+
+        expect((await readStream(await folderSystem.getFileReadStream("folder-test/version-test.txt"))).equals(fs.readFileSync(process.cwd()+"/test/test.PNG"))).to.be.equal(true)
+        expect((await readStream(await folderSystem.getFileReadStream("folder-test/version-test.txt", {version:1}))).toString()).to.be.equal("Hello world")
+        expect((await readStream(await folderSystem.getFileReadStream("folder-test/version-test.txt", {versionId:firstId}))).toString()).to.be.equal("Hello world")
+        expect((await readStream(await folderSystem.getFileReadStream("folder-test/version-test.txt", {asOf:versions[0].uploadDate}))).toString()).to.be.equal("Hello world")
+
+        const restoredId = await folderSystem.restoreFileVersion("folder-test/version-test.txt", {version:1})
+        expect((await readStream(await folderSystem.getFileReadStream("folder-test/version-test.txt"))).toString()).to.be.equal("Hello world")
+        expect((await folderSystem.bucket.find({"metadata.path":"folder-test/version-test.txt", "metadata.isLatest":true}).toArray()).map((file)=>file._id.toHexString())).to.be.deep.equal([restoredId.toHexString()])
+
+        const deletedIds = await folderSystem.pruneFileVersions("folder-test/version-test.txt", {keepLast:2})
+        expect(deletedIds.map((id)=>id.toHexString())).to.be.deep.equal([firstId.toHexString()])
+        expect((await folderSystem.listFileVersions("folder-test/version-test.txt")).map((version)=>version.id.toHexString())).to.be.deep.equal([secondId.toHexString(), restoredId.toHexString()])
+
+        await folderSystem.pruneFileVersions("folder-test/version-test.txt", {maxAge:0})
+        expect((await folderSystem.listFileVersions("folder-test/version-test.txt")).length).to.be.equal(1)
+
+        await folderSystem.deleteFile("folder-test/version-test.txt")
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to read a version of a file that does not exist', async ()=>{
+        await folderSystem.client?.connect()
+        let err: any
+
+        try{
+            await folderSystem.getFileReadStream("folder-test/test.txt", {version:10})
+        }
+
+        catch(e){
+            err = e
+        }
 
+        expect(err.message).to.be.equal("Selected version of file with path folder-test/test.txt does not exist")
         err = undefined
 
         try{
-            await folderSystem.changeFolderName("new-folder-name", "folder-test/new-folder-name")
+            await folderSystem.getFileReadStream("folder-test/test.txt", {version:1, asOf:new Date()})
         }
 
-        catch(e: any){
+        catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal("Folder with name new-folder-name already exists in the specified directory")
-        folderSystem.client.close()
+        expect(err.message).to.be.equal("Only one of the 'version', 'versionId', or 'asOf' options can be provided")
+        folderSystem.client?.close()
     })
 
-    it('should allow users to delete folders', async ()=>{
-        await folderSystem.client.connect()
+    it('should read byte ranges of files and describe files without reading them', async ()=>{
+        await folderSystem.client?.connect()
+        const readStream = async (stream: Readable): Promise<string> =>{
+            const chunks: Buffer[] = []
+            for await (const chunk of stream){
+                chunks.push(chunk)
+            }
+            return Buffer.concat(chunks).toString()
+        }
 
-        await folderSystem.deleteFolder("folder-test/new-folder-name")
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name"}))).to.be.equal(false)
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2"}))).to.be.equal(false)
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3"}))).to.be.equal(false)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.txt"}).hasNext()).to.be.equal(false)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.PNG"}).hasNext()).to.be.equal(false)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/test.txt"}).hasNext()).to.be.equal(false)
-        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(false)
+        const id = await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"range-test.txt", chunkSize:4})
+        expect(await readStream(await folderSystem.getFileReadStream("folder-test/range-test.txt", {start:6}))).to.be.equal("world")
+        expect(await readStream(await folderSystem.getFileReadStream("folder-test/range-test.txt", {start:3, end:9}))).to.be.equal("lo wor")
+        expect(await readStream(await folderSystem.getFileReadStream("folder-test/range-test.txt", {end:5}))).to.be.equal("Hello")
+        let err: any
 
-        await folderSystem.createFolder("new-folder")
-        await folderSystem.deleteFolder("folder-test")
-        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"parentDirectory":new RegExp("^"+folderCollectionName)}))).to.be.equal(false)
-        expect(Boolean(await folderSystem.bucket.find({"metadata.parentDirectory":new RegExp("^"+folderCollectionName)}).hasNext())).to.be.equal(false)
-        folderSystem.client.close()
+        try{
+            await folderSystem.getFileReadStream("folder-test/range-test.txt", {start:5, end:12})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Byte range from 5 to 12 is invalid for file with path folder-test/range-test.txt of 11 bytes")
+
+        const stat = await folderSystem.statFile("folder-test/range-test.txt")
+        expect(stat.id.equals(id)).to.be.equal(true)
+        expect(stat.length).to.be.equal(11)
+        expect(stat.chunkSize).to.be.equal(4)
+        expect(stat.versionCount).to.be.equal(1)
+        expect(stat.etag).to.be.equal(`"${stat.sha256}"`)
+        expect(stat.contentType).to.be.equal("text/plain")
+
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:"range-test.txt", chunkSize:1048576})
+        const latestStat = await folderSystem.statFile("folder-test/range-test.txt")
+        expect(latestStat.version).to.be.equal(2)
+        expect(latestStat.versionCount).to.be.equal(2)
+        expect(latestStat.etag).to.not.be.equal(stat.etag)
+        expect((await folderSystem.statFile("folder-test/range-test.txt", {version:1})).etag).to.be.equal(stat.etag)
+
+        await folderSystem.deleteFile("folder-test/range-test.txt", {permanent:true})
+        folderSystem.client?.close()
     })
 
-    it('should throw an error if the user tries to delete a folder that does not exist', async ()=>{
+    it('should serve the file tree over HTTP', async ()=>{
+        await folderSystem.connect()
+        const server = http.createServer(createRequestHandler(folderSystem))
+        await new Promise<void>((resolve)=>server.listen(0, resolve))
+        const port = (server.address() as AddressInfo).port
+        const request = (method: string, path: string, body?: string | Buffer, headers: http.OutgoingHttpHeaders = {}): Promise<{status: number, headers: http.IncomingHttpHeaders, body: Buffer}> =>{
+            return new Promise((resolve, reject)=>{
+                const req = http.request({port, method, path, headers}, (res)=>{
+                    const chunks: Buffer[] = []
+                    res.on("data", (chunk)=>chunks.push(chunk))
+                    res.on("end", ()=>resolve({status:res.statusCode as number, headers:res.headers, body:Buffer.concat(chunks)}))
+                })
+                req.on("error", reject)
+                req.end(body)
+            })
+        }
+
+        expect((await request("POST", "/tree/http-test", JSON.stringify({customMetadata:{team:"a"}}))).status).to.be.equal(201)
+        expect((await request("POST", "/tree/http-test")).status).to.be.equal(409)
+
+        const upload = await request("PUT", "/tree/http-test/test.txt", fs.readFileSync(process.cwd()+"/test/test.txt"), {"Content-Type":"text/plain"})
+        expect(upload.status).to.be.equal(201)
+        expect(JSON.parse(upload.body.toString()).path).to.be.equal("folder-test/http-test/test.txt")
+        expect((await request("PUT", "/tree/http-test/test.txt", "Hello again")).status).to.be.equal(200)
+        expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test")
+
+        const file = await request("GET", "/tree/http-test/test.txt")
+        expect(file.status).to.be.equal(200)
+        expect(file.body.toString()).to.be.equal("Hello again")
+        const etag = file.headers.etag as string
+        expect((await request("GET", "/tree/http-test/test.txt", undefined, {"If-None-Match":etag})).status).to.be.equal(304)
+
+        const partialFile = await request("GET", "/tree/http-test/test.txt", undefined, {"Range":"bytes=6-"})
+        expect(partialFile.status).to.be.equal(206)
+        expect(partialFile.headers["content-range"]).to.be.equal("bytes 6-10/11")
+        expect(partialFile.body.toString()).to.be.equal("again")
+        expect((await request("GET", "/tree/http-test/test.txt", undefined, {"Range":"bytes=-5", "If-Range":"\"outdated\""})).status).to.be.equal(200)
+        expect((await request("GET", "/tree/http-test/test.txt", undefined, {"Range":"bytes=20-"})).status).to.be.equal(416)
+        expect((await request("GET", "/tree/http-test/test.txt?version=1")).body.toString()).to.be.equal("Hello world")
+
+        const listing = JSON.parse((await request("GET", "/tree/http-test")).body.toString())
+        expect(listing.entries.map((entry: any)=>entry.name)).to.be.deep.equal(["test.txt"])
+
+        const zip = await request("GET", "/tree/http-test?zip")
+        expect(zip.headers["content-type"]).to.be.equal("application/zip")
+        expect(await (await JSZip.loadAsync(zip.body)).file("test.txt")?.async("string")).to.be.equal("Hello again")
+
+        expect((await request("PATCH", "/tree/http-test/test.txt", JSON.stringify({name:"renamed.txt", customMetadata:{reviewed:true}}))).status).to.be.equal(200)
+        expect((await request("GET", "/tree/http-test/test.txt")).status).to.be.equal(404)
+        expect((await request("PATCH", "/tree/http-test/renamed.txt", JSON.stringify({name:"invalid?.txt"}))).status).to.be.equal(400)
+        expect((await request("PATCH", "/tree/http-test/renamed.txt", "not json")).status).to.be.equal(400)
+
+        expect((await request("DELETE", "/tree/http-test/renamed.txt?permanent")).status).to.be.equal(204)
+        expect((await request("DELETE", "/tree/http-test?permanent")).status).to.be.equal(204)
+        expect((await request("GET", "/other")).status).to.be.equal(404)
+
+        // Requests for which the authenticator finds no user are not handled
+        const authServer = http.createServer(createRequestHandler(folderSystem, {getPrincipal:(req)=>req.headers["x-user"] ? {user:String(req.headers["x-user"])} : undefined}))
+        await new Promise<void>((resolve)=>authServer.listen(0, resolve))
+        const anonymousStatus = await new Promise<number>((resolve, reject)=>{
+            http.get({port:(authServer.address() as AddressInfo).port, path:"/tree/"}, (res)=>{
+                res.resume()
+                resolve(res.statusCode as number)
+            }).on("error", reject)
+        })
+        expect(anonymousStatus).to.be.equal(403)
+        await new Promise((resolve)=>authServer.close(resolve))
+
+        await new Promise((resolve)=>server.close(resolve))
+        folderSystem.client?.close()
+    })
+
+    it('should serve the file tree over WebDAV', async ()=>{
+        await folderSystem.connect()
+        const server = http.createServer(createWebDavHandler(folderSystem, {basePath:"/dav"}))
+        await new Promise<void>((resolve)=>server.listen(0, resolve))
+        const port = (server.address() as AddressInfo).port
+        const request = (method: string, path: string, body?: string, headers: http.OutgoingHttpHeaders = {}): Promise<{status: number, headers: http.IncomingHttpHeaders, body: string}> =>{
+            return new Promise((resolve, reject)=>{
+                const req = http.request({port, method, path, headers}, (res)=>{
+                    const chunks: Buffer[] = []
+                    res.on("data", (chunk)=>chunks.push(chunk))
+                    res.on("end", ()=>resolve({status:res.statusCode as number, headers:res.headers, body:Buffer.concat(chunks).toString()}))
+                })
+                req.on("error", reject)
+                req.end(body)
+            })
+        }
+
+        expect((await request("OPTIONS", "/dav/")).headers.dav).to.be.equal("1, 2")
+        expect((await request("MKCOL", "/dav/dav-test")).status).to.be.equal(201)
+        expect((await request("MKCOL", "/dav/dav-test")).status).to.be.equal(405)
+        expect((await request("MKCOL", "/dav/missing/dav-test")).status).to.be.equal(409)
+
+        expect((await request("PUT", "/dav/dav-test/notes.txt", "Hello world")).status).to.be.equal(201)
+        expect((await request("PUT", "/dav/dav-test/notes.txt", "Hello again")).status).to.be.equal(204)
+        expect((await folderSystem.listFileVersions("folder-test/dav-test/notes.txt")).length).to.be.equal(2)
+        expect((await request("GET", "/dav/dav-test/notes.txt")).body).to.be.equal("Hello again")
+
+        const listing = await request("PROPFIND", "/dav/dav-test/", undefined, {"Depth":"1"})
+        expect(listing.status).to.be.equal(207)
+        expect(listing.body).to.include("<D:href>/dav/dav-test/</D:href>")
+        expect(listing.body).to.include("<D:href>/dav/dav-test/notes.txt</D:href>")
+        expect(listing.body).to.include("<D:getcontentlength>11</D:getcontentlength>")
+        expect((await request("PROPFIND", "/dav/", undefined, {"Depth":"infinity"})).status).to.be.equal(403)
+
+        const lock = await request("LOCK", "/dav/dav-test/notes.txt", `<?xml version="1.0"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype><D:owner>alice</D:owner></D:lockinfo>`, {"Timeout":"Second-60"})
+        expect(lock.status).to.be.equal(200)
+        const lockToken = (lock.headers["lock-token"] as string).slice(1, -1)
+        expect(lock.body).to.include("<D:owner>alice</D:owner>")
+        expect((await request("PUT", "/dav/dav-test/notes.txt", "Overwritten")).status).to.be.equal(423)
+        expect((await request("PUT", "/dav/dav-test/notes.txt", "Saved", {"If":`(<${lockToken}>)`})).status).to.be.equal(204)
+        expect((await request("LOCK", "/dav/dav-test/notes.txt", undefined, {"If":`(<${lockToken}>)`, "Timeout":"Second-120"})).status).to.be.equal(200)
+        expect((await request("UNLOCK", "/dav/dav-test/notes.txt", undefined, {"Lock-Token":`<${lockToken}>`})).status).to.be.equal(204)
+        expect((await folderSystem.listLocks("folder-test/dav-test")).length).to.be.equal(0)
+
+        expect((await request("COPY", "/dav/dav-test/notes.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/copy.txt`})).status).to.be.equal(201)
+        expect((await request("GET", "/dav/dav-test/copy.txt")).body).to.be.equal("Saved")
+        expect((await request("MOVE", "/dav/dav-test/copy.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/notes.txt`, "Overwrite":"F"})).status).to.be.equal(412)
+        expect((await request("MKCOL", "/dav/dav-test/archive")).status).to.be.equal(201)
+        expect((await request("MOVE", "/dav/dav-test/copy.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/archive/moved.txt`})).status).to.be.equal(201)
+        expect((await request("GET", "/dav/dav-test/archive/moved.txt")).body).to.be.equal("Saved")
+        expect((await request("COPY", "/dav/dav-test/archive/", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/backup/`})).status).to.be.equal(201)
+        expect((await request("GET", "/dav/dav-test/backup/moved.txt")).body).to.be.equal("Saved")
+        expect((await request("MOVE", "/dav/dav-test/", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/backup/dav-test/`})).status).to.be.equal(403)
+
+        // Moving and renaming happen at once, and a move that is not allowed leaves the file it would overwrite in place
+        expect((await request("PUT", "/dav/dav-test/notes.txt", "Latest")).status).to.be.equal(204)
+        expect((await request("PUT", "/dav/dav-test/archive/notes.txt", "Archived")).status).to.be.equal(201)
+        const moveLock = await request("LOCK", "/dav/dav-test/notes.txt", `<?xml version="1.0"?><D:lockinfo xmlns:D="DAV:"><D:lockscope><D:exclusive/></D:lockscope><D:locktype><D:write/></D:locktype></D:lockinfo>`)
+        expect((await request("MOVE", "/dav/dav-test/notes.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/archive/moved.txt`})).status).to.be.equal(423)
+        expect((await request("GET", "/dav/dav-test/archive/moved.txt")).body).to.be.equal("Saved")
+        expect((await request("UNLOCK", "/dav/dav-test/notes.txt", undefined, {"Lock-Token":moveLock.headers["lock-token"]})).status).to.be.equal(204)
+        expect((await request("MOVE", "/dav/dav-test/notes.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/archive/moved.txt`})).status).to.be.equal(204)
+        expect((await request("GET", "/dav/dav-test/archive/moved.txt")).body).to.be.equal("Latest")
+        expect((await request("GET", "/dav/dav-test/archive/notes.txt")).body).to.be.equal("Archived")
+        expect((await request("MOVE", "/dav/dav-test/archive/moved.txt", undefined, {"Destination":`http://localhost:${port}/dav/dav-test/notes.txt`})).status).to.be.equal(201)
+
+        expect((await request("DELETE", "/dav/dav-test/notes.txt")).status).to.be.equal(204)
+        expect((await request("GET", "/dav/dav-test/notes.txt")).status).to.be.equal(404)
+        expect((await request("DELETE", "/dav/dav-test/")).status).to.be.equal(204)
+
+        // Requests for which the authenticator finds no user are not handled
+        const authServer = http.createServer(createWebDavHandler(folderSystem, {basePath:"/dav", getPrincipal:()=>undefined}))
+        await new Promise<void>((resolve)=>authServer.listen(0, resolve))
+        const anonymousStatus = await new Promise<number>((resolve, reject)=>{
+            http.request({port:(authServer.address() as AddressInfo).port, method:"PROPFIND", path:"/dav/", headers:{"Depth":"0"}}, (res)=>{
+                res.resume()
+                resolve(res.statusCode as number)
+            }).on("error", reject).end()
+        })
+        expect(anonymousStatus).to.be.equal(403)
+        await new Promise((resolve)=>authServer.close(resolve))
+
+        await new Promise((resolve)=>server.close(resolve))
+        folderSystem.client?.close()
+    })
+
+    it('should operate on the file tree from the command line', async ()=>{
+        const env = {GRIDFS_TREE_DB:dbName, GRIDFS_TREE_BUCKET:bucketName, GRIDFS_TREE_FOLDER_COLLECTION:folderCollectionName}
+        const cli = async (...args: string[]): Promise<{exitCode: number, stdout: string, stderr: string}> =>{
+            const output = {stdout:"", stderr:""}
+            const capture = (name: "stdout" | "stderr")=>new Writable({write(chunk, encoding, callback){
+                output[name] += chunk.toString()
+                callback()
+            }})
+            const exitCode = await runCli(args, env, capture("stdout"), capture("stderr"))
+            return {exitCode, ...output}
+        }
+
+        expect((await cli("mkdir", "-p", "cli-test/nested")).exitCode).to.be.equal(0)
+        expect((await cli("put", process.cwd()+"/test/test.txt", "cli-test/nested")).exitCode).to.be.equal(0)
+        expect((await cli("cat", "cli-test/nested/test.txt")).stdout).to.be.equal("Hello world")
+        expect((await cli("tree", "cli-test")).stdout).to.be.equal("nested/\n  test.txt\n")
+
+        const listing = JSON.parse((await cli("--json", "ls", "folder-test/cli-test/nested")).stdout)
+        expect(listing.map((entry: any)=>entry.name)).to.be.deep.equal(["test.txt"])
+
+        expect((await cli("meta", "set", "cli-test/nested/test.txt", "reviewed=true", "owner=alice")).exitCode).to.be.equal(0)
+        expect(JSON.parse((await cli("meta", "get", "cli-test/nested/test.txt")).stdout)).to.be.deep.equal({reviewed:true, owner:"alice"})
+        await cli("meta", "unset", "cli-test/nested/test.txt", "owner")
+        expect(JSON.parse((await cli("meta", "get", "cli-test/nested/test.txt")).stdout)).to.be.deep.equal({reviewed:true})
+
+        expect((await cli("rename", "cli-test/nested/test.txt", "renamed.txt")).exitCode).to.be.equal(0)
+        expect((await cli("mv", "cli-test/nested/renamed.txt", "cli-test")).exitCode).to.be.equal(0)
+        expect((await cli("versions", "cli-test/renamed.txt")).stdout.split("\n")[0].startsWith("1\t11\t")).to.be.equal(true)
+
+        const missingFile = await cli("--json", "cat", "cli-test/missing.txt")
+        expect(missingFile.exitCode).to.be.equal(3)
+        expect(JSON.parse(missingFile.stderr).error).to.be.equal("File with path folder-test/cli-test/missing.txt does not exist")
+        expect((await cli("mkdir", "cli-test/nested")).exitCode).to.be.equal(4)
+        expect((await cli("mkdir", "-p", "cli-test/nested")).exitCode).to.be.equal(0)
+        expect((await cli("--chunk-size", "abc", "put", process.cwd()+"/test/test.txt", "cli-test")).exitCode).to.be.equal(2)
+        expect((await cli("rename", "cli-test/renamed.txt", "invalid?.txt")).exitCode).to.be.equal(5)
+        expect((await cli("rm", "cli-test")).exitCode).to.be.equal(2)
+        expect((await cli("unknown")).exitCode).to.be.equal(2)
+
+        expect((await cli("rm", "-r", "--permanent", "cli-test")).exitCode).to.be.equal(0)
+        expect((await cli("ls", "cli-test")).exitCode).to.be.equal(3)
+    })
+
+    it('should detect and store the media type of uploaded files', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.createFolder("media-type-test")
+        await folderSystem.changeDirectory("media-type-test")
+
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:"test.PNG", chunkSize:1048576})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:"image.txt", chunkSize:1048576})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"data", chunkSize:1048576, contentType:"application/json"})
+
+        const {entries} = await folderSystem.listDirectory("folder-test/media-type-test")
+        expect(Object.fromEntries(entries.map((entry)=>[entry.name, entry.contentType]))).to.be.deep.equal({
+            "data":"application/json", "image.txt":"image/png", "test.PNG":"image/png", "test.txt":"text/plain"
+        })
+        expect((await folderSystem.statFile("test.PNG")).contentType).to.be.equal("image/png")
+        expect((await folderSystem.listFileVersions("test.PNG"))[0].contentType).to.be.equal("image/png")
+        expect(entries.every((entry)=>(entry.customMetadata as any).contentType === undefined)).to.be.equal(true)
+
+        const server = http.createServer(createRequestHandler(folderSystem))
+        await new Promise<void>((resolve)=>server.listen(0, resolve))
+        const contentType = await new Promise((resolve, reject)=>{
+            http.get({port:(server.address() as AddressInfo).port, path:"/tree/media-type-test/test.PNG"}, (res)=>{
+                res.resume()
+                resolve(res.headers["content-type"])
+            }).on("error", reject)
+        })
+        expect(contentType).to.be.equal("image/png")
+        await new Promise((resolve)=>server.close(resolve))
         let err: any
 
         try{
-            await folderSystem.deleteFolder("invalid-folder-path")
+            await folderSystem.changeFileMetadata("test.PNG", {contentType:"text/plain"})
         }
 
         catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
+        expect(err.message).to.be.equal("Cannot change or delete 'contentType' metadata property using this method")
+        err = undefined
+
+        try{
+            await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"invalid.txt", chunkSize:1048576, contentType:"not a media type"})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Option contentType must be a valid media type, like 'text/plain'")
 
-        folderSystem.client.close()
+        await folderSystem.changeDirectory("..")
+        await folderSystem.deleteFolder("media-type-test")
+        folderSystem.client?.close()
     })
 
-    it('should throw an error if the user tries to delete the current working directory', async ()=>{
+    it('should confine handles to their folder and create folders and files in explicit target folders', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.createFolder("handle-test")
+        await folderSystem.createFolder("projects", {}, "folder-test/handle-test")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"handle-test/projects"})
 
-        await folderSystem.createFolder("new-folder")
+        expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test")
+        expect(await client.db(dbName).collection(folderCollectionName).countDocuments({"path":"folder-test/handle-test/projects"})).to.be.equal(1)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/handle-test/projects/test.txt"}).hasNext()).to.be.equal(true)
+
+        const handle = folderSystem.at("handle-test")
+        expect(handle.basePath).to.be.equal("folder-test/handle-test")
+        expect(handle.currentWorkingDirectory).to.be.equal("folder-test/handle-test")
+
+        const projects = await handle.cd("projects")
+        expect(projects.currentWorkingDirectory).to.be.equal("folder-test/handle-test/projects")
+        expect(handle.currentWorkingDirectory).to.be.equal("folder-test/handle-test")
+        expect((await projects.cd("../../..")).currentWorkingDirectory).to.be.equal("folder-test/handle-test")
+
+        await projects.createFolder("report")
+        expect((await handle.listDirectory("projects")).entries.map((entry)=>entry.name)).to.be.deep.equal(["report", "test.txt"])
+        expect((await handle.listDirectory("../../projects")).entries.length).to.be.equal(2)
 
-        await folderSystem.changeDirectory("new-folder", true)
         let err: any
 
         try{
-            await folderSystem.deleteFolder("new-folder")
+            await handle.listDirectory("folder-test")
         }
 
         catch(e){
             err = e
         }
 
-        expect(err.message).to.be.equal("Cannot delete current working directory (folder-test/new-folder)")
+        expect(err.message).to.be.equal("Path folder-test is outside of the folder with path folder-test/handle-test")
+        err = undefined
+
+        try{
+            await projects.createFolder("escape", {}, "folder-test")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Path folder-test is outside of the folder with path folder-test/handle-test")
+        expect(await client.db(dbName).collection(folderCollectionName).countDocuments({"path":"folder-test/escape"})).to.be.equal(0)
+        err = undefined
+
+        try{
+            handle.at("folder-test")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Path folder-test is outside of the folder with path folder-test/handle-test")
+        err = undefined
+
+        try{
+            await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"invalid-folder-path"})
+        }
 
-        folderSystem.client.close()
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
+        err = undefined
+
+        try{
+            handle.addHook("beforeDelete", ()=>undefined)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Method addHook cannot be called on a handle confined to the folder with path folder-test/handle-test")
+
+        const server = http.createServer(createRequestHandler(folderSystem.at("handle-test/projects")))
+        await new Promise<void>((resolve)=>server.listen(0, resolve))
+        const entries = await new Promise<any>((resolve, reject)=>{
+            http.get({port:(server.address() as AddressInfo).port, path:"/tree/"}, (res)=>{
+                let body = ""
+                res.setEncoding("utf8")
+                res.on("data", (chunk)=>body += chunk)
+                res.on("end", ()=>resolve(JSON.parse(body).entries))
+            }).on("error", reject)
+        })
+        expect(entries.map((entry: any)=>entry.path)).to.be.deep.equal(["folder-test/handle-test/projects/report", "folder-test/handle-test/projects/test.txt"])
+        await new Promise((resolve)=>server.close(resolve))
+
+        await folderSystem.deleteFolder("handle-test")
+        folderSystem.client?.close()
+    })
+
+    it('should use an existing client or database and only close the client it created', async ()=>{
+        const sharedClient = new MongoClient("mongodb://localhost:27017")
+        const clientTree = new MongoFileTree(sharedClient, dbName, bucketName, folderCollectionName)
+        const dbTree = new MongoFileTree(sharedClient.db(dbName), bucketName, folderCollectionName)
+
+        expect(clientTree.client).to.be.equal(sharedClient)
+        expect(dbTree.client).to.be.equal(undefined)
+        expect(dbTree.db.databaseName).to.be.equal(dbName)
+        expect(dbTree.folderCollectionName).to.be.equal(folderCollectionName)
+
+        await clientTree.connect()
+        await clientTree.createFolder("client-test")
+        expect((await dbTree.listDirectory("folder-test")).entries.map((entry)=>entry.name)).to.include("client-test")
+
+        await clientTree.close()
+        await dbTree.close()
+        // The shared client is still open
+        await dbTree.deleteFolder("client-test")
+        expect(await sharedClient.db(dbName).collection(folderCollectionName).countDocuments({"path":"folder-test/client-test"})).to.be.equal(0)
+        await sharedClient.close()
+
+        const ownTree = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName)
+        await ownTree.connect()
+        await ownTree.listDirectory("folder-test")
+        await (ownTree as any)[(Symbol as any).asyncDispose ?? Symbol.for("nodejs.asyncDispose")]()
+        let err: any
+
+        try{
+            await ownTree.listDirectory("folder-test")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.name).to.be.equal("MongoNotConnectedError")
+
+        // Every method rejects once the client is closed, instead of never settling
+        for(const call of [()=>ownTree.search("folder-test"), ()=>ownTree.changeDirectory("client-test"), ()=>ownTree.listLocks(), ()=>ownTree.unlockFile("test.txt", "user-1")]){
+            err = undefined
+            try{
+                await call()
+            }
+
+            catch(e){
+                err = e
+            }
+
+            expect(err.name).to.be.equal("MongoNotConnectedError")
+        }
+    })
+
+    it('should resolve relative paths and only match whole folder names', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.createFolder("path-test")
+        await folderSystem.changeDirectory("path-test")
+        expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test/path-test")
+
+        await folderSystem.createFolder("foo")
+        await folderSystem.createFolder("foobar")
+        await folderSystem.createFolder("a.b(c)")
+        await folderSystem.changeDirectory("./foobar")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await folderSystem.changeDirectory("../a.b(c)")
+        await folderSystem.createFolder("subfolder")
+        await folderSystem.changeDirectory("../..")
+        expect(folderSystem.currentWorkingDirectory).to.be.equal("folder-test")
+
+        const listing = await folderSystem.listDirectory("path-test/./foo/../foobar")
+        expect(listing.entries.map((entry)=>entry.path)).to.be.deep.equal(["folder-test/path-test/foobar/test.txt"])
+
+        await folderSystem.deleteFolder("path-test/foo")
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/path-test/foobar/test.txt"}).hasNext()).to.be.equal(true)
+
+        await folderSystem.deleteFolder("path-test/a.b(c)")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/path-test/a.b(c)/subfolder"}))).to.be.equal(false)
+        let err: any
+
+        try{
+            await folderSystem.createFolder("", {}, "folder-test/path-test")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`"" cannot be used as a folder name`)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/path-test/"}))).to.be.equal(false)
+
+        await folderSystem.deleteFolder("path-test")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to move folders and files to the trash and restore them', async ()=>{
+        const trashFolderSystem = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName, {useTrash:true})
+        await trashFolderSystem.createFolder("trash-test")
+        await trashFolderSystem.changeDirectory("trash-test")
+        await trashFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await trashFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await trashFolderSystem.createFolder("subfolder")
+
+        await trashFolderSystem.deleteFile("test.txt")
+        await trashFolderSystem.deleteFolder("subfolder")
+        expect(await trashFolderSystem.bucket.find({"metadata.path":"folder-test/trash-test/test.txt"}).hasNext()).to.be.equal(false)
+        expect((await trashFolderSystem.listDirectory(".")).entries.length).to.be.equal(0)
+
+        const items = await trashFolderSystem.listTrash()
+        expect(items.map((item)=>item.path)).to.be.deep.equal(["folder-test/trash-test/subfolder", "folder-test/trash-test/test.txt"])
+        expect(items[1].kind).to.be.equal("file")
+        expect(items[1].expiresAt.getTime()-items[1].deletedAt.getTime()).to.be.equal(30*24*60*60*1000)
+
+        await trashFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        let err: any
+
+        try{
+            await trashFolderSystem.restoreFromTrash(items[1].id)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("File with name test.txt already exists in the specified directory")
+
+        expect(await trashFolderSystem.restoreFromTrash(items[1].id, {onConflict:"rename"})).to.be.equal("folder-test/trash-test/test-1.txt")
+        expect((await trashFolderSystem.bucket.find({"metadata.path":"folder-test/trash-test/test-1.txt", "filename":"test-1.txt"}).toArray()).length).to.be.equal(2)
+        err = undefined
+        const vetoRestoration = ()=>{
+            throw new Error("Restoration is not allowed")
+        }
+        trashFolderSystem.addHook("beforeRestore", vetoRestoration)
+
+        try{
+            await trashFolderSystem.restoreFromTrash(items[0].id)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Restoration is not allowed")
+        trashFolderSystem.removeHook("beforeRestore", vetoRestoration)
+
+        const createdPaths: string[] = []
+        trashFolderSystem.on("folderCreated", ({path})=>createdPaths.push(path))
+        expect(await trashFolderSystem.restoreFromTrash(items[0].id)).to.be.equal("folder-test/trash-test/subfolder")
+        expect(createdPaths).to.be.deep.equal(["folder-test/trash-test/subfolder"])
+        expect((await trashFolderSystem.listTrash()).length).to.be.equal(0)
+
+        await trashFolderSystem.deleteFile("test.txt", {permanent:true})
+        expect((await trashFolderSystem.listTrash()).length).to.be.equal(0)
+
+        await trashFolderSystem.changeDirectory("..")
+        await trashFolderSystem.deleteFolder("trash-test")
+        expect(await trashFolderSystem.purgeExpiredTrash()).to.be.equal(0)
+        expect(await trashFolderSystem.emptyTrash()).to.be.equal(1)
+        expect(await trashFolderSystem.bucket.find({"metadata.parentDirectory":new RegExp("^"+trashFolderSystem.trashCollectionName)}).hasNext()).to.be.equal(false)
+
+        const expiringFolderSystem = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName, {useTrash:true, trashRetention:0})
+        await trashFolderSystem.createFolder("expired-trash-test")
+        await trashFolderSystem.deleteFolder("expired-trash-test")
+        await trashFolderSystem.createFolder("expired-trash-test")
+        await trashFolderSystem.deleteFolder("expired-trash-test")
+        await new Promise((resolve)=>setTimeout(resolve, 10))
+        expect(await expiringFolderSystem.purgeExpiredTrash()).to.be.equal(2)
+
+        await trashFolderSystem.createFolder("expired-trash-test")
+        await trashFolderSystem.deleteFolder("expired-trash-test")
+        await new Promise((resolve)=>setTimeout(resolve, 10))
+        await expiringFolderSystem.ensureIndexes()
+        expect((await trashFolderSystem.listTrash()).length).to.be.equal(0)
+        expiringFolderSystem.client?.close()
+        trashFolderSystem.client?.close()
+    })
+
+    it('should store the hash of uploaded files and only store identical data once with deduplicated storage', async ()=>{
+        const dedupFolderSystem = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName, {deduplicate:true})
+        await dedupFolderSystem.createFolder("dedup-test")
+        await dedupFolderSystem.changeDirectory("dedup-test")
+        // Random data, so that no file uploaded by the other tests has the same hash
+        const data = crypto.randomBytes(1024)
+        const sha256 = crypto.createHash("sha256").update(data).digest("hex")
+
+        const firstId = await dedupFolderSystem.uploadFile(Readable.from(data), {name:"data.bin", chunkSize:1048576})
+        const [firstVersion] = await dedupFolderSystem.listFileVersions("data.bin")
+        expect(firstVersion.sha256).to.be.equal(sha256)
+
+        expect((await dedupFolderSystem.uploadFile(Readable.from(data), {name:"data.bin", chunkSize:1048576})).equals(firstId)).to.be.equal(true)
+        expect((await dedupFolderSystem.listFileVersions("data.bin")).length).to.be.equal(1)
+
+        const copyId = await dedupFolderSystem.uploadFile(Readable.from(data), {name:"copy.bin", chunkSize:1048576})
+        const copy = (await dedupFolderSystem.bucket.find({_id:copyId}).toArray())[0]
+        expect(copy.metadata?.contentId.equals(firstId)).to.be.equal(true)
+        expect(await dedupFolderSystem.db.collection(bucketName+".chunks").countDocuments({files_id:copyId})).to.be.equal(0)
+
+        await dedupFolderSystem.deleteFile("data.bin")
+        const chunks: Buffer[] = []
+        for await (const chunk of await dedupFolderSystem.getFileReadStream("copy.bin")){
+            chunks.push(chunk)
+        }
+        expect(Buffer.concat(chunks).equals(data)).to.be.equal(true)
+        expect(await dedupFolderSystem.db.collection(bucketName+".chunks").countDocuments({files_id:copyId})).to.be.equal(1)
+
+        await dedupFolderSystem.changeDirectory("..")
+        await dedupFolderSystem.deleteFolder("dedup-test")
+        dedupFolderSystem.client?.close()
+    })
+
+    it('should report the storage usage of folders and enforce folder quotas', async ()=>{
+        await folderSystem.connect()
+        const size = fs.statSync(process.cwd()+"/test/test.txt").size
+        await folderSystem.createFolder("quota-test")
+        await folderSystem.changeDirectory("quota-test")
+        await folderSystem.createFolder("subfolder")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await folderSystem.changeDirectory("subfolder")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+
+        expect(await folderSystem.getFolderUsage("folder-test/quota-test")).to.be.deep.equal({bytes:2*size, storedBytes:2*size, fileCount:2, versionCount:2, quota:null})
+        expect(await folderSystem.getFolderUsage("folder-test/quota-test", {includeAllVersions:true})).to.be.deep.equal({bytes:3*size, storedBytes:3*size, fileCount:2, versionCount:3, quota:null})
+
+        await folderSystem.setFolderQuota("folder-test/quota-test", 3*size)
+        let err: any
+
+        try{
+            await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`Storage quota of folder with path folder-test/quota-test exceeded (${4*size} of ${3*size} bytes)`)
+        expect((await folderSystem.listFileVersions("test.txt")).length).to.be.equal(1)
+        err = undefined
+
+        try{
+            await folderSystem.copyFile("folder-test/new-file-name.txt", ".")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`Storage quota of folder with path folder-test/quota-test exceeded (${4*size} of ${3*size} bytes)`)
+
+        await folderSystem.setFolderQuota("folder-test/quota-test", null)
+        expect((await folderSystem.getFolderUsage("folder-test/quota-test")).quota).to.be.equal(null)
+
+        await folderSystem.changeDirectory("folder-test")
+        await folderSystem.deleteFolder("quota-test")
+        folderSystem.client?.close()
+    })
+
+    it('should emit events after changes to the file tree and let hooks veto or modify them', async ()=>{
+        const eventFolderSystem = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName)
+        const events: any[] = []
+        for(const name of ["fileUploaded", "fileVersioned", "fileRenamed", "fileDeleted", "folderCreated", "folderRenamed", "folderDeleted", "metadataChanged", "fileVersionsPruned"] as const){
+            eventFolderSystem.on(name, (payload: any)=>events.push({name, ...payload}))
+        }
+
+        eventFolderSystem.addHook("beforeUpload", (context)=>{
+            if(context.name.endsWith(".exe")){
+                throw new Error("Executable files cannot be uploaded")
+            }
+            context.customMetadata.reviewed = false
+        })
+
+        const folderId = (await eventFolderSystem.createFolder("event-test")).insertedId
+        await eventFolderSystem.changeDirectory("event-test")
+        const firstId = await eventFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        const secondId = await eventFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await eventFolderSystem.changeFileName("renamed.txt", "test.txt")
+        await eventFolderSystem.changeFileMetadata("renamed.txt", {starred:true})
+        await eventFolderSystem.deleteFile("renamed.txt")
+        await eventFolderSystem.changeDirectory("..")
+        await eventFolderSystem.changeFolderName("event-test-2", "event-test")
+
+        expect(events).to.be.deep.equal([
+            {name:"folderCreated", id:folderId, path:"folder-test/event-test"},
+            {name:"fileUploaded", id:firstId, path:"folder-test/event-test/test.txt"},
+            {name:"fileVersioned", id:secondId, path:"folder-test/event-test/test.txt", previousId:firstId},
+            {name:"fileRenamed", id:secondId, path:"folder-test/event-test/renamed.txt", oldPath:"folder-test/event-test/test.txt"},
+            {name:"metadataChanged", kind:"file", id:secondId, path:"folder-test/event-test/renamed.txt"},
+            {name:"fileDeleted", id:secondId, path:"folder-test/event-test/renamed.txt", toTrash:false},
+            {name:"folderRenamed", id:folderId, path:"folder-test/event-test-2", oldPath:"folder-test/event-test"}
+        ])
+        expect((await eventFolderSystem.bucket.find({_id:secondId}).toArray()).length).to.be.equal(0)
+
+        await eventFolderSystem.changeDirectory("event-test-2")
+        const id = await eventFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        expect((await eventFolderSystem.bucket.find({_id:id}).toArray())[0].metadata?.reviewed).to.be.equal(false)
+        events.length = 0
+        let err: any
+
+        try{
+            await eventFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.exe", chunkSize:1048576})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Executable files cannot be uploaded")
+        expect(await eventFolderSystem.bucket.find({"metadata.path":"folder-test/event-test-2/test.exe"}).hasNext()).to.be.equal(false)
+        err = undefined
+
+        const vetoDeletion = async ()=>{
+            throw new Error("Deletion is not allowed")
+        }
+        eventFolderSystem.addHook("beforeDelete", vetoDeletion)
+
+        try{
+            await eventFolderSystem.deleteFile("test.txt")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Deletion is not allowed")
+        expect(await eventFolderSystem.bucket.find({"metadata.path":"folder-test/event-test-2/test.txt"}).hasNext()).to.be.equal(true)
+        expect(events.length).to.be.equal(0)
+
+        eventFolderSystem.removeHook("beforeDelete", vetoDeletion)
+        err = undefined
+
+        // Restoring and pruning versions are hookable too
+        const newestId = await eventFolderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        const vetoRestoration = ()=>{
+            throw new Error("Restoration is not allowed")
+        }
+        eventFolderSystem.addHook("beforeVersionRestore", vetoRestoration)
+
+        try{
+            await eventFolderSystem.restoreFileVersion("test.txt", {version:1})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Restoration is not allowed")
+        expect((await eventFolderSystem.listFileVersions("test.txt")).length).to.be.equal(2)
+        eventFolderSystem.removeHook("beforeVersionRestore", vetoRestoration)
+        events.length = 0
+
+        const restoredId = await eventFolderSystem.restoreFileVersion("test.txt", {version:1})
+        const prunedPaths: string[] = []
+        eventFolderSystem.addHook("beforePrune", (context)=>{
+            prunedPaths.push(context.path)
+        })
+        expect(await eventFolderSystem.pruneFileVersions("test.txt", {keepLast:1})).to.be.deep.equal([newestId, id])
+        expect(prunedPaths).to.be.deep.equal(["folder-test/event-test-2/test.txt"])
+        expect(events).to.be.deep.equal([
+            {name:"fileVersioned", id:restoredId, path:"folder-test/event-test-2/test.txt", previousId:newestId},
+            {name:"fileVersionsPruned", id:restoredId, path:"folder-test/event-test-2/test.txt", deletedIds:[newestId, id]}
+        ])
+        events.length = 0
+
+        await eventFolderSystem.changeDirectory("..")
+        await eventFolderSystem.deleteFolder("event-test-2")
+        expect(events).to.be.deep.equal([{name:"folderDeleted", id:folderId, path:"folder-test/event-test-2", toTrash:false}])
+        eventFolderSystem.client?.close()
+    })
+
+    it('should only let the owner of the lock on a file write to it until the lock expires', async ()=>{
+        await folderSystem.connect()
+        await folderSystem.createFolder("lock-test")
+        await folderSystem.changeDirectory("lock-test")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+
+        const lock = await folderSystem.lockFile("test.txt", "user-1", 60*1000)
+        expect(lock.path).to.be.equal("folder-test/lock-test/test.txt")
+        expect(lock.expiresAt.getTime()-lock.lockedAt.getTime()).to.be.equal(60*1000)
+        let err: any
+
+        try{
+            await folderSystem.lockFile("test.txt", "user-2", 60*1000)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`File with path folder-test/lock-test/test.txt is locked by user-1 until ${lock.expiresAt.toISOString()}`)
+        expect(err).to.be.instanceOf(LockedError)
+        expect(err.code).to.be.equal("LOCKED")
+        err = undefined
+
+        try{
+            await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, lockOwner:"user-2"})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`File with path folder-test/lock-test/test.txt is locked by user-1 until ${lock.expiresAt.toISOString()}`)
+        expect((await folderSystem.listFileVersions("test.txt")).length).to.be.equal(1)
+        err = undefined
+
+        try{
+            await folderSystem.changeDirectory("..")
+            await folderSystem.deleteFolder("lock-test")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`File with path folder-test/lock-test/test.txt is locked by user-1 until ${lock.expiresAt.toISOString()}`)
+        await folderSystem.changeDirectory("lock-test")
+
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, lockOwner:"user-1"})
+
+        for(const call of [()=>folderSystem.restoreFileVersion("test.txt", {version:1, lockOwner:"user-2"}), ()=>folderSystem.pruneFileVersions("test.txt", {keepLast:1}), ()=>folderSystem.changeFileMetadata("test.txt", {favourite:true}, undefined, false, "user-2")]){
+            err = undefined
+            try{
+                await call()
+            }
+
+            catch(e){
+                err = e
+            }
+
+            expect(err.message).to.be.equal(`File with path folder-test/lock-test/test.txt is locked by user-1 until ${lock.expiresAt.toISOString()}`)
+        }
+        expect((await folderSystem.listFileVersions("test.txt")).length).to.be.equal(2)
+        expect(await folderSystem.bucket.find({"metadata.path":"folder-test/lock-test/test.txt", "metadata.favourite":true}).hasNext()).to.be.equal(false)
+        await folderSystem.restoreFileVersion("test.txt", {version:1, lockOwner:"user-1"})
+
+        // An expired lock left at the new path of the file is replaced by the lock that moves with it
+        await folderSystem.db.collection<{_id: string, owner: string, lockedAt: Date, expiresAt: Date}>(folderSystem.lockCollectionName).insertOne({_id:"folder-test/lock-test/renamed.txt", owner:"user-3", lockedAt:new Date(0), expiresAt:new Date(1)})
+        await folderSystem.changeFileName("renamed.txt", "test.txt", "user-1")
+        expect((await folderSystem.listLocks("folder-test/lock-test")).map((lock)=>[lock.path, lock.owner])).to.be.deep.equal([["folder-test/lock-test/renamed.txt", "user-1"]])
+
+        const renewedLock = await folderSystem.renewLock("renamed.txt", "user-1", 120*1000)
+        expect(renewedLock.expiresAt.getTime()).to.be.greaterThan(lock.expiresAt.getTime())
+        err = undefined
+
+        try{
+            await folderSystem.renewLock("renamed.txt", "user-2", 120*1000)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("File with path renamed.txt is not locked by user-2")
+
+        await folderSystem.unlockFile("renamed.txt", "user-1")
+        expect((await folderSystem.listLocks()).length).to.be.equal(0)
+
+        await folderSystem.lockFile("renamed.txt", "user-2", 1)
+        await new Promise((resolve)=>setTimeout(resolve, 10))
+        await folderSystem.lockFile("renamed.txt", "user-1", 60*1000)
+
+        await folderSystem.changeDirectory("..")
+        await folderSystem.deleteFolder("lock-test", {lockOwner:"user-1"})
+        expect((await folderSystem.listLocks()).length).to.be.equal(0)
+        folderSystem.client?.close()
+    })
+
+    it('should only let users do what the access control lists of folders and files allow them to', async ()=>{
+        await folderSystem.connect()
+        await folderSystem.createFolder("acl-test")
+        await folderSystem.changeDirectory("acl-test")
+        await folderSystem.createFolder("private")
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"secret.txt", chunkSize:1048576})
+        await folderSystem.changeDirectory("..")
+
+        await folderSystem.setFolderAccessControl("acl-test", [{type:"group", name:"editors", permissions:["read", "write"]}])
+        await folderSystem.setFolderAccessControl("acl-test/private", [{type:"group", name:"editors", permissions:["read"], deny:true}])
+        await folderSystem.setFileAccessControl("acl-test/secret.txt", [{type:"user", name:"alice", permissions:["read"], deny:true}])
+
+        const aliceTree = folderSystem.withPrincipal({user:"alice", groups:["editors"]})
+        expect(aliceTree.principal?.user).to.be.equal("alice")
+        expect((await aliceTree.listDirectory("acl-test")).entries.map((entry)=>entry.name)).to.be.deep.equal(["test.txt"])
+        expect((await aliceTree.search("acl-test", {name:"*.txt"})).entries.map((entry)=>entry.name)).to.be.deep.equal(["test.txt"])
+        expect((await folderSystem.listDirectory("acl-test")).entries.length).to.be.equal(3)
+
+        // Copies of folders keep their access control lists
+        await folderSystem.createFolder("acl-copy-test")
+        await folderSystem.copyFolder("acl-test", "acl-copy-test")
+        expect((await folderSystem.listDirectory("acl-copy-test/acl-test")).entries.length).to.be.equal(3)
+        expect((await aliceTree.listDirectory("acl-copy-test/acl-test")).entries.map((entry)=>entry.name)).to.be.deep.equal(["test.txt"])
+        let err: any
+
+        try{
+            await aliceTree.listDirectory("acl-copy-test/acl-test/private")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have read permission on folder with path folder-test/acl-copy-test/acl-test/private")
+        await folderSystem.deleteFolder("acl-copy-test")
+
+        await aliceTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, customMetadata:{acl:[]}})
+        await folderSystem.setFileAccessControl("acl-test/test.txt", [{type:"user", name:"bob", permissions:["admin"]}])
+        await aliceTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576})
+        const versions = await folderSystem.listFileVersions("acl-test/test.txt")
+        expect(versions.length).to.be.equal(3)
+        expect(versions.every((version)=>(version.customMetadata as any).acl === undefined)).to.be.equal(true)
+        err = undefined
+
+        try{
+            await aliceTree.deleteFile("acl-test/test.txt")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have delete permission on file with path folder-test/acl-test/test.txt")
+        err = undefined
+
+        try{
+            await aliceTree.getFileReadStream("acl-test/secret.txt")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have read permission on file with path folder-test/acl-test/secret.txt")
+        err = undefined
+
+        try{
+            await aliceTree.createFolder("outside")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have write permission on folder with path folder-test")
+        err = undefined
+
+        try{
+            await aliceTree.setFolderAccessControl("acl-test", null)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have admin permission on folder with path folder-test/acl-test")
+        err = undefined
+
+        try{
+            aliceTree.addHook("beforeDelete", ()=>undefined)
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Method addHook cannot be called on behalf of a principal")
+        err = undefined
+
+        try{
+            await folderSystem.setFolderAccessControl(".", [])
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Cannot set the access control list of the root directory of the file tree")
+        err = undefined
+
+        // Items in the trash keep the access control lists they had when they were deleted
+        const trashTree = new MongoFileTree("mongodb://localhost:27017", dbName, bucketName, folderCollectionName, {useTrash:true})
+        await trashTree.connect()
+        await trashTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"report.txt", chunkSize:1048576, targetPath:"acl-test/private"})
+        await trashTree.deleteFile("acl-test/private/report.txt")
+        await folderSystem.setFolderAccessControl("acl-test/private", null)
+        const [trashedReport] = await trashTree.listTrash()
+        expect(trashedReport.path).to.be.equal("folder-test/acl-test/private/report.txt")
+        expect((await trashTree.withPrincipal({user:"alice", groups:["editors"]}).listTrash()).length).to.be.equal(0)
+
+        try{
+            await trashTree.withPrincipal({user:"alice", groups:["editors"]}).restoreFromTrash(trashedReport.id, {targetPath:"acl-test"})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("User alice does not have read permission on file with path folder-test/acl-test/private/report.txt")
+        expect(await trashTree.emptyTrash()).to.be.equal(1)
+        await trashTree.close()
+
+        await folderSystem.deleteFolder("acl-test")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to rename folders', async ()=>{
+        await folderSystem.client?.connect()
+        await folderSystem.changeFolderName("new-folder-name", "folder-test/subfolder-test")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name", "name":"new-folder-name"}))).to.be.equal(true)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2"}))).to.be.equal(true)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3"}))).to.be.equal(true)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.txt"}).hasNext()).to.be.equal(true)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.PNG"}).hasNext()).to.be.equal(true)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/test.txt"}).hasNext()).to.be.equal(true)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(true)
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to change the name of a folder that does not exist, the new folder name contains invalid characters, a folder with the new name already exists in the specified directory, or the user attempts to rename the root directory', async ()=>{
+        await folderSystem.client?.connect()
+        let err: any
+
+        try{
+            await folderSystem.changeFolderName("new-file-name.txt", "invalid-path")
+        }
+
+        catch(e: any){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Folder with path invalid-path does not exist")
+        err = undefined
+
+        try{
+            await folderSystem.changeFolderName("invalid-name$", "folder-test/new-folder-name")
+        }
+
+        catch(e: any){
+            err = e
+        }
+
+        expect(err.message).to.be.equal(`Character "$" cannot be used as part of a folder name`)
+        err = undefined
+
+        try{
+            await folderSystem.changeFolderName("new-root-name", "folder-test")
+        }
+
+        catch(e: any){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Cannot rename root directory of the file tree")
+
+        err = undefined
+
+        try{
+            await folderSystem.changeFolderName("new-folder-name", "folder-test/new-folder-name")
+        }
+
+        catch(e: any){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Folder with name new-folder-name already exists in the specified directory")
+        folderSystem.client?.close()
+    })
+
+    it('should allow users to delete folders', async ()=>{
+        await folderSystem.client?.connect()
+
+        await folderSystem.deleteFolder("folder-test/new-folder-name")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name"}))).to.be.equal(false)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2"}))).to.be.equal(false)
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3"}))).to.be.equal(false)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.txt"}).hasNext()).to.be.equal(false)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/test.PNG"}).hasNext()).to.be.equal(false)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/test.txt"}).hasNext()).to.be.equal(false)
+        expect(await folderSystem.db.collection(bucketName+".files").find({"metadata.path":"folder-test/new-folder-name/subfolder-test-2/subfolder-test-3/test.txt"}).hasNext()).to.be.equal(false)
+
+        await folderSystem.createFolder("new-folder")
+        await folderSystem.deleteFolder("folder-test")
+        expect(Boolean(await folderSystem.db.collection(folderCollectionName).findOne({"parentDirectory":new RegExp("^"+folderCollectionName)}))).to.be.equal(false)
+        expect(Boolean(await folderSystem.bucket.find({"metadata.parentDirectory":new RegExp("^"+folderCollectionName)}).hasNext())).to.be.equal(false)
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to delete a folder that does not exist', async ()=>{
+        await folderSystem.connect()
+        let err: any
+
+        try{
+            await folderSystem.deleteFolder("invalid-folder-path")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Folder with path invalid-folder-path does not exist")
+        expect(err).to.be.instanceOf(NotFoundError)
+        expect(err.code).to.be.equal("NOT_FOUND")
+
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to delete the current working directory', async ()=>{
+        await folderSystem.connect()
+
+        await folderSystem.createFolder("new-folder")
+
+        await folderSystem.changeDirectory("new-folder", true)
+        let err: any
+
+        try{
+            await folderSystem.deleteFolder("folder-test/new-folder")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Cannot delete current working directory (folder-test/new-folder)")
+
+        folderSystem.client?.close()
+    })
+
+    it('should throw an error if the user tries to delete the current working directory with a relative path', async ()=>{
+        await folderSystem.connect()
+
+        await folderSystem.createFolder("folder-test/relative-cwd-folder")
+
+        await folderSystem.changeDirectory("folder-test/relative-cwd-folder")
+        let err: any
+
+        try{
+            await folderSystem.deleteFolder(".")
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.message).to.be.equal("Cannot delete current working directory (folder-test/relative-cwd-folder)")
+
+        await folderSystem.changeDirectory("folder-test/new-folder")
+        folderSystem.client?.close()
+    })
+
+    it('should create the indexes of the file tree and apply each schema migration once', async ()=>{
+        await folderSystem.connect()
+
+        expect(await folderSystem.getSchemaVersion()).to.be.equal(0)
+        expect(await folderSystem.migrate()).to.be.deep.equal([1])
+        expect(await folderSystem.migrate()).to.be.deep.equal([])
+        expect(await folderSystem.getSchemaVersion()).to.be.equal(1)
+        expect(await client.db(dbName).collection(folderSystem.schemaCollectionName).countDocuments({})).to.be.equal(1)
+
+        const folderIndexes = await client.db(dbName).collection(folderCollectionName).indexes()
+        expect(folderIndexes.find((index)=>index.name === "path_unique")?.unique).to.be.equal(true)
+        const fileIndexes = await client.db(dbName).collection(bucketName+".files").indexes()
+        expect(fileIndexes.find((index)=>index.name === "metadata.path_latest_unique")?.partialFilterExpression).to.be.deep.equal({"metadata.isLatest":true})
+
+        await folderSystem.createFolder("index-test")
+        let err: any
+
+        try{
+            await client.db(dbName).collection(folderCollectionName).insertOne({name:"index-test", path:"folder-test/index-test", parentDirectory:"folder-test", customMetadata:{}})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.code).to.be.equal(11000)
+        err = undefined
+
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"index-test"})
+        await folderSystem.uploadFile(fs.createReadStream(process.cwd()+"/test/test.PNG"), {name:"test.txt", chunkSize:1048576, targetPath:"index-test"})
+        await folderSystem.restoreFileVersion("index-test/test.txt", {version:1})
+
+        const versions = await folderSystem.listFileVersions("index-test/test.txt")
+        expect(versions.map((version)=>version.isLatest)).to.be.deep.equal([false, false, true])
+        expect(versions[2].sha256).to.be.equal(versions[0].sha256)
+
+        try{
+            await client.db(dbName).collection(bucketName+".files").updateOne({"_id":versions[1].id}, {$set:{"metadata.isLatest":true}})
+        }
+
+        catch(e){
+            err = e
+        }
+
+        expect(err.code).to.be.equal(11000)
+
+        // Locks rely on the TTL index created with the other indexes
+        const lockIndexes = await client.db(dbName).collection(folderSystem.lockCollectionName).indexes()
+        expect(lockIndexes.find((index)=>index.name === "expiresAt")?.expireAfterSeconds).to.be.equal(0)
+        await folderSystem.ensureIndexes()
+        const lock = await folderSystem.lockFile("index-test/test.txt", "user-1", 60*1000)
+        expect(lock.path).to.be.equal("folder-test/index-test/test.txt")
+        await folderSystem.unlockFile("index-test/test.txt", "user-1")
+
+        await folderSystem.deleteFolder("index-test")
+        folderSystem.client?.close()
+    })
+
+    it('should store folders and files with references to the id of their parent folder and convert existing file trees', async ()=>{
+        const sharedClient = new MongoClient("mongodb://localhost:27017")
+        const pathTree = new MongoFileTree(sharedClient, dbName, "id-bucket-test", "id-folder-test")
+        const idTree = new MongoFileTree(sharedClient, dbName, "id-bucket-test", "id-folder-test", {storageMode:"parentId"})
+        const folders = sharedClient.db(dbName).collection("id-folder-test")
+        const files = sharedClient.db(dbName).collection("id-bucket-test.files")
+
+        await pathTree.connect()
+        expect(idTree.storageMode).to.be.equal("parentId")
+        await pathTree.createFolder("a")
+        await pathTree.createFolder("b", {}, "id-folder-test/a")
+        await pathTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"id-folder-test/a/b"})
+        await pathTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"id-folder-test/a/b"})
+
+        expect(await idTree.migrateStorageMode()).to.be.equal(4)
+        expect(await idTree.migrateStorageMode()).to.be.equal(0)
+
+        const folderA = await folders.findOne({"name":"a"})
+        const folderB = await folders.findOne({"name":"b"})
+        expect(folderA?.parentId).to.be.equal(null)
+        expect(folderB?.parentId.equals(folderA?._id)).to.be.equal(true)
+        expect(folderB?.path).to.be.equal(undefined)
+        expect((await idTree.listDirectory("id-folder-test/a")).entries.map((entry)=>entry.path)).to.be.deep.equal(["id-folder-test/a/b"])
+        expect(await idTree.getEntryKind("id-folder-test/a/b/test.txt")).to.be.equal("file")
+
+        // Renaming a folder does not change the folders and files in it
+        const fileBefore = await files.findOne({"metadata.isLatest":true})
+        await idTree.changeFolderName("c", "id-folder-test/a")
+        expect(await files.findOne({"_id":fileBefore?._id})).to.be.deep.equal(fileBefore)
+        const stat = await idTree.statFile("id-folder-test/c/b/test.txt")
+        expect(stat.path).to.be.equal("id-folder-test/c/b/test.txt")
+        expect(stat.versionCount).to.be.equal(2)
+
+        await idTree.moveFolder("id-folder-test/c/b", "id-folder-test")
+        expect((await idTree.getFolderUsage("id-folder-test/b")).fileCount).to.be.equal(1)
+        await idTree.deleteFolder("id-folder-test/c")
+        expect((await idTree.listDirectory("id-folder-test")).entries.map((entry)=>entry.path)).to.be.deep.equal(["id-folder-test/b"])
+
+        expect(await pathTree.migrateStorageMode()).to.be.equal(3)
+        expect((await folders.findOne({"name":"b"}))?.path).to.be.equal("id-folder-test/b")
+        expect((await files.findOne({"metadata.isLatest":true}))?.metadata.path).to.be.equal("id-folder-test/b/test.txt")
+        expect((await pathTree.statFile("id-folder-test/b/test.txt")).versionCount).to.be.equal(2)
+
+        for(const collectionName of ["id-folder-test", pathTree.trashCollectionName, pathTree.lockCollectionName, "id-bucket-test.files", "id-bucket-test.chunks"]){
+            await sharedClient.db(dbName).collection(collectionName).drop().catch(()=>undefined)
+        }
+        await sharedClient.close()
+    })
+
+    it('should find and repair inconsistencies of the file tree', async ()=>{
+        const sharedClient = new MongoClient("mongodb://localhost:27017")
+        const fsckTree = new MongoFileTree(sharedClient, dbName, "fsck-bucket-test", "fsck-folder-test")
+        const folders = sharedClient.db(dbName).collection("fsck-folder-test")
+        const files = sharedClient.db(dbName).collection("fsck-bucket-test.files")
+        const chunks = sharedClient.db(dbName).collection("fsck-bucket-test.chunks")
+
+        await fsckTree.connect()
+        await fsckTree.createFolder("a")
+        await fsckTree.createFolder("b", {}, "fsck-folder-test/a")
+        await fsckTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"fsck-folder-test/a/b"})
+        await fsckTree.uploadFile(fs.createReadStream(process.cwd()+"/test/test.txt"), {name:"test.txt", chunkSize:1048576, targetPath:"fsck-folder-test/a/b"})
+        expect(await fsckTree.checkTree()).to.be.deep.equal([])
+
+        await files.updateMany({}, {$set:{"metadata.isLatest":true}})
+        await folders.deleteOne({"path":"fsck-folder-test/a"})
+        await folders.insertOne({name:"c", path:"fsck-folder-test/d", parentDirectory:"fsck-folder-test", customMetadata:{}})
+        const orphanId = new ObjectId()
+        await chunks.insertOne({files_id:orphanId, n:0, data:Buffer.from("orphan")})
+
+        const issues = await fsckTree.checkTree()
+        expect(issues.map((issue)=>[issue.kind, issue.path])).to.be.deep.equal([
+            ["folderPath", "fsck-folder-test/d"],
+            ["latestVersion", "fsck-folder-test/a/b/test.txt"],
+            ["missingFolder", "fsck-folder-test/a"],
+            ["orphanChunks", null]
+        ])
+        expect(issues[3].ids[0].equals(orphanId)).to.be.equal(true)
+
+        expect(await fsckTree.repairTree({dryRun:true})).to.be.deep.equal(issues)
+        expect(await fsckTree.checkTree()).to.be.deep.equal(issues)
+
+        await fsckTree.repairTree()
+        expect(await fsckTree.checkTree()).to.be.deep.equal([])
+        expect((await fsckTree.listDirectory("fsck-folder-test")).entries.map((entry)=>entry.path)).to.have.members(["fsck-folder-test/a", "fsck-folder-test/d"])
+        expect((await fsckTree.listFileVersions("fsck-folder-test/a/b/test.txt")).map((version)=>version.isLatest)).to.be.deep.equal([false, true])
+        expect(await chunks.countDocuments({files_id:orphanId})).to.be.equal(0)
+
+        // Missing folders can be created in the lost+found folder instead
+        await folders.deleteOne({"path":"fsck-folder-test/a"})
+        await fsckTree.repairTree({orphans:"lostAndFound"})
+        expect(await fsckTree.getEntryKind("fsck-folder-test/a")).to.be.equal(null)
+        expect(await fsckTree.getEntryKind("fsck-folder-test/lost+found/a/b/test.txt")).to.be.equal("file")
+
+        for(const collectionName of ["fsck-folder-test", fsckTree.trashCollectionName, fsckTree.lockCollectionName, "fsck-bucket-test.files", "fsck-bucket-test.chunks"]){
+            await sharedClient.db(dbName).collection(collectionName).drop().catch(()=>undefined)
+        }
+        await sharedClient.close()
     })
-})
\ No newline at end of file
+})